@@ -0,0 +1,116 @@
+#!/usr/bin/env tsx
+import "dotenv/config";
+
+import config from "../src/config";
+import {
+  createSnapshot,
+  listSnapshots,
+  verifySnapshot,
+  restoreSnapshot,
+} from "../src/lib/backup";
+
+interface CliOptions {
+  command: "create" | "list" | "verify" | "restore" | "";
+  id?: string;
+  label?: string;
+  userId?: string;
+  yes?: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const opts: CliOptions = { command: "" };
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    switch (arg) {
+      case "--label":
+        opts.label = argv[++i];
+        break;
+      case "--user":
+        opts.userId = argv[++i];
+        break;
+      case "--yes":
+        opts.yes = true;
+        break;
+      case "--help":
+      case "-h":
+        printHelp();
+        process.exit(0);
+      default:
+        if (!opts.command && ["create", "list", "verify", "restore"].includes(arg)) {
+          opts.command = arg as CliOptions["command"];
+        } else if (!opts.id && (opts.command === "verify" || opts.command === "restore")) {
+          opts.id = arg;
+        } else {
+          console.error(`Unexpected argument: ${arg}`);
+          printHelp();
+          process.exit(1);
+        }
+    }
+  }
+
+  if (!opts.command) {
+    console.error("Command is required.");
+    printHelp();
+    process.exit(1);
+  }
+  if ((opts.command === "verify" || opts.command === "restore") && !opts.id) {
+    console.error(`Snapshot id is required for '${opts.command}' (see 'npm run backup -- list').`);
+    process.exit(1);
+  }
+
+  return opts;
+}
+
+function printHelp() {
+  console.log(`Usage: npm run backup -- <command> [options]
+
+Commands:
+  create [--label name]              take a compressed snapshot of users, accounts, topics and media
+  list                               list snapshots (newest first)
+  verify <id>                        check checksum, that every user file is repairable and media hashes
+  restore <id> [--user <userId>] --yes
+                                     restore the whole dataset (a pre-restore snapshot is taken first)
+                                     or only one user file
+
+Snapshots are written to ${config.backup.dir} (BACKUP_DIR); the newest ${config.backup.keep} are kept (BACKUP_KEEP).
+`);
+}
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+
+  switch (opts.command) {
+    case "create": {
+      const snap = await createSnapshot({ label: opts.label });
+      console.log(JSON.stringify(snap, null, 2));
+      break;
+    }
+    case "list": {
+      const all = await listSnapshots();
+      if (all.length === 0) console.log("No snapshots found.");
+      for (const s of all) console.log(`${s.id}\t${s.createdAt}\t${s.size} bytes`);
+      break;
+    }
+    case "verify": {
+      const result = await verifySnapshot(opts.id!);
+      console.log(JSON.stringify(result, null, 2));
+      if (!result.ok) process.exit(2);
+      break;
+    }
+    case "restore": {
+      if (!opts.yes) {
+        console.error("Restore overwrites data; pass --yes to confirm.");
+        process.exit(1);
+      }
+      const result = await restoreSnapshot(opts.id!, { userId: opts.userId });
+      console.log(JSON.stringify(result, null, 2));
+      break;
+    }
+  }
+}
+
+main().catch((err) => {
+  console.error("Backup command failed:", err?.message || err);
+  process.exit(1);
+});
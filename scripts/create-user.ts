@@ -7,9 +7,6 @@ import {
   createUser,
   addDeviceSecret,
   findUserByUsername,
-  loadUser,
-  saveUser,
-  setEmail,
 } from "../src/lib/store";
 import { insertAccount, findByEmail } from "../src/lib/accountStore";
 
@@ -119,15 +116,6 @@ async function main() {
       createdAt: now,
       updatedAt: now,
     });
-
-    await setEmail(user.id, email);
-    const fresh = await loadUser(user.id);
-    if (fresh) {
-      fresh.auth = fresh.auth || { deviceSecrets: [] };
-      fresh.auth.emailVerified = true;
-      fresh.auth.passwordHash = hash;
-      await saveUser(fresh);
-    }
   }
 
   const summary = {
@@ -0,0 +1,153 @@
+#!/usr/bin/env tsx
+import "dotenv/config";
+
+import config from "../src/config";
+import { readJournal } from "../src/lib/journal";
+import type { StoreEvent } from "../src/lib/events";
+import { replayUser, restoreUserFromJournal } from "../src/lib/replay";
+import { loadSnapshotUser } from "../src/lib/backup";
+
+interface CliOptions {
+  command: "events" | "replay" | "";
+  userId?: string;
+  type?: StoreEvent["type"];
+  since?: string;
+  until?: string;
+  limit?: number;
+  fromBackup?: string;
+  write?: boolean;
+  yes?: boolean;
+  json?: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const opts: CliOptions = { command: "" };
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    switch (arg) {
+      case "--user":
+        opts.userId = argv[++i];
+        break;
+      case "--type":
+        opts.type = argv[++i] as StoreEvent["type"];
+        break;
+      case "--since":
+        opts.since = argv[++i];
+        break;
+      case "--until":
+        opts.until = argv[++i];
+        break;
+      case "-n":
+        opts.limit = Number(argv[++i]);
+        break;
+      case "--from-backup":
+        opts.fromBackup = argv[++i];
+        break;
+      case "--write":
+        opts.write = true;
+        break;
+      case "--yes":
+        opts.yes = true;
+        break;
+      case "--json":
+        opts.json = true;
+        break;
+      case "--help":
+      case "-h":
+        printHelp();
+        process.exit(0);
+      default:
+        if (!opts.command && ["events", "replay"].includes(arg)) {
+          opts.command = arg as CliOptions["command"];
+        } else if (!opts.userId && opts.command === "replay") {
+          opts.userId = arg;
+        } else {
+          console.error(`Unexpected argument: ${arg}`);
+          printHelp();
+          process.exit(1);
+        }
+    }
+  }
+
+  if (!opts.command) {
+    console.error("Command is required.");
+    printHelp();
+    process.exit(1);
+  }
+  if (opts.command === "replay" && !opts.userId) {
+    console.error("User id is required for 'replay'.");
+    process.exit(1);
+  }
+
+  return opts;
+}
+
+function printHelp() {
+  console.log(`Usage: npm run journal -- <command> [options]
+
+Commands:
+  events [--user id] [--type deck.upserted] [--since ISO] [--until ISO] [-n N]
+                                     print journal events (JSONL, oldest first; -n keeps the last N)
+  replay <userId> [--until ISO] [--from-backup <snapshotId>] [--json]
+                                     rebuild a user file from the journal (dry-run: prints a summary)
+  replay <userId> ... --write --yes  overwrite data/users/<userId>.json with the rebuilt file
+
+Journal files live in ${config.journal.dir} (JOURNAL_DIR)${config.journal.enabled ? "" : " — journaling is currently disabled (JOURNAL_ENABLED)"}.
+`);
+}
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+
+  switch (opts.command) {
+    case "events": {
+      const filter = {
+        userId: opts.userId,
+        types: opts.type ? [opts.type] : undefined,
+        since: opts.since,
+        until: opts.until,
+      };
+      const tail: StoreEvent[] = [];
+      for await (const e of readJournal(filter)) {
+        if (!opts.limit) {
+          console.log(JSON.stringify(e));
+          continue;
+        }
+        tail.push(e);
+        if (tail.length > opts.limit) tail.shift();
+      }
+      for (const e of tail) console.log(JSON.stringify(e));
+      break;
+    }
+    case "replay": {
+      const base = opts.fromBackup ? await loadSnapshotUser(opts.fromBackup, opts.userId!) : undefined;
+      if (opts.write && !opts.yes) {
+        console.error("Replay --write overwrites the user file; pass --yes to confirm.");
+        process.exit(1);
+      }
+      const run = opts.write ? restoreUserFromJournal : replayUser;
+      const result = await run(opts.userId!, { until: opts.until, base });
+      if (opts.json) {
+        console.log(JSON.stringify(result, null, 2));
+        break;
+      }
+      const { user, ...summary } = result;
+      console.log(JSON.stringify({
+        ...summary,
+        rev: user.rev,
+        decks: user.decks.length,
+        balance: user.wallet.balance,
+        transactions: user.wallet.transactions.length,
+        progressEntries: Object.keys(user.progress).length,
+        written: !!opts.write,
+      }, null, 2));
+      break;
+    }
+  }
+}
+
+main().catch((err) => {
+  console.error("Journal command failed:", err?.message || err);
+  process.exit(1);
+});
@@ -0,0 +1,77 @@
+#!/usr/bin/env tsx
+import "dotenv/config";
+
+import { collectMediaGarbage } from "../src/lib/store";
+
+interface CliOptions {
+  dryRun: boolean;
+  userId?: string;
+  json: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const opts: CliOptions = { dryRun: false, json: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case "--dry-run":
+        opts.dryRun = true;
+        break;
+      case "--user":
+        opts.userId = argv[++i];
+        if (!opts.userId) {
+          console.error("--user requires a userId");
+          process.exit(1);
+        }
+        break;
+      case "--json":
+        opts.json = true;
+        break;
+      case "--help":
+      case "-h":
+        printHelp();
+        process.exit(0);
+      default:
+        console.error(`Unexpected argument: ${arg}`);
+        printHelp();
+        process.exit(1);
+    }
+  }
+
+  return opts;
+}
+
+function printHelp() {
+  console.log(`Usage: npm run media-gc -- [--dry-run] [--user <userId>] [--json]
+
+Deletes uploaded card media (data/media/<userId>/) that no deck and no kept deck revision
+references anymore. Uploads newer than MEDIA_GC_GRACE_MIN (default 24h) are kept, and
+files left behind by interrupted uploads are removed as well.
+
+  --dry-run        only report what would be deleted
+  --user <userId>  only this user
+  --json           print the full report as JSON
+`);
+}
+
+const kb = (bytes: number) => `${(bytes / 1024).toFixed(1)} KiB`;
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  const report = await collectMediaGarbage({ dryRun: opts.dryRun, userId: opts.userId });
+
+  if (opts.json) {
+    console.log(JSON.stringify({ dryRun: opts.dryRun, ...report }, null, 2));
+    return;
+  }
+  console.log(`Users scanned: ${report.users}`);
+  console.log(`${opts.dryRun ? "Would delete" : "Deleted"}: ${report.removed.length} (${kb(report.freedBytes)})`);
+  for (const r of report.removed) console.log(`  ${r.userId}/${r.id} (${kb(r.size)})`);
+  if (report.orphanBlobs) console.log(`Orphan files ${opts.dryRun ? "found" : "removed"}: ${report.orphanBlobs}`);
+}
+
+main().catch((err) => {
+  console.error("Media GC failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,80 @@
+#!/usr/bin/env tsx
+import "dotenv/config";
+
+import { migrateDeckTopics } from "../src/lib/topics";
+
+interface CliOptions {
+  dryRun: boolean;
+  addMissing: boolean;
+  json: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const opts: CliOptions = { dryRun: false, addMissing: false, json: false };
+
+  for (const arg of argv) {
+    switch (arg) {
+      case "--dry-run":
+        opts.dryRun = true;
+        break;
+      case "--add-missing":
+        opts.addMissing = true;
+        break;
+      case "--json":
+        opts.json = true;
+        break;
+      case "--help":
+      case "-h":
+        printHelp();
+        process.exit(0);
+      default:
+        console.error(`Unexpected argument: ${arg}`);
+        printHelp();
+        process.exit(1);
+    }
+  }
+
+  return opts;
+}
+
+function printHelp() {
+  console.log(`Usage: npm run migrate-topics -- [--dry-run] [--add-missing] [--json]
+
+Maps the topic of every deck onto the topic registry (data/topics.json): aliases and
+different spellings ("it", "Informática") are rewritten to the canonical names.
+Decks whose topic is not in the registry are left untouched and listed (exit code 2).
+
+  --dry-run       only report what would change
+  --add-missing   add unknown topics to the registry as written instead of listing them
+  --json          print the full report as JSON
+`);
+}
+
+const fmt = (t: { theme: string; subtheme?: string; subsubtheme?: string }) =>
+  [t.theme, t.subtheme, t.subsubtheme].filter(Boolean).join(" > ");
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  const report = await migrateDeckTopics({ dryRun: opts.dryRun, addMissing: opts.addMissing });
+
+  if (opts.json) {
+    console.log(JSON.stringify({ dryRun: opts.dryRun, ...report }, null, 2));
+  } else {
+    console.log(`Decks scanned: ${report.decks}`);
+    console.log(`${opts.dryRun ? "Would remap" : "Remapped"}: ${report.remapped.length}`);
+    for (const r of report.remapped) console.log(`  ${r.userId}/${r.deckId}: ${fmt(r.from)} -> ${fmt(r.to)}`);
+    if (report.added.length) {
+      console.log(`Added to the registry: ${report.added.length}`);
+      for (const path of report.added) console.log(`  ${path}`);
+    }
+    console.log(`Unmapped: ${report.unmapped.length}`);
+    for (const u of report.unmapped) console.log(`  ${u.userId}/${u.deckId}: ${fmt(u.topic)} (unknown ${u.level})`);
+  }
+
+  if (report.unmapped.length > 0) process.exit(2);
+}
+
+main().catch((err) => {
+  console.error("Topic migration failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,75 @@
+#!/usr/bin/env tsx
+import "dotenv/config";
+
+import { migrateAllUsers } from "../src/lib/store";
+import { CURRENT_SCHEMA_VERSION, USER_MIGRATIONS } from "../src/lib/migrations";
+
+interface CliOptions {
+  dryRun: boolean;
+  json: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const opts: CliOptions = { dryRun: false, json: false };
+
+  for (const arg of argv) {
+    switch (arg) {
+      case "--dry-run":
+        opts.dryRun = true;
+        break;
+      case "--json":
+        opts.json = true;
+        break;
+      case "--help":
+      case "-h":
+        printHelp();
+        process.exit(0);
+      default:
+        console.error(`Unexpected argument: ${arg}`);
+        printHelp();
+        process.exit(1);
+    }
+  }
+
+  return opts;
+}
+
+function printHelp() {
+  console.log(`Usage: npm run migrate-users -- [--dry-run] [--json]
+
+Upgrades every data/users/<id>.json to schemaVersion ${CURRENT_SCHEMA_VERSION} and validates the result.
+Files that cannot be repaired are left untouched and listed in the report (exit code 2).
+
+  --dry-run   only report what would change
+  --json      print the full report as JSON
+`);
+}
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  const report = await migrateAllUsers({ dryRun: opts.dryRun });
+
+  if (opts.json) {
+    console.log(JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, dryRun: opts.dryRun, ...report }, null, 2));
+  } else {
+    console.log(`Schema v${CURRENT_SCHEMA_VERSION} — migrations:`);
+    for (const m of USER_MIGRATIONS) console.log(`  v${m.version}: ${m.description}`);
+    console.log("");
+    console.log(`Users scanned: ${report.total}`);
+    console.log(`Already current: ${report.current.length}`);
+    console.log(`${opts.dryRun ? "Would upgrade" : "Upgraded"}: ${report.upgraded.length}`);
+    for (const u of report.upgraded) console.log(`  ${u.userId} (from v${u.from})`);
+    console.log(`Failed: ${report.failed.length}`);
+    for (const f of report.failed) {
+      console.log(`  ${f.userId}`);
+      for (const issue of f.issues) console.log(`    - ${issue}`);
+    }
+  }
+
+  if (report.failed.length > 0) process.exit(2);
+}
+
+main().catch((err) => {
+  console.error("Migration failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,83 @@
+#!/usr/bin/env tsx
+import "dotenv/config";
+
+import { reconcileAccounts, hasDrift } from "../src/lib/reconcile";
+import type { DriftReport } from "../src/lib/reconcile";
+
+interface CliOptions {
+  fix: boolean;
+  json: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const opts: CliOptions = { fix: false, json: false };
+
+  for (const arg of argv) {
+    switch (arg) {
+      case "--fix":
+        opts.fix = true;
+        break;
+      case "--json":
+        opts.json = true;
+        break;
+      case "--help":
+      case "-h":
+        printHelp();
+        process.exit(0);
+      default:
+        console.error(`Unexpected argument: ${arg}`);
+        printHelp();
+        process.exit(1);
+    }
+  }
+
+  return opts;
+}
+
+function printHelp() {
+  console.log(`Usage: npm run reconcile-accounts -- [--fix] [--json]
+
+Compares data/accounts.json (source of truth for email/password credentials) with data/users/*.json
+and reports drift: orphan accounts, users whose legacy credentials have no account, verified flags
+out of sync and username mismatches. Without --fix nothing is written (exit code 2 if drift is found).
+`);
+}
+
+function printSection(title: string, rows: unknown[]) {
+  console.log(`${title}: ${rows.length}`);
+  for (const r of rows) console.log(`  ${typeof r === "string" ? r : JSON.stringify(r)}`);
+}
+
+function printReport(r: DriftReport) {
+  printSection("Orphan accounts (no user.json)", r.orphanAccounts);
+  printSection("Users with legacy credentials but no account", r.missingAccounts);
+  printSection("Verified flag out of sync", r.verifiedMismatch);
+  printSection("Username mismatch", r.usernameMismatch);
+  printSection("Legacy email differs from account (account kept)", r.emailMismatch);
+  printSection("Conflicts (not fixed)", r.conflicts);
+  printSection("Legacy credentials with no account (kept)", r.unreconciled);
+  printSection("Users with legacy credential copies", r.legacyCleared);
+  printSection("Unreadable user files", r.unreadableUsers);
+  console.log(`Device-only users (no account, informative): ${r.usersWithoutAccount.length}`);
+}
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  const report = await reconcileAccounts({ fix: opts.fix });
+
+  if (opts.json) console.log(JSON.stringify(report, null, 2));
+  else printReport(report);
+
+  if (opts.fix) {
+    if (!opts.json) console.log(hasDrift(report) ? "Drift fixed." : "Nothing to fix.");
+    if (report.conflicts.length > 0 || report.unreconciled.length > 0) process.exit(2);
+  } else if (hasDrift(report)) {
+    if (!opts.json) console.log("Run again with --fix to apply.");
+    process.exit(2);
+  }
+}
+
+main().catch((err) => {
+  console.error("Reconcile failed:", err);
+  process.exit(1);
+});
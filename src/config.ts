@@ -1,4 +1,5 @@
 // src/config.ts
+import path from "path";
 import { z } from "zod";
 
 /* ------- Helpers ------- */
@@ -44,6 +45,26 @@ const EnvSchema = z.object({
   RESET_TTL_SEC: z.coerce.number().int().positive().default(1800),   // 30m
   BCRYPT_COST: z.coerce.number().int().min(4).max(15).default(10),
 
+  STORAGE_DRIVER: z.enum(["json", "memory"]).default("json"),
+  DATA_DIR: z.string().optional(),
+
+  BACKUP_DIR: z.string().optional(),
+  BACKUP_INTERVAL_MIN: z.coerce.number().int().min(0).default(0), // 0 = sem agendamento
+  BACKUP_KEEP: z.coerce.number().int().min(1).default(14),
+
+  JOURNAL_ENABLED: z.string().optional(),                              // default: ligado com STORAGE_DRIVER=json
+  JOURNAL_DIR: z.string().optional(),
+  JOURNAL_MAX_BYTES: z.coerce.number().int().min(1024).default(10 * 1024 * 1024),
+  JOURNAL_KEEP: z.coerce.number().int().min(1).default(20),
+
+  DECK_REVISIONS_KEEP: z.coerce.number().int().min(1).default(20),
+
+  MEDIA_MAX_BYTES: z.coerce.number().int().min(1024).default(5 * 1024 * 1024),     // por ficheiro
+  MEDIA_QUOTA_BYTES: z.coerce.number().int().min(1024).default(100 * 1024 * 1024), // por utilizador
+  MEDIA_GC_GRACE_MIN: z.coerce.number().int().min(0).default(24 * 60),             // uploads ainda por usar
+
+  ADMIN_USER_IDS: z.string().optional(),
+
   LOG_LEVEL: z.enum(["fatal","error","warn","info","debug","trace","silent"]).default("debug"),
 });
 
@@ -87,6 +108,38 @@ const config = {
     bcryptCost: env.BCRYPT_COST,
   },
 
+  storage: {
+    driver: env.STORAGE_DRIVER,
+    dataDir: path.resolve(emptyToUndefined(env.DATA_DIR) ?? path.join(process.cwd(), "data")),
+  },
+
+  backup: {
+    dir: path.resolve(emptyToUndefined(env.BACKUP_DIR) ?? path.join(process.cwd(), "backups")),
+    intervalMin: env.BACKUP_INTERVAL_MIN,
+    keep: env.BACKUP_KEEP,
+  },
+
+  journal: {
+    enabled: toBool(env.JOURNAL_ENABLED, env.STORAGE_DRIVER === "json"),
+    dir: path.resolve(emptyToUndefined(env.JOURNAL_DIR) ?? path.join(process.cwd(), "journal")),
+    maxBytes: env.JOURNAL_MAX_BYTES,
+    keep: env.JOURNAL_KEEP,
+  },
+
+  decks: {
+    revisionsKeep: env.DECK_REVISIONS_KEEP,
+  },
+
+  media: {
+    maxBytes: env.MEDIA_MAX_BYTES,
+    quotaBytes: env.MEDIA_QUOTA_BYTES,
+    gcGraceMin: env.MEDIA_GC_GRACE_MIN,
+  },
+
+  admin: {
+    userIds: splitCsv(env.ADMIN_USER_IDS, []),
+  },
+
   log: {
     level: env.LOG_LEVEL,
   },
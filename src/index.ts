@@ -7,7 +7,6 @@ import cors from "cors";
 import helmet from "helmet";
 import compression from "compression";
 import pinoHttp from "pino-http";
-import fs from "fs";
 import path from "path";
 
 import config from "./config";
@@ -16,20 +15,19 @@ import { authRouter } from "./routes/auth";
 import { decksRouter } from "./routes/decks";
 import { soloRouter } from "./routes/solo";
 import { battlesRouter } from "./routes/battles";
+import { adminRouter } from "./routes/admin";
+import { topicsRouter } from "./routes/topics";
+import { mediaRouter } from "./routes/media";
 import { battleHub } from "./services/battleHub";
+import { rebuildIndex, listUserIds } from "./lib/store";
+import { getStorage } from "./lib/storage";
+import { startBackupSchedule, stopBackupSchedule } from "./lib/backup";
 import { attachBattleSockets } from "./sockets/battles";
 
 const PORT = config.port;
-const DATA_DIR = path.join(process.cwd(), "data");
-const USERS_DIR = path.join(DATA_DIR, "users");
 
-/* ---------- FS bootstrap ---------- */
-function ensureDirs() {
-  for (const dir of [DATA_DIR, USERS_DIR]) {
-    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
-  }
-}
-ensureDirs();
+/* ---------- Storage bootstrap ---------- */
+const storage = getStorage(); // json (data/) ou memory, conforme STORAGE_DRIVER
 
 /* ---------- App ---------- */
 const app = express();
@@ -80,15 +78,16 @@ app.use(express.static(path.join(process.cwd(), "public")));
 app.get("/favicon.ico", (_req, res) => res.status(204).end());
 
 // Healthcheck
-app.get("/health", (_req, res) => {
+app.get("/health", async (_req, res) => {
   let usersCount = 0;
   try {
-    usersCount = fs.readdirSync(USERS_DIR).filter((f) => f.endsWith(".json")).length;
+    usersCount = (await listUserIds()).length;
   } catch { /* ignore */ }
   res.json({
     ok: true,
     ts: new Date().toISOString(),
     usersCount,
+    storage: storage.driver,
     env: { node: process.version, port: PORT, mode: config.env },
   });
 });
@@ -102,6 +101,9 @@ app.use("/auth", authRouter);
 app.use("/decks", decksRouter);
 app.use("/solo", soloRouter);
 app.use("/battles", battlesRouter);
+app.use("/topics", topicsRouter);
+app.use("/media", mediaRouter);
+app.use("/admin", adminRouter);
 
 /* ---------- 404 & error handlers ---------- */
 app.use((req, res) => {
@@ -148,6 +150,10 @@ io.on("connection", (socket) => {
 });
 
 /* ---------- Arranque ---------- */
+// índices username/email/decks construídos uma vez; depois mantidos a cada escrita
+await rebuildIndex();
+startBackupSchedule(); // BACKUP_INTERVAL_MIN=0 desliga
+
 server.listen(PORT, () => {
   console.log(`MindZapp server on http://localhost:${PORT}`);
 });
@@ -155,6 +161,7 @@ server.listen(PORT, () => {
 /* ---------- Shutdown elegante ---------- */
 const shutdown = (signal: NodeJS.Signals) => {
   console.log(`[shutdown] received ${signal}, closing...`);
+  stopBackupSchedule();
   io.close(() => console.log("[shutdown] socket.io closed"));
   server.close((err) => {
     if (err) {
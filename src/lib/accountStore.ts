@@ -1,13 +1,16 @@
 // src/lib/accountStore.ts
-import fs from "fs/promises";
-import fssync from "fs";
-import path from "path";
-import { nanoid } from "nanoid";
+import { getStorage, gatedWrite } from "./storage";
+import { publishStoreEvent } from "./events";
 
-const DATA_DIR = path.join(process.cwd(), "data");
-const ACC_FILE = path.join(DATA_DIR, "accounts.json");
+/* accounts.json vive na raiz do data dir (coleção "") */
+const ACC_COLLECTION = "";
+const ACC_ID = "accounts";
 
 /* ---------- Tipos ---------- */
+/**
+ * Fonte única das credenciais email/password (email, hash, verificação, tokens de reset).
+ * O `UserFile` só guarda deviceSecrets; ligação pelo `userId`.
+ */
 export interface AccountEntry {
   userId: string;
   email: string;
@@ -30,25 +33,16 @@ interface AccountsDB {
 }
 
 /* ---------- Bootstrap ---------- */
-function ensureFile() {
-  if (!fssync.existsSync(DATA_DIR)) fssync.mkdirSync(DATA_DIR, { recursive: true });
-  if (!fssync.existsSync(ACC_FILE)) {
-    const init: AccountsDB = { version: 1, accounts: [] };
-    fssync.writeFileSync(ACC_FILE, JSON.stringify(init, null, 2), "utf8");
-  }
-}
-
-async function writeJSONAtomic(filePath: string, data: unknown) {
-  const tmp = `${filePath}.tmp-${nanoid(6)}`;
-  await fs.writeFile(tmp, JSON.stringify(data, null, 2), "utf8");
-  await fs.rename(tmp, filePath);
+function emptyDB(): AccountsDB {
+  return { version: 1, accounts: [] };
 }
 
 async function load(): Promise<AccountsDB> {
-  ensureFile();
-  let raw = "";
+  const storage = getStorage();
+  let raw: string | null = null;
   try {
-    raw = await fs.readFile(ACC_FILE, "utf8");
+    raw = await storage.readDoc(ACC_COLLECTION, ACC_ID);
+    if (raw === null) return emptyDB();
     const db = JSON.parse(raw) as AccountsDB;
     if (!db || typeof db !== "object" || !Array.isArray(db.accounts)) {
       throw new Error("Invalid DB shape");
@@ -56,20 +50,29 @@ async function load(): Promise<AccountsDB> {
     return db;
   } catch {
     try {
-      const backup = `${ACC_FILE}.corrupt-${Date.now()}`;
-      if (raw.trim() !== "") await fs.rename(ACC_FILE, backup);
+      if (raw !== null && raw.trim() !== "") await storage.quarantineDoc(ACC_COLLECTION, ACC_ID);
     } catch {}
-    const init: AccountsDB = { version: 1, accounts: [] };
-    await writeJSONAtomic(ACC_FILE, init);
+    const init = emptyDB();
+    await save(init);
     return init;
   }
 }
 
 async function save(db: AccountsDB) {
-  await writeJSONAtomic(ACC_FILE, db);
+  await gatedWrite(() => getStorage().writeDoc(ACC_COLLECTION, ACC_ID, JSON.stringify(db, null, 2)));
 }
 
 /* ---------- Queries ---------- */
+export async function listAccounts(): Promise<AccountEntry[]> {
+  const db = await load();
+  return db.accounts;
+}
+
+export async function findByUserId(userId: string): Promise<AccountEntry | undefined> {
+  const db = await load();
+  return db.accounts.find(a => a.userId === userId);
+}
+
 export async function findByEmail(email: string): Promise<AccountEntry | undefined> {
   const db = await load();
   const key = email.trim().toLowerCase();
@@ -107,23 +110,57 @@ export async function findValidResetToken(token: string): Promise<AccountEntry |
 }
 
 /* ---------- Mutations ---------- */
-export async function insertAccount(a: AccountEntry) {
-  const db = await load();
+/**
+ * Escritas em série: cada load-modify-save corre depois do anterior acabar (como o `withUserLock`
+ * da store), para que dois registos ou mudanças de password ao mesmo tempo não se sobreponham.
+ */
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function withAccountsLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = writeQueue.then(fn, fn);
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+/** Email ou username já usados por outra conta (comparação sem maiúsculas). */
+function conflicts(db: AccountsDB, a: AccountEntry) {
   const emailKey = a.emailLower.trim().toLowerCase();
   const userKey = a.usernameLower.trim().toLowerCase();
-  if (db.accounts.some(x => x.emailLower === emailKey || x.usernameLower === userKey)) {
-    throw new Error("ACCOUNT_CONFLICT");
-  }
-  db.accounts.push(a);
-  await save(db);
+  return db.accounts.some(x => x.userId !== a.userId && (x.emailLower === emailKey || x.usernameLower === userKey));
+}
+
+export async function insertAccount(a: AccountEntry) {
+  return withAccountsLock(async () => {
+    const db = await load();
+    if (conflicts(db, a) || db.accounts.some(x => x.userId === a.userId)) throw new Error("ACCOUNT_CONFLICT");
+    db.accounts.push(a);
+    await save(db);
+    publishStoreEvent(a.userId, { type: "account.changed", action: "created" });
+  });
 }
 
 export async function updateAccount(a: AccountEntry) {
-  const db = await load();
-  const i = db.accounts.findIndex(x => x.userId === a.userId);
-  if (i < 0) throw new Error("ACCOUNT_NOT_FOUND");
-  db.accounts[i] = a;
-  await save(db);
+  return withAccountsLock(async () => {
+    const db = await load();
+    const i = db.accounts.findIndex(x => x.userId === a.userId);
+    if (i < 0) throw new Error("ACCOUNT_NOT_FOUND");
+    if (conflicts(db, a)) throw new Error("ACCOUNT_CONFLICT");
+    db.accounts[i] = a;
+    await save(db);
+    publishStoreEvent(a.userId, { type: "account.changed", action: "updated" });
+  });
+}
+
+export async function deleteAccount(userId: string): Promise<boolean> {
+  return withAccountsLock(async () => {
+    const db = await load();
+    const before = db.accounts.length;
+    db.accounts = db.accounts.filter(x => x.userId !== userId);
+    if (db.accounts.length === before) return false;
+    await save(db);
+    publishStoreEvent(userId, { type: "account.changed", action: "deleted" });
+    return true;
+  });
 }
 
 /* ---------- Helpers para emitir tokens com TTL ---------- */
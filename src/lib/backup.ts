@@ -0,0 +1,466 @@
+// src/lib/backup.ts
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import { promisify } from "util";
+import zlib from "zlib";
+
+import config from "../config";
+import { getStorage, withWritesPaused } from "./storage";
+import { rebuildIndex } from "./store";
+import type { UserFile } from "./store";
+import { publishStoreEvent, redactUser } from "./events";
+import { MEDIA_ID_RE } from "./media";
+import { CURRENT_SCHEMA_VERSION, migrateUserDoc, UserMigrationError } from "./migrations";
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+const USERS = "users";
+const ACC_COLLECTION = "";
+const ACC_ID = "accounts";
+const TOPICS_ID = "topics";                                     // topics.json, ao lado do accounts.json
+const mediaCollection = (userId: string) => `media/${userId}`;  // blobs: o nome é o sha256 do conteúdo
+
+const SNAPSHOT_RE = /^mindzapp-\d{8}T\d{9}Z(?:-[a-z0-9_-]{1,32})?\.json\.gz$/;
+const MEDIA_DIR = "media";                                      // BACKUP_DIR/media/<sha256>, partilhado entre snapshots
+
+/* ---------- Tipos ---------- */
+/**
+ * Conteúdo de um snapshot (depois de gunzip). A versão 1 só tinha users + accounts: ao restaurá-la,
+ * o registo de tópicos e os ficheiros de media atuais ficam como estão. A versão 2 trazia a media em
+ * base64 no próprio JSON; a 3 guarda só os ids e o conteúdo fica em `BACKUP_DIR/media/<sha256>`.
+ */
+interface SnapshotFile {
+  format: "mindzapp-backup";
+  version: 1 | 2 | 3;
+  createdAt: string;               // ISO
+  label?: string;
+  storage: string;                 // driver de origem
+  schemaVersion: number;           // versão dos UserFile na altura
+  checksum: string;                // sha256 de JSON.stringify(data)
+  data: {
+    users: Record<string, unknown>;
+    accounts: unknown | null;
+    topics?: unknown | null;                             // topics.json (v2)
+    media?: Record<string, string[] | Record<string, string>>; // userId -> mediaIds (v3) | mediaId -> base64 (v2)
+  };
+}
+
+export interface SnapshotInfo {
+  id: string;                      // nome do ficheiro
+  createdAt: string;
+  size: number;                    // bytes (comprimido)
+}
+
+export interface VerifyResult {
+  id: string;
+  ok: boolean;
+  createdAt?: string;
+  label?: string;
+  users: number;
+  accounts: number;
+  topics: boolean;                 // o snapshot traz topics.json
+  media: number;                   // nº de ficheiros de media
+  invalidUsers: Array<{ userId: string; issues: string[] }>;
+  errors: string[];
+}
+
+/* ---------- Helpers ---------- */
+function checksum(data: SnapshotFile["data"]) {
+  return crypto.createHash("sha256").update(JSON.stringify(data)).digest("hex");
+}
+
+function stamp(d: Date) {
+  // 2025-01-05T13:30:00.123Z -> 20250105T133000123Z (ordena lexicograficamente)
+  return d.toISOString().replace(/[-:.]/g, "");
+}
+
+function snapshotPath(id: string) {
+  if (!SNAPSHOT_RE.test(id)) throw new Error("INVALID_SNAPSHOT_ID");
+  return path.join(config.backup.dir, id);
+}
+
+function blobPath(name: string) {
+  return path.join(config.backup.dir, MEDIA_DIR, name);
+}
+
+let backupQueue: Promise<unknown> = Promise.resolve();
+
+/** Serializa criação e limpeza: a limpeza da media não pode correr a meio de um snapshot. */
+function withBackupLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = backupQueue.then(fn, fn);
+  backupQueue = run.catch(() => undefined);
+  return run;
+}
+
+async function readSnapshot(id: string): Promise<SnapshotFile> {
+  let buf: Buffer;
+  try {
+    buf = await fs.readFile(snapshotPath(id));
+  } catch (e: any) {
+    if (e?.code === "ENOENT") throw new Error("SNAPSHOT_NOT_FOUND");
+    throw e;
+  }
+  return JSON.parse((await gunzip(buf)).toString("utf8")) as SnapshotFile;
+}
+
+/** Novo estado de um user restaurado, como evento (base para replays do journal). */
+function publishRestored(userId: string, doc: unknown, reason: string) {
+  try {
+    const { user } = migrateUserDoc(doc, userId);
+    publishStoreEvent(userId, { type: "user.snapshot", user: redactUser(user), reason }, user.rev);
+  } catch {
+    // documento não reparável: o verify já o reportou; não há estado útil para o journal
+  }
+}
+
+function parseDoc(raw: string | null) {
+  return raw === null ? null : JSON.parse(raw);
+}
+
+/** Ids de media por utilizador (undefined nos snapshots v1). */
+function snapshotMedia(file: SnapshotFile): Record<string, string[]> | undefined {
+  const media = file.data.media;
+  if (!media) return undefined;
+  return Object.fromEntries(Object.entries(media).map(([userId, m]) => [userId, Array.isArray(m) ? m : Object.keys(m)]));
+}
+
+/** Conteúdo de um ficheiro de media do snapshot (null se faltar). */
+async function readSnapshotBlob(file: SnapshotFile, userId: string, name: string): Promise<Buffer | null> {
+  const inline = file.data.media?.[userId];
+  if (inline && !Array.isArray(inline)) return name in inline ? Buffer.from(inline[name], "base64") : null;
+  if (!MEDIA_ID_RE.test(name)) return null;
+  try {
+    return await fs.readFile(blobPath(name));
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return null;
+    throw e;
+  }
+}
+
+/** Copia um blob para `BACKUP_DIR/media` (se ainda lá não estiver); false se já não existir no storage. */
+async function backupBlob(userId: string, name: string): Promise<boolean> {
+  const target = blobPath(name);
+  try {
+    await fs.access(target);
+    return true;
+  } catch {
+    // ainda não copiado
+  }
+  const blob = await getStorage().readBlob(mediaCollection(userId), name);
+  if (!blob) return false;
+  await fs.writeFile(`${target}.tmp`, blob);
+  await fs.rename(`${target}.tmp`, target);
+  return true;
+}
+
+/** Repõe os blobs de media de um utilizador; com `exact` apaga os que não estão no snapshot. */
+async function restoreMedia(file: SnapshotFile, userId: string, names: string[], exact: boolean) {
+  const storage = getStorage();
+  if (exact) {
+    const keep = new Set(names);
+    for (const name of await storage.listBlobs(mediaCollection(userId))) {
+      if (!keep.has(name)) await storage.deleteBlob(mediaCollection(userId), name);
+    }
+  }
+  for (const name of names) {
+    const blob = await readSnapshotBlob(file, userId, name);
+    if (blob) await storage.writeBlob(mediaCollection(userId), name, blob);
+  }
+}
+
+/* ---------- API ---------- */
+/**
+ * Cria um snapshot comprimido de users + accounts + topics.json, com a lista de media de cada user.
+ * Os ficheiros de media são copiados um a um para `BACKUP_DIR/media` (pelo sha256, por isso cada um
+ * só é copiado uma vez). As escritas ficam suspensas durante a leitura, por isso o snapshot é
+ * consistente entre ficheiros.
+ */
+export async function createSnapshot(opts: { label?: string } = {}): Promise<SnapshotInfo> {
+  return withBackupLock(() => writeSnapshot(opts));
+}
+
+async function writeSnapshot(opts: { label?: string }): Promise<SnapshotInfo> {
+  const label = opts.label?.toLowerCase().replace(/[^a-z0-9_-]/g, "").slice(0, 32) || undefined;
+  const now = new Date();
+  await fs.mkdir(path.join(config.backup.dir, MEDIA_DIR), { recursive: true });
+
+  const data = await withWritesPaused(async () => {
+    const storage = getStorage();
+    const users: Record<string, unknown> = {};
+    for (const userId of await storage.listDocs(USERS)) {
+      const raw = await storage.readDoc(USERS, userId);
+      if (raw === null) continue;
+      try {
+        users[userId] = JSON.parse(raw);
+      } catch {
+        users[userId] = { __unparseable: raw }; // guarda mesmo assim; o verify reporta
+      }
+    }
+    const accounts = parseDoc(await storage.readDoc(ACC_COLLECTION, ACC_ID));
+    const topics = parseDoc(await storage.readDoc(ACC_COLLECTION, TOPICS_ID));
+    const media: Record<string, string[]> = {};
+    for (const userId of Object.keys(users)) {
+      for (const name of await storage.listBlobs(mediaCollection(userId))) {
+        if (MEDIA_ID_RE.test(name) && (await backupBlob(userId, name))) (media[userId] ??= []).push(name);
+      }
+    }
+    return { users, accounts, topics, media };
+  });
+
+  const file: SnapshotFile = {
+    format: "mindzapp-backup",
+    version: 3,
+    createdAt: now.toISOString(),
+    label,
+    storage: getStorage().driver,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    checksum: checksum(data),
+    data,
+  };
+
+  const id = `mindzapp-${stamp(now)}${label ? `-${label}` : ""}.json.gz`;
+  const target = snapshotPath(id);
+  const tmp = `${target}.tmp`;
+  const gz = await gzip(Buffer.from(JSON.stringify(file), "utf8"));
+  await fs.writeFile(tmp, gz);
+  await fs.rename(tmp, target);
+
+  await pruneUnlocked(config.backup.keep);
+  return { id, createdAt: file.createdAt, size: gz.length };
+}
+
+/** Snapshots existentes, do mais recente para o mais antigo. */
+export async function listSnapshots(): Promise<SnapshotInfo[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(config.backup.dir);
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return [];
+    throw e;
+  }
+  const out: SnapshotInfo[] = [];
+  for (const f of files) {
+    if (!SNAPSHOT_RE.test(f)) continue;
+    const st = await fs.stat(path.join(config.backup.dir, f));
+    const m = f.match(/^mindzapp-(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(\d{3})Z/)!;
+    out.push({ id: f, createdAt: `${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}.${m[7]}Z`, size: st.size });
+  }
+  return out.sort((a, b) => (a.id < b.id ? 1 : -1));
+}
+
+/** Mantém apenas os `config.backup.keep` snapshots mais recentes (e a media que eles usam). */
+export async function pruneSnapshots(keep = config.backup.keep): Promise<string[]> {
+  return withBackupLock(() => pruneUnlocked(keep));
+}
+
+async function pruneUnlocked(keep: number): Promise<string[]> {
+  const all = await listSnapshots();
+  const removed: string[] = [];
+  for (const s of all.slice(keep)) {
+    await fs.unlink(snapshotPath(s.id)).catch(() => undefined);
+    removed.push(s.id);
+  }
+  await pruneMedia(all.slice(0, keep).map((s) => s.id));
+  return removed;
+}
+
+/** Apaga de `BACKUP_DIR/media` o que nenhum dos snapshots restantes referencia. */
+async function pruneMedia(ids: string[]) {
+  const used = new Set<string>();
+  for (const id of ids) {
+    try {
+      for (const names of Object.values(snapshotMedia(await readSnapshot(id)) ?? {})) names.forEach((n) => used.add(n));
+    } catch {
+      return; // snapshot ilegível: na dúvida não se apaga nada
+    }
+  }
+  let files: string[];
+  try {
+    files = await fs.readdir(path.join(config.backup.dir, MEDIA_DIR));
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return;
+    throw e;
+  }
+  for (const name of files) {
+    if (!used.has(name)) await fs.unlink(blobPath(name)).catch(() => undefined);
+  }
+}
+
+/**
+ * Confirma que o snapshot descomprime, tem checksum válido, documentos reparáveis e que cada ficheiro
+ * de media corresponde ao seu sha256.
+ */
+export async function verifySnapshot(id: string): Promise<VerifyResult> {
+  const result: VerifyResult = { id, ok: false, users: 0, accounts: 0, topics: false, media: 0, invalidUsers: [], errors: [] };
+  let file: SnapshotFile;
+  try {
+    file = await readSnapshot(id);
+  } catch (e: any) {
+    if (e?.message === "SNAPSHOT_NOT_FOUND" || e?.message === "INVALID_SNAPSHOT_ID") throw e;
+    result.errors.push(`unreadable: ${e?.message || e}`);
+    return result;
+  }
+
+  result.createdAt = file.createdAt;
+  result.label = file.label;
+  if (file.format !== "mindzapp-backup" || ![1, 2, 3].includes(file.version) || !file.data) {
+    result.errors.push("unknown snapshot format");
+    return result;
+  }
+  if (checksum(file.data) !== file.checksum) result.errors.push("checksum mismatch");
+
+  const users = file.data.users ?? {};
+  result.users = Object.keys(users).length;
+  for (const [userId, doc] of Object.entries(users)) {
+    try {
+      migrateUserDoc(doc, userId);
+    } catch (e: any) {
+      const issues = e instanceof UserMigrationError ? e.issues : [String(e?.message || e)];
+      result.invalidUsers.push({ userId, issues });
+    }
+  }
+
+  const accounts = file.data.accounts as { accounts?: unknown[] } | null;
+  if (accounts !== null && !Array.isArray(accounts?.accounts)) {
+    result.errors.push("accounts.json has invalid shape");
+  } else {
+    result.accounts = accounts?.accounts?.length ?? 0;
+  }
+
+  const topics = file.data.topics as { themes?: unknown[] } | null | undefined;
+  if (topics != null && !Array.isArray(topics.themes)) result.errors.push("topics.json has invalid shape");
+  result.topics = topics != null;
+
+  for (const [userId, names] of Object.entries(snapshotMedia(file) ?? {})) {
+    for (const name of names) {
+      result.media += 1;
+      const blob = await readSnapshotBlob(file, userId, name);
+      if (!blob) {
+        result.errors.push(`media ${userId}/${name} is missing`);
+        continue;
+      }
+      const hash = crypto.createHash("sha256").update(blob).digest("hex");
+      if (hash !== name) result.errors.push(`media ${userId}/${name} does not match its hash`);
+    }
+  }
+
+  result.ok = result.errors.length === 0;
+  return result;
+}
+
+/**
+ * Restaura um snapshot verificado.
+ * - sem `userId`: substitui todo o dataset (users + accounts + topics + media); antes grava um snapshot
+ *   "pre-restore";
+ * - com `userId`: repõe esse user.json (o `rev` avança para que cópias em memória antigas falhem) e os
+ *   seus ficheiros de media; os que entretanto apareceram ficam para o GC de media.
+ */
+export async function restoreSnapshot(
+  id: string,
+  opts: { userId?: string } = {}
+): Promise<{
+  restoredUsers: string[];
+  removedUsers: string[];
+  accounts: boolean;
+  topics: boolean;
+  media: number;
+  safetySnapshot?: string;
+}> {
+  const check = await verifySnapshot(id);
+  if (!check.ok) throw new Error("SNAPSHOT_INVALID");
+  const file = await readSnapshot(id);
+  const users = file.data.users;
+  const media = snapshotMedia(file);   // undefined nos snapshots v1: a media atual fica como está
+
+  if (opts.userId) {
+    const doc = users[opts.userId] as Record<string, unknown> | undefined;
+    if (!doc) throw new Error("USER_NOT_IN_SNAPSHOT");
+    const restored = await withWritesPaused(async () => {
+      const storage = getStorage();
+      const currentRaw = await storage.readDoc(USERS, opts.userId!);
+      const currentRev = currentRaw ? Number(JSON.parse(currentRaw)?.rev ?? 0) : 0;
+      const restored = { ...doc, rev: Math.max(currentRev, Number(doc.rev ?? 0)) + 1 };
+      await storage.writeDoc(USERS, opts.userId!, JSON.stringify(restored, null, 2));
+      await restoreMedia(file, opts.userId!, media?.[opts.userId!] ?? [], false);
+      return restored;
+    });
+    await rebuildIndex();
+    publishRestored(opts.userId, restored, `backup-restore:${id}`);
+    return {
+      restoredUsers: [opts.userId],
+      removedUsers: [],
+      accounts: false,
+      topics: false,
+      media: media?.[opts.userId]?.length ?? 0,
+    };
+  }
+
+  const safety = await createSnapshot({ label: "pre-restore" });
+  const removedUsers: string[] = [];
+  await withWritesPaused(async () => {
+    const storage = getStorage();
+    for (const userId of await storage.listDocs(USERS)) {
+      if (!(userId in users)) {
+        await storage.deleteDoc(USERS, userId);
+        if (media) await restoreMedia(file, userId, [], true);
+        removedUsers.push(userId);
+      }
+    }
+    for (const [userId, doc] of Object.entries(users)) {
+      await storage.writeDoc(USERS, userId, JSON.stringify(doc, null, 2));
+      if (media) await restoreMedia(file, userId, media[userId] ?? [], true);
+    }
+    if (file.data.accounts !== null) {
+      await storage.writeDoc(ACC_COLLECTION, ACC_ID, JSON.stringify(file.data.accounts, null, 2));
+    } else {
+      await storage.deleteDoc(ACC_COLLECTION, ACC_ID);
+    }
+    // sem topics.json no snapshot o registo volta à árvore por defeito na próxima leitura
+    if (file.data.topics !== undefined) {
+      if (file.data.topics !== null) {
+        await storage.writeDoc(ACC_COLLECTION, TOPICS_ID, JSON.stringify(file.data.topics, null, 2));
+      } else {
+        await storage.deleteDoc(ACC_COLLECTION, TOPICS_ID);
+      }
+    }
+  });
+  await rebuildIndex();
+  for (const [userId, doc] of Object.entries(users)) publishRestored(userId, doc, `backup-restore:${id}`);
+  return {
+    restoredUsers: Object.keys(users),
+    removedUsers,
+    accounts: file.data.accounts !== null,
+    topics: file.data.topics !== undefined,
+    media: Object.values(media ?? {}).reduce((n, names) => n + names.length, 0),
+    safetySnapshot: safety.id,
+  };
+}
+
+/** UserFile de um snapshot (migrado para a versão atual); base para `replayUser`. */
+export async function loadSnapshotUser(id: string, userId: string): Promise<UserFile> {
+  const file = await readSnapshot(id);
+  const doc = file.data?.users?.[userId];
+  if (!doc) throw new Error("USER_NOT_IN_SNAPSHOT");
+  return migrateUserDoc(doc, userId).user;
+}
+
+/* ---------- Agendamento ---------- */
+let timer: NodeJS.Timeout | null = null;
+
+/** Liga snapshots periódicos (BACKUP_INTERVAL_MIN); no-op se 0. */
+export function startBackupSchedule(intervalMin = config.backup.intervalMin) {
+  if (timer || intervalMin <= 0) return;
+  timer = setInterval(() => {
+    createSnapshot({ label: "auto" })
+      .then((s) => console.log(`[backup] snapshot ${s.id} (${s.size} bytes)`))
+      .catch((e) => console.error("[backup] scheduled snapshot failed:", e));
+  }, intervalMin * 60_000);
+  timer.unref?.();
+}
+
+export function stopBackupSchedule() {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
@@ -0,0 +1,234 @@
+// src/lib/cardData.ts
+import { z } from "zod";
+import type { CardType } from "./store";
+import { MEDIA_ID_RE } from "./media";
+import { sanitizeMarkdown } from "./markdown";
+
+/**
+ * Contrato de `Card.data_json` por tipo de card (o que os graders esperam).
+ * Usado pelas rotas de escrita (upsert, cards, import) para rejeitar dados que não se
+ * conseguem avaliar. O storage continua tolerante (`data_json: unknown`) para não
+ * bloquear a leitura de decks antigos.
+ * Enunciado, hint e textos mostrados (opções, pares, baldes) passam por `sanitizeMarkdown`:
+ * o que sai do parse já não tem HTML nem links perigosos.
+ */
+
+/** Markdown mostrado aos jogadores, sem HTML/links perigosos (vazio depois disso conta como vazio). */
+const Markdown = z.string().transform((s) => sanitizeMarkdown(s).text);
+const Label = Markdown.transform((s) => s.trim()).pipe(z.string().min(1));
+const Text = z.string().trim().min(1);
+
+/** Imagem/áudio: ids devolvidos por `POST /media` (têm de ser do dono do deck; ver store `checkCardMedia`). */
+const MediaId = z.string().regex(MEDIA_ID_RE, "expected a media id (sha256)");
+export const CardMediaSchema = z.object({
+  image: MediaId.optional(),
+  audio: MediaId.optional(),
+}).strict();
+
+/** MCQ antigo: `{ options: ["a", "b"], correct: [1] }` -> `{ options: [{ text, correct }] }` */
+function normalizeLegacyOptions(v: unknown): unknown {
+  if (!v || typeof v !== "object") return v;
+  const d = v as Record<string, unknown>;
+  if (!Array.isArray(d.options) || !d.options.every((o) => typeof o === "string")) return v;
+  const correct = new Set(([] as unknown[]).concat(d.correct ?? []).map(Number));
+  const { correct: _legacy, ...rest } = d;
+  return { ...rest, options: (d.options as string[]).map((text, i) => ({ text, correct: correct.has(i) })) };
+}
+
+const McqOption = z.object({
+  text: Label,
+  correct: z.boolean().default(false),
+  media: CardMediaSchema.optional(),
+});
+
+export const McqSingleData = z.preprocess(
+  normalizeLegacyOptions,
+  z.object({ options: z.array(McqOption).min(2) }).superRefine((d, ctx) => {
+    const n = d.options.filter((o) => o.correct).length;
+    if (n !== 1) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["options"], message: `exactly one option must be correct (got ${n})` });
+    }
+  })
+);
+
+export const McqMultiData = z.preprocess(
+  normalizeLegacyOptions,
+  z.object({ options: z.array(McqOption).min(2) }).superRefine((d, ctx) => {
+    if (!d.options.some((o) => o.correct)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["options"], message: "at least one option must be correct" });
+    }
+  })
+);
+
+/** V/F antigo: `{ answer: true }` -> `{ correct: true }` */
+function normalizeLegacyAnswer(v: unknown): unknown {
+  if (!v || typeof v !== "object") return v;
+  const d = v as Record<string, unknown>;
+  if (d.correct !== undefined || typeof d.answer !== "boolean") return v;
+  const { answer, ...rest } = d;
+  return { ...rest, correct: answer };
+}
+
+export const TrueFalseData = z.preprocess(
+  normalizeLegacyAnswer,
+  z.object({
+    correct: z.boolean(),
+  })
+);
+
+/** Pares esquerda→direita; o cliente baralha a coluna da direita. */
+export const MatchLinesData = z.object({
+  pairs: z.array(z.object({ left: Label, right: Label })).min(2),
+}).superRefine((d, ctx) => {
+  const seen = new Set<string>();
+  d.pairs.forEach((p, i) => {
+    if (seen.has(p.left)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["pairs", i, "left"], message: "duplicate left item" });
+    }
+    seen.add(p.left);
+  });
+});
+
+/** Itens a distribuir por baldes; `bucket` é o índice em `buckets`.
+ * Com `partialCredit` a pontuação é a fração de itens bem colocados (senão é tudo ou nada). */
+export const MatchBucketsData = z.object({
+  buckets: z.array(Label).min(2),
+  items: z.array(z.object({ text: Label, bucket: z.number().int().min(0) })).min(1),
+  partialCredit: z.boolean().optional(),
+}).superRefine((d, ctx) => {
+  d.items.forEach((it, i) => {
+    if (it.bucket >= d.buckets.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["items", i, "bucket"], message: `no bucket at index ${it.bucket}` });
+    }
+  });
+});
+
+/** Máximo de quantificadores sem limite (`*`, `+`, `{n,}`) num padrão: o custo cresce com n^k. */
+const MAX_UNBOUNDED_QUANTIFIERS = 3;
+
+/**
+ * Recusa padrões com backtracking catastrófico: backreferences, um grupo repetido que já tem dentro
+ * um quantificador ou uma alternativa (`(a+)+`, `(a|aa)*`) e quantificadores sem limite a mais.
+ * Conservador: `(ab|cd)+` também é recusado (escreve-se sem o grupo repetido).
+ */
+export function isSafePattern(p: string): boolean {
+  type Frame = { quant: boolean; alt: boolean };
+  const stack: Frame[] = [{ quant: false, alt: false }];
+  let last: "atom" | Frame | null = null; // o que um quantificador a seguir repete
+  let unbounded = 0;
+
+  for (let i = 0; i < p.length; i++) {
+    const ch = p[i];
+    const top = stack[stack.length - 1];
+    if (ch === "\\") {
+      const next = p[i + 1] ?? "";
+      if (/[1-9]/.test(next) || next === "k") return false;
+      i += 1;
+      if (/[pPu]/.test(next) && p[i + 1] === "{") i = p.indexOf("}", i);
+      last = "atom";
+    } else if (ch === "[") {
+      for (i++; i < p.length && p[i] !== "]"; i++) if (p[i] === "\\") i++;
+      last = "atom";
+    } else if (ch === "(") {
+      stack.push({ quant: false, alt: false });
+      if (p[i + 1] === "?") i += p[i + 2] === "<" && /[=!]/.test(p[i + 3] ?? "") ? 3 : p[i + 2] === "<" ? p.indexOf(">", i) - i : 2;
+      last = null;
+    } else if (ch === ")") {
+      const inner = stack.pop()!;
+      const parent = stack[stack.length - 1];
+      parent.quant ||= inner.quant;
+      parent.alt ||= inner.alt;
+      last = inner;
+    } else if (ch === "|") {
+      top.alt = true;
+      last = null;
+    } else if (ch === "*" || ch === "+" || ch === "?" || ch === "{") {
+      let max = ch === "?" ? 1 : Infinity;
+      if (ch === "{") {
+        const end = p.indexOf("}", i);
+        const m = /^\{(\d+)(,(\d*))?\}$/.exec(p.slice(i, end + 1));
+        max = !m ? Infinity : m[2] === undefined ? Number(m[1]) : m[3] ? Number(m[3]) : Infinity;
+        i = end;
+      }
+      if (p[i + 1] === "?") i++; // preguiçoso
+      if (last && last !== "atom" && (last.quant || last.alt) && max > 1) return false;
+      if (max === Infinity && ++unbounded > MAX_UNBOUNDED_QUANTIFIERS) return false;
+      top.quant = true;
+      last = null;
+    } else {
+      last = "atom";
+    }
+  }
+  return true;
+}
+
+/**
+ * Regex de uma resposta TEXT: tem de compilar, passar `isSafePattern` e é sempre comparada com a
+ * resposta inteira (corre no event loop em cada `/solo/answer`).
+ */
+const Pattern = z.string().min(1).max(200).refine((p) => {
+  try {
+    new RegExp(p, "u");
+    return true;
+  } catch {
+    return false;
+  }
+}, "invalid regular expression").refine(isSafePattern, "regular expression too complex (nested quantifiers or backreferences)");
+
+/**
+ * Resposta livre: certa se coincidir com alguma das `accepted` (espaços normalizados; maiúsculas e
+ * acentos ignorados salvo `caseSensitive`/`accentSensitive`), a até `maxTypos` edições de distância,
+ * ou com algum dos `patterns`. Tem de haver pelo menos uma resposta ou padrão.
+ */
+export const TextData = z.object({
+  accepted: z.array(Text).default([]),
+  caseSensitive: z.boolean().default(false),
+  accentSensitive: z.boolean().optional(),
+  maxTypos: z.number().int().min(0).max(3).optional(),
+  patterns: z.array(Pattern).max(10).optional(),
+}).superRefine((d, ctx) => {
+  if (!d.accepted.length && !d.patterns?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["accepted"], message: "at least one accepted answer or pattern is required" });
+  }
+});
+
+/** Tipos usados em battles; os restantes são só para estudo individual (solo only). */
+export const BATTLE_CARD_TYPES: ReadonlySet<CardType> = new Set<CardType>(["TRUE_FALSE", "MCQ_SINGLE", "MCQ_MULTI"]);
+
+/* ---------- Card (união discriminada por `type`) ---------- */
+const CardBase = {
+  id: z.string().optional(), // mantido se já for um card deste deck; senão o servidor gera um novo
+  prompt_md: Markdown.pipe(z.string().min(1)),
+  time_limit_sec: z.number().int().positive().optional(),
+  hint: Markdown.optional(),
+  media: CardMediaSchema.optional(),
+};
+
+export const CardSchema = z.discriminatedUnion("type", [
+  z.object({ ...CardBase, type: z.literal("MCQ_SINGLE"), data_json: McqSingleData }),
+  z.object({ ...CardBase, type: z.literal("MCQ_MULTI"), data_json: McqMultiData }),
+  z.object({ ...CardBase, type: z.literal("TRUE_FALSE"), data_json: TrueFalseData }),
+  z.object({ ...CardBase, type: z.literal("MATCH_LINES"), data_json: MatchLinesData }),
+  z.object({ ...CardBase, type: z.literal("MATCH_BUCKETS"), data_json: MatchBucketsData }),
+  z.object({ ...CardBase, type: z.literal("TEXT"), data_json: TextData }),
+]);
+
+export type ValidCard = z.infer<typeof CardSchema>;
+export type CardDataOf<T extends ValidCard["type"]> = Extract<ValidCard, { type: T }>["data_json"];
+
+/* ---------- Issues ---------- */
+export interface CardIssue {
+  path: string;        // p.ex. "cards.3.data_json.options"
+  message: string;
+  cardIndex?: number;  // índice do card (quando o erro é de um card)
+}
+
+/** Issues do zod num formato estável para o cliente (path em texto + índice do card). */
+export function formatIssues(issues: z.ZodIssue[], prefix: (string | number)[] = []): CardIssue[] {
+  return issues.map((i) => {
+    const path = [...prefix, ...i.path];
+    const at = path.indexOf("cards");
+    const cardIndex = at !== -1 && typeof path[at + 1] === "number" ? (path[at + 1] as number) : undefined;
+    return { path: path.join(".") || "(root)", message: i.message, cardIndex };
+  });
+}
@@ -0,0 +1,118 @@
+// src/lib/csv.ts
+
+/**
+ * CSV/TSV segundo o RFC 4180: campos entre aspas com `""` escapado, quebras de linha dentro
+ * de aspas, BOM UTF-8 e separador `,`, `;` ou tab (detetado pelo cabeçalho se não for dado).
+ */
+
+export type Delimiter = "," | ";" | "\t";
+
+export interface ParsedTable {
+  delimiter: string;
+  rows: string[][];
+  lines: number[];                              // linha (1-based) onde começa cada row
+  errors: Array<{ line: number; message: string }>;
+}
+
+const DELIMITERS: Delimiter[] = ["\t", ";", ","];
+
+function stripBom(text: string) {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+/** Escolhe o separador mais frequente na 1.ª linha (fora de aspas); empate -> tab, `;`, `,`. */
+export function detectDelimiter(text: string): Delimiter {
+  const counts = new Map<Delimiter, number>(DELIMITERS.map((d) => [d, 0]));
+  let inQuotes = false;
+  for (const c of stripBom(text)) {
+    if (c === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (c === "\n" || c === "\r")) break;
+    else if (!inQuotes && counts.has(c as Delimiter)) counts.set(c as Delimiter, counts.get(c as Delimiter)! + 1);
+  }
+  let best: Delimiter = ",";
+  let max = 0;
+  for (const d of DELIMITERS) {
+    if (counts.get(d)! > max) {
+      best = d;
+      max = counts.get(d)!;
+    }
+  }
+  return best;
+}
+
+/** `delimiter` pode ser qualquer carácter (o Anki também exporta com `|`, `:` ou espaço). */
+export function parseDelimited(input: string, delimiter?: string): ParsedTable {
+  const text = stripBom(input);
+  const delim = delimiter ?? detectDelimiter(text);
+  const out: ParsedTable = { delimiter: delim, rows: [], lines: [], errors: [] };
+
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let quotedField = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endField = () => {
+    row.push(field);
+    field = "";
+    quotedField = false;
+  };
+  const endRow = () => {
+    endField();
+    // linhas vazias não contam como rows
+    if (!(row.length === 1 && row[0].trim() === "")) {
+      out.rows.push(row);
+      out.lines.push(rowLine);
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inQuotes) {
+      if (c === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (c === "\n") line++;
+        field += c;
+      }
+      continue;
+    }
+
+    if (c === '"' && field === "" && !quotedField) {
+      inQuotes = true;
+      quotedField = true;
+    } else if (c === delim) {
+      endField();
+    } else if (c === "\r" || c === "\n") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += c; // aspas a meio de um campo sem aspas ficam literais (tolerante)
+    }
+  }
+
+  if (inQuotes) out.errors.push({ line: rowLine, message: "unterminated quoted field" });
+  if (field !== "" || row.length > 0) endRow();
+  return out;
+}
+
+function quote(value: string, delimiter: Delimiter) {
+  const needs =
+    value.includes(delimiter) || value.includes('"') || value.includes("\n") || value.includes("\r") ||
+    value !== value.trim();
+  return needs ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Serializa rows (CRLF entre registos, como pede o RFC). */
+export function toDelimited(rows: string[][], delimiter: Delimiter = ","): string {
+  return rows.map((r) => r.map((v) => quote(v, delimiter)).join(delimiter)).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,121 @@
+// src/lib/deckExport.ts
+import type { Card, Deck, TopicPath } from "./store";
+import { CardSchema } from "./cardData";
+import type { ValidCard } from "./cardData";
+import { toDelimited } from "./csv";
+import { slugify } from "./text";
+
+/**
+ * Export de um deck (usado por `GET /decks/:deckId/export`).
+ * JSON e CSV voltam a entrar por `POST /decks/import` sem perdas (o CSV leva o `data_json`
+ * completo e os metadados do deck em linhas `#chave:valor`); o markdown é só para ler/imprimir.
+ */
+
+export type ExportFormat = "json" | "csv" | "md";
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: "application/json; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+  md: "text/markdown; charset=utf-8",
+};
+
+export interface DeckOwnerRef {
+  userId: string;
+  username: string;
+}
+
+/** Nome de ficheiro a partir do título (ASCII, sem espaços). */
+export function exportFilename(deck: Deck, format: ExportFormat) {
+  return `${slugify(deck.title) || "deck"}.${format}`;
+}
+
+export function formatTopic(topic: TopicPath) {
+  return [topic.theme, topic.subtheme, topic.subsubtheme].filter(Boolean).join(" > ");
+}
+
+/* ---------- JSON ---------- */
+/** Mesmo formato do `jsonDeck` do import / do `DeckUpsert`, mais `source` (ignorado no import). */
+export function exportDeckJson(deck: Deck, owner: DeckOwnerRef) {
+  return {
+    title: deck.title,
+    topic: deck.topic,
+    visibility: deck.visibility,
+    tags: deck.tags ?? [],
+    cards: deck.cards.map(({ id, type, prompt_md, data_json, time_limit_sec, hint, media }) => ({
+      id,
+      type,
+      prompt_md,
+      data_json,
+      time_limit_sec,
+      hint,
+      media, // ids de media do autor: só voltam a entrar na mesma conta
+    })),
+    source: { deckId: deck.id, rev: deck.rev, owner, exportedAt: new Date().toISOString() },
+  };
+}
+
+/* ---------- CSV ---------- */
+const CSV_COLUMNS = ["type", "prompt_md", "data_json", "time_limit_sec", "hint"] as const;
+
+export function exportDeckCsv(deck: Deck): string {
+  const meta = [`#title:${oneLine(deck.title)}`, `#topic:${oneLine(formatTopic(deck.topic))}`];
+  if (deck.tags?.length) meta.push(`#tags:${deck.tags.map(oneLine).join("|")}`);
+
+  const rows = deck.cards.map((c) => [
+    c.type,
+    c.prompt_md,
+    JSON.stringify(c.data_json ?? {}),
+    c.time_limit_sec ? String(c.time_limit_sec) : "",
+    c.hint ?? "",
+  ]);
+  return meta.join("\r\n") + "\r\n" + toDelimited([[...CSV_COLUMNS], ...rows]);
+}
+
+function oneLine(s: string) {
+  return s.replace(/\s*[\r\n]+\s*/g, " ").trim();
+}
+
+/* ---------- Markdown ---------- */
+const YES_NO = (v: boolean) => (v ? "True" : "False");
+
+/** Resposta legível por tipo; decks antigos que não passem no contrato ficam em JSON. */
+function answerLines(card: Card): string[] {
+  const parsed = CardSchema.safeParse({ type: card.type, prompt_md: card.prompt_md || "-", data_json: card.data_json });
+  if (!parsed.success) return ["```json", JSON.stringify(card.data_json, null, 2), "```"];
+  const c: ValidCard = parsed.data;
+  switch (c.type) {
+    case "MCQ_SINGLE":
+    case "MCQ_MULTI":
+      return c.data_json.options.map((o) => `- [${o.correct ? "x" : " "}] ${o.text}`);
+    case "TRUE_FALSE":
+      return [`**Answer:** ${YES_NO(c.data_json.correct)}`];
+    case "MATCH_LINES":
+      return c.data_json.pairs.map((p) => `- ${p.left} → ${p.right}`);
+    case "MATCH_BUCKETS":
+      return c.data_json.buckets.map((b, i) => {
+        const items = c.data_json.items.filter((it) => it.bucket === i).map((it) => it.text);
+        return `- **${b}:** ${items.join(", ") || "—"}`;
+      });
+    case "TEXT":
+      return [`**Answer:** ${[...c.data_json.accepted, ...(c.data_json.patterns ?? []).map((p) => `/${p}/`)].join(" / ")}`];
+  }
+}
+
+export function exportDeckMarkdown(deck: Deck, owner: DeckOwnerRef): string {
+  const out = [
+    `# ${oneLine(deck.title)}`,
+    "",
+    `- **Topic:** ${formatTopic(deck.topic)}`,
+    ...(deck.tags?.length ? [`- **Tags:** ${deck.tags.join(", ")}`] : []),
+    `- **Author:** ${owner.username}`,
+    ...(deck.forkedFrom ? [`- **Forked from:** ${deck.forkedFrom.owner.username}`] : []),
+    `- **Cards:** ${deck.cards.length}`,
+  ];
+
+  deck.cards.forEach((card, i) => {
+    out.push("", "---", "", `### ${i + 1}. ${card.type}`, "", card.prompt_md.trim(), "", ...answerLines(card));
+    if (card.hint) out.push("", `> **Hint:** ${oneLine(card.hint)}`);
+    if (card.time_limit_sec) out.push("", `_Time limit: ${card.time_limit_sec}s_`);
+  });
+  return out.join("\n") + "\n";
+}
@@ -0,0 +1,453 @@
+// src/lib/deckImport.ts
+import type { CardInput, CardType, TopicPath } from "./store";
+import { CardSchema, formatIssues } from "./cardData";
+import type { CardIssue } from "./cardData";
+import { parseDelimited } from "./csv";
+import type { Delimiter } from "./csv";
+import { htmlToMarkdown, htmlToText } from "./html";
+
+/**
+ * Conversão de ficheiros de texto em cards (usado por `POST /decks/import`).
+ * Cada linha é validada com o mesmo `CardSchema` do upsert; linhas inválidas não
+ * abortam o import — vão para `errors` com o nº da row e os paths do zod.
+ */
+
+export const MAX_IMPORT_ROWS = 5000;
+
+/* ---------- Tipos ---------- */
+export interface ImportRowError {
+  row: number;           // nº do registo (o cabeçalho é a row 1)
+  line?: number;         // linha do ficheiro onde a row começa (formatos de texto)
+  errors: CardIssue[];
+}
+
+export interface ImportReport {
+  format: string;
+  total: number;         // rows de dados (sem cabeçalho)
+  valid: number;
+  invalid: number;
+  cards: CardInput[];    // só as válidas, pela ordem do ficheiro
+  errors: ImportRowError[];
+  delimiter?: string;
+  title?: string;        // metadados do deck vindos do ficheiro (cabeçalho `#chave:valor`)
+  topic?: TopicPath;
+  tags?: string[];
+}
+
+/** Erro de formato do ficheiro inteiro (sem cabeçalho, colunas em falta, …). */
+export class ImportFormatError extends Error {
+  constructor(readonly code: string, readonly details: Record<string, unknown> = {}) {
+    super(code);
+    this.name = "ImportFormatError";
+  }
+}
+
+/* ---------- Cabeçalho ---------- */
+const COLUMN_ALIASES: Record<string, string> = {
+  prompt: "prompt_md",
+  question: "prompt_md",
+  pergunta: "prompt_md",
+  data: "data_json",
+  answer: "correct",
+  answers: "correct",
+  resposta: "correct",
+  time: "time_limit_sec",
+  time_limit: "time_limit_sec",
+};
+
+const CARD_TYPES: CardType[] = ["MCQ_SINGLE", "MCQ_MULTI", "TRUE_FALSE", "MATCH_LINES", "MATCH_BUCKETS", "TEXT"];
+
+function normalizeHeader(h: string) {
+  const key = h.trim().toLowerCase().replace(/\s+/g, "_");
+  const opt = key.match(/^(?:option|opcao|opção)_?(\d+)$/);
+  if (opt) return `option${Number(opt[1])}`;
+  return COLUMN_ALIASES[key] ?? key;
+}
+
+/* ---------- Colunas simplificadas -> data_json ---------- */
+const TRUE_WORDS = new Set(["true", "t", "1", "yes", "y", "sim", "s", "v", "verdadeiro"]);
+const FALSE_WORDS = new Set(["false", "f", "0", "no", "n", "não", "nao", "falso"]);
+// para inferir TRUE_FALSE sem coluna type só contam as palavras inequívocas ("1" pode ser resposta TEXT)
+const BOOLEAN_WORDS = new Set(["true", "false", "verdadeiro", "falso"]);
+
+function splitList(v: string) {
+  return v.split(/[|;,]/).map((s) => s.trim()).filter(Boolean);
+}
+
+/**
+ * `correct` de um MCQ: índices 1-based ("2", "1|3") ou o texto das opções.
+ * Devolve null se algum valor não corresponder a uma opção.
+ */
+function correctIndexes(correct: string, options: string[]): number[] | null {
+  const out = new Set<number>();
+  // texto exato primeiro (opções podem conter vírgulas)
+  const exact = options.findIndex((o) => o.toLowerCase() === correct.trim().toLowerCase());
+  if (exact !== -1) return [exact];
+  for (const token of splitList(correct)) {
+    const n = Number(token);
+    const idx = Number.isInteger(n) ? n - 1 : options.findIndex((o) => o.toLowerCase() === token.toLowerCase());
+    if (idx < 0 || idx >= options.length) return null;
+    out.add(idx);
+  }
+  return Array.from(out);
+}
+
+/** Monta o objeto do card a partir das colunas; os problemas de forma ficam para o zod. */
+function rowToCard(rec: Record<string, string>, optionKeys: string[]): { card?: unknown; errors: CardIssue[] } {
+  const options = optionKeys.map((k) => rec[k]?.trim() ?? "").filter(Boolean);
+  const correct = rec.correct?.trim() ?? "";
+  const rawType = rec.type?.trim().toUpperCase() ?? "";
+
+  let type = rawType as CardType;
+  if (!rawType) {
+    // sem coluna/valor de type: inferir pelo conteúdo
+    if (options.length) type = (correctIndexes(correct, options)?.length ?? 0) > 1 ? "MCQ_MULTI" : "MCQ_SINGLE";
+    else if (BOOLEAN_WORDS.has(correct.toLowerCase())) type = "TRUE_FALSE";
+    else type = "TEXT";
+  } else if (!CARD_TYPES.includes(type)) {
+    return { errors: [{ path: "type", message: `unknown card type '${rec.type}'` }] };
+  }
+
+  let data_json: unknown;
+  const dataStr = rec.data_json?.trim();
+  if (dataStr) {
+    try {
+      data_json = JSON.parse(dataStr);
+    } catch {
+      return { errors: [{ path: "data_json", message: "invalid JSON" }] };
+    }
+  } else if (type === "MCQ_SINGLE" || type === "MCQ_MULTI") {
+    const idx = correct ? correctIndexes(correct, options) : [];
+    if (idx === null) return { errors: [{ path: "correct", message: `'${correct}' does not match any option` }] };
+    data_json = { options: options.map((text, i) => ({ text, correct: idx.includes(i) })) };
+  } else if (type === "TRUE_FALSE") {
+    const v = correct.toLowerCase();
+    data_json = { correct: TRUE_WORDS.has(v) ? true : FALSE_WORDS.has(v) ? false : undefined };
+  } else if (type === "TEXT") {
+    data_json = { accepted: correct ? correct.split("|").map((s) => s.trim()).filter(Boolean) : [] };
+  } else {
+    return { errors: [{ path: "data_json", message: `data_json column is required for ${type}` }] };
+  }
+
+  const time = rec.time_limit_sec?.trim();
+  return {
+    card: {
+      type,
+      prompt_md: rec.prompt_md ?? "",
+      data_json,
+      time_limit_sec: time ? Number(time) : undefined,
+      hint: rec.hint?.trim() || undefined,
+    },
+    errors: [],
+  };
+}
+
+/** Valida um card candidato; devolve o CardInput ou os issues (paths relativos ao card). */
+export function validateImportedCard(candidate: unknown): { card?: CardInput; errors: CardIssue[] } {
+  const parsed = CardSchema.safeParse(candidate);
+  if (!parsed.success) return { errors: formatIssues(parsed.error.issues) };
+  const { id: _id, ...card } = parsed.data;
+  return { card: card as CardInput, errors: [] };
+}
+
+/* ---------- Separadores ---------- */
+const CSV_DELIMITERS: Delimiter[] = [",", ";", "\t"];
+
+const SEPARATOR_NAMES: Record<string, string> = {
+  tab: "\t",
+  comma: ",",
+  semicolon: ";",
+  space: " ",
+  pipe: "|",
+  colon: ":",
+  newline: "\n",
+};
+
+/** Nome (`tab`, `semicolon`, …), escape escrito à mão (`\t`, `\n`) ou o próprio separador. */
+export function resolveSeparator(v: string): string {
+  const named = SEPARATOR_NAMES[v.trim().toLowerCase()];
+  if (named) return named;
+  return v.replace(/\\t/g, "\t").replace(/\\n/g, "\n");
+}
+
+/* ---------- Cabeçalho `#chave:valor` (Anki, exports do MindZapp) ---------- */
+/** Lê as linhas `#chave:valor` do topo; `skip` é o nº de linhas consumidas. */
+function readHeaderLines(text: string): { headers: Record<string, string>; body: string; skip: number } {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const headers: Record<string, string> = {};
+  let skip = 0;
+  for (; skip < lines.length; skip++) {
+    const m = lines[skip].match(/^#([a-z ]+):(.*)$/i);
+    if (!m) break;
+    headers[m[1].trim().toLowerCase()] = m[2].trim();
+  }
+  return { headers, body: lines.slice(skip).join("\n"), skip };
+}
+
+/** `#topic:IT > Redes > TCP` -> TopicPath */
+function parseTopicHeader(v: string | undefined): TopicPath | undefined {
+  const [theme, subtheme, subsubtheme] = (v ?? "").split(">").map((s) => s.trim());
+  if (!theme) return undefined;
+  return { theme, ...(subtheme ? { subtheme } : {}), ...(subsubtheme ? { subsubtheme } : {}) };
+}
+
+/* ---------- CSV / TSV ---------- */
+/**
+ * Colunas: `prompt_md` (obrigatória), `type`, `data_json`, `option1..N`, `correct`,
+ * `time_limit_sec`, `hint` (com alguns aliases, p.ex. `question`, `answer`).
+ * Sem `data_json`, as colunas simplificadas são convertidas conforme o tipo.
+ * Antes do cabeçalho pode haver `#title:`, `#topic:` e `#tags:` (separadas por `|`), como no export.
+ */
+export function importCsv(text: string, opts: { delimiter?: string } = {}): ImportReport {
+  if (opts.delimiter && !(CSV_DELIMITERS as string[]).includes(opts.delimiter)) {
+    throw new ImportFormatError("INVALID_DELIMITER", { allowed: ["comma", "semicolon", "tab"] });
+  }
+  const { headers: meta, body, skip } = readHeaderLines(text);
+  const table = parseDelimited(body, opts.delimiter);
+  if (table.errors.length) throw new ImportFormatError("UNTERMINATED_QUOTE", { line: table.errors[0].line + skip });
+  if (table.rows.length === 0) throw new ImportFormatError("EMPTY_TEXT");
+  if (table.rows.length - 1 > MAX_IMPORT_ROWS) {
+    throw new ImportFormatError("TOO_MANY_ROWS", { max: MAX_IMPORT_ROWS });
+  }
+
+  const header = table.rows[0].map(normalizeHeader);
+  if (!header.includes("prompt_md")) throw new ImportFormatError("MISSING_COLUMN", { column: "prompt_md" });
+  const optionKeys = header
+    .filter((h) => /^option\d+$/.test(h))
+    .sort((a, b) => Number(a.slice(6)) - Number(b.slice(6)));
+
+  const report: ImportReport = {
+    format: "csv",
+    delimiter: table.delimiter,
+    total: table.rows.length - 1,
+    valid: 0,
+    invalid: 0,
+    cards: [],
+    errors: [],
+  };
+  if (meta.title) report.title = meta.title;
+  if (meta.topic) report.topic = parseTopicHeader(meta.topic);
+  if (meta.tags) report.tags = meta.tags.split("|").map((t) => t.trim()).filter(Boolean);
+
+  table.rows.slice(1).forEach((cols, i) => {
+    const row = i + 2;
+    const line = table.lines[i + 1] + skip;
+    const rec: Record<string, string> = {};
+    header.forEach((h, j) => (rec[h] = cols[j] ?? ""));
+
+    const built = rowToCard(rec, optionKeys);
+    const result = built.card ? validateImportedCard(built.card) : { card: undefined, errors: built.errors };
+    if (result.card) {
+      report.cards.push(result.card);
+      report.valid += 1;
+    } else {
+      report.errors.push({ row, line, errors: result.errors });
+      report.invalid += 1;
+    }
+  });
+
+  return report;
+}
+
+/* ---------- Pergunta/resposta (Anki, Quizlet) ---------- */
+/** Como tratar a resposta de uma nota: texto livre (TEXT) ou escolha múltipla gerada a partir do deck. */
+export type AnswerMode = "text" | "mcq";
+
+export interface QaImportOptions {
+  answerAs?: AnswerMode;
+  choices?: number;      // nº de opções em modo mcq (2..6, default 4)
+}
+
+interface QaNote {
+  row: number;
+  line?: number;
+  prompt: string;        // markdown
+  answer: string;        // texto simples
+  hint?: string;
+  error?: CardIssue;
+}
+
+/**
+ * Notas pergunta/resposta -> cards. Respostas verdadeiro/falso dão TRUE_FALSE; as restantes
+ * TEXT ou, com `answerAs: "mcq"`, MCQ_SINGLE com as respostas de outras notas como distratores
+ * (escolha determinística: as seguintes na ordem do ficheiro).
+ */
+function qaReport(format: string, notes: QaNote[], opts: QaImportOptions): ImportReport {
+  const choices = Math.min(6, Math.max(2, opts.choices ?? 4));
+  const isBoolean = (a: string) => BOOLEAN_WORDS.has(a.toLowerCase());
+  const pool = Array.from(new Set(notes.filter((n) => !n.error && n.answer && !isBoolean(n.answer)).map((n) => n.answer)));
+
+  const report: ImportReport = { format, total: notes.length, valid: 0, invalid: 0, cards: [], errors: [] };
+  for (const note of notes) {
+    let candidate: unknown;
+    if (!note.error) {
+      const base = { prompt_md: note.prompt, hint: note.hint || undefined };
+      if (isBoolean(note.answer)) {
+        candidate = { ...base, type: "TRUE_FALSE", data_json: { correct: TRUE_WORDS.has(note.answer.toLowerCase()) } };
+      } else if (opts.answerAs === "mcq") {
+        const k = pool.indexOf(note.answer);
+        const options = [];
+        for (let j = 1; j < pool.length && options.length < choices - 1; j++) {
+          options.push({ text: pool[(k + j) % pool.length], correct: false });
+        }
+        options.splice((note.row - 1) % (options.length + 1), 0, { text: note.answer, correct: true });
+        candidate = { ...base, type: "MCQ_SINGLE", data_json: { options } };
+      } else {
+        candidate = { ...base, type: "TEXT", data_json: { accepted: [note.answer] } };
+      }
+    }
+
+    const result = candidate ? validateImportedCard(candidate) : { card: undefined, errors: [note.error!] };
+    if (result.card) {
+      report.cards.push(result.card);
+      report.valid += 1;
+    } else {
+      report.errors.push({ row: note.row, line: note.line, errors: result.errors });
+      report.invalid += 1;
+    }
+  }
+  return report;
+}
+
+/* ---------- Anki ("Notes in Plain Text") ---------- */
+export interface AnkiImportOptions extends QaImportOptions {
+  delimiter?: string;    // sobrepõe-se ao `#separator:` do ficheiro
+  html?: boolean;        // sobrepõe-se ao `#html:`; default true
+}
+
+const CLOZE = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+/** Uma nota cloze dá um card por nº de cloze (como no Anki): o cloze ativo fica `[...]`, os outros visíveis. */
+function expandCloze(text: string): Array<{ prompt: string; answer: string }> {
+  const numbers = Array.from(new Set(Array.from(text.matchAll(CLOZE), (m) => Number(m[1])))).sort((a, b) => a - b);
+  return numbers.map((n) => {
+    const answers: string[] = [];
+    const prompt = text.replace(CLOZE, (_m, num: string, body: string, hint?: string) => {
+      if (Number(num) !== n) return body;
+      answers.push(body);
+      return hint ? `[${hint}]` : "[...]";
+    });
+    return { prompt, answer: answers.join(" … ") };
+  });
+}
+
+/**
+ * Export "Notes in Plain Text" do Anki: cabeçalho opcional de linhas `#chave:valor`
+ * (`separator`, `html`, `tags column`, `guid column`, `notetype column`, `deck column`, `deck`)
+ * e uma nota por registo. 1.º campo -> pergunta, 2.º -> resposta; os restantes são ignorados.
+ * Notas cloze (`{{c1::…}}`) dão um card TEXT por cloze, com o 2.º campo como hint.
+ * As tags das notas vão para `report.tags` e o nome do deck para `report.title`.
+ */
+export function importAnki(text: string, opts: AnkiImportOptions = {}): ImportReport {
+  const { headers, body, skip } = readHeaderLines(text);
+
+  const delimiter = opts.delimiter ?? (headers.separator ? resolveSeparator(headers.separator) : "\t");
+  if (delimiter.length !== 1) throw new ImportFormatError("INVALID_DELIMITER", { delimiter });
+  const html = opts.html ?? (headers.html ? headers.html.toLowerCase() === "true" : true);
+
+  const table = parseDelimited(body, delimiter);
+  if (table.errors.length) throw new ImportFormatError("UNTERMINATED_QUOTE", { line: table.errors[0].line + skip });
+  if (table.rows.length === 0) throw new ImportFormatError("EMPTY_TEXT");
+  if (table.rows.length > MAX_IMPORT_ROWS) throw new ImportFormatError("TOO_MANY_ROWS", { max: MAX_IMPORT_ROWS });
+
+  // colunas especiais (1-based no cabeçalho)
+  const column = (key: string) => (Number(headers[`${key} column`]) || 0) - 1;
+  const tagsCol = column("tags");
+  const deckCol = column("deck");
+  const special = new Set([tagsCol, deckCol, column("guid"), column("notetype")].filter((c) => c >= 0));
+
+  const tags = new Set<string>();
+  let deckName = headers.deck ?? "";
+  const notes: QaNote[] = [];
+
+  table.rows.forEach((cols, i) => {
+    const row = i + 1;
+    const line = table.lines[i] + skip;
+    if (tagsCol >= 0) for (const t of (cols[tagsCol] ?? "").split(/\s+/)) if (t) tags.add(t);
+    if (deckCol >= 0 && !deckName) deckName = cols[deckCol]?.trim() ?? "";
+
+    const [front = "", back = ""] = cols.filter((_c, j) => !special.has(j));
+    const toMd = (v: string) => (html ? htmlToMarkdown(v) : v.trim());
+    const toText = (v: string) => (html ? htmlToText(v) : v.replace(/\s+/g, " ").trim());
+
+    const clozes = expandCloze(front);
+    if (clozes.length) {
+      for (const c of clozes) {
+        notes.push({ row, line, prompt: toMd(c.prompt), answer: toText(c.answer), hint: toText(back) });
+      }
+      return;
+    }
+    if (!back.trim()) {
+      notes.push({ row, line, prompt: "", answer: "", error: { path: "back", message: "note has no answer field" } });
+      return;
+    }
+    notes.push({ row, line, prompt: toMd(front), answer: toText(back) });
+  });
+
+  const report = qaReport("anki", notes, opts);
+  report.delimiter = delimiter;
+  if (deckName) report.title = deckName.split("::").pop()!.trim();
+  if (tags.size) report.tags = Array.from(tags);
+  return report;
+}
+
+/* ---------- Quizlet ---------- */
+export interface QuizletImportOptions extends QaImportOptions {
+  termSeparator?: string;  // entre termo e definição (default tab)
+  rowSeparator?: string;   // entre cartões (default nova linha)
+}
+
+/**
+ * Export do Quizlet: texto sem aspas, `termo<sep>definição` por cartão, com os separadores
+ * escolhidos no Quizlet (tab/vírgula/personalizado e nova linha/`;`/personalizado).
+ * O termo vira a pergunta e a definição a resposta; corta no 1.º separador de termo.
+ */
+export function importQuizlet(text: string, opts: QuizletImportOptions = {}): ImportReport {
+  const termSep = opts.termSeparator || "\t";
+  const rowSep = opts.rowSeparator || "\n";
+  const body = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  if (!body.trim()) throw new ImportFormatError("EMPTY_TEXT");
+
+  const notes: QaNote[] = [];
+  let line = 1;
+  for (const chunk of body.split(rowSep)) {
+    const startLine = line + (chunk.match(/^\s*/)![0].match(/\n/g)?.length ?? 0);
+    line += (chunk.match(/\n/g)?.length ?? 0) + (rowSep.match(/\n/g)?.length ?? 0);
+    if (!chunk.trim()) continue;
+    if (notes.length >= MAX_IMPORT_ROWS) throw new ImportFormatError("TOO_MANY_ROWS", { max: MAX_IMPORT_ROWS });
+
+    const row = notes.length + 1;
+    const at = chunk.indexOf(termSep);
+    if (at === -1) {
+      notes.push({ row, line: startLine, prompt: "", answer: "", error: { path: "definition", message: "missing term/definition separator" } });
+      continue;
+    }
+    notes.push({
+      row,
+      line: startLine,
+      prompt: chunk.slice(0, at).trim(),
+      answer: chunk.slice(at + termSep.length).replace(/\s+/g, " ").trim(),
+    });
+  }
+  if (!notes.length) throw new ImportFormatError("EMPTY_TEXT");
+  return qaReport("quizlet", notes, opts);
+}
+
+/* ---------- JSON (deck exportado / DeckUpsert) ---------- */
+/** Cards de um `jsonDeck`, validados um a um (row = posição 1-based no array). */
+export function importJsonCards(cards: unknown): ImportReport {
+  if (!Array.isArray(cards)) throw new ImportFormatError("INVALID_JSON_DECK", { path: "cards" });
+  if (cards.length > MAX_IMPORT_ROWS) throw new ImportFormatError("TOO_MANY_ROWS", { max: MAX_IMPORT_ROWS });
+  const report: ImportReport = { format: "json", total: cards.length, valid: 0, invalid: 0, cards: [], errors: [] };
+  cards.forEach((c, i) => {
+    const result = validateImportedCard(c);
+    if (result.card) {
+      report.cards.push(result.card);
+      report.valid += 1;
+    } else {
+      report.errors.push({ row: i + 1, errors: result.errors });
+      report.invalid += 1;
+    }
+  });
+  return report;
+}
@@ -0,0 +1,167 @@
+// src/lib/deckSearch.ts
+import type { CardType, DeckForkRef, DeckStats, PublicDeckEntry, TopicPath } from "./store";
+import { BATTLE_CARD_TYPES } from "./cardData";
+import { foldText } from "./text";
+
+/**
+ * Pesquisa no catálogo público (usado por `GET /decks/search`).
+ * Funções puras sobre `listPublicDecks()` + `publicDeckStats()`: filtros, ordenação e
+ * paginação por cursor (keyset: o cursor guarda a chave de ordenação do último item).
+ */
+
+export type DeckSort = "newest" | "plays" | "rating";
+
+export interface DeckSearchParams {
+  q?: string;              // palavras a procurar no título, tags e prompts (todas têm de aparecer)
+  theme?: string;
+  subtheme?: string;
+  subsubtheme?: string;
+  owner?: string;          // username ou userId
+  types?: CardType[];      // deck com pelo menos um card de algum destes tipos
+  battle?: boolean;        // true: tem cards usáveis em battles; false: só solo
+  sort: DeckSort;
+  limit: number;
+  cursor?: string;
+}
+
+/** Deck sem os cards (para listas). */
+export interface DeckSummary {
+  id: string;
+  title: string;
+  topic: TopicPath;
+  tags: string[];
+  owner: { userId: string; username: string };
+  forkedFrom?: Pick<DeckForkRef, "deckId" | "owner" | "origin">; // atribuição, se for um fork
+  cardCount: number;
+  types: Partial<Record<CardType, number>>;
+  battleCardCount: number;
+  battleEligible: boolean;
+  createdAt: string;
+  updatedAt: string;
+  stats: DeckStats;
+}
+
+export interface DeckSearchResult {
+  items: DeckSummary[];
+  total: number;           // resultados com estes filtros (todas as páginas)
+  nextCursor: string | null;
+}
+
+const NO_STATS: DeckStats = { answers: 0, players: 0, ratingAvg: null, ratingCount: 0 };
+
+export function summarizeDeck(entry: PublicDeckEntry, stats: DeckStats = NO_STATS): DeckSummary {
+  const { deck, owner } = entry;
+  const types: Partial<Record<CardType, number>> = {};
+  let battleCardCount = 0;
+  for (const c of deck.cards) {
+    types[c.type] = (types[c.type] ?? 0) + 1;
+    if (BATTLE_CARD_TYPES.has(c.type)) battleCardCount += 1;
+  }
+  return {
+    id: deck.id,
+    title: deck.title,
+    topic: deck.topic,
+    tags: deck.tags ?? [],
+    owner,
+    ...(deck.forkedFrom
+      ? { forkedFrom: { deckId: deck.forkedFrom.deckId, owner: deck.forkedFrom.owner, origin: deck.forkedFrom.origin } }
+      : {}),
+    cardCount: deck.cards.length,
+    types,
+    battleCardCount,
+    battleEligible: battleCardCount > 0,
+    createdAt: deck.createdAt,
+    updatedAt: deck.updatedAt,
+    stats: { ...stats },
+  };
+}
+
+/* ---------- Texto ---------- */
+// o deck é substituído (objeto novo) a cada escrita do dono, por isso a cache não fica velha
+const searchTextCache = new WeakMap<object, string>();
+
+function searchText(entry: PublicDeckEntry) {
+  let text = searchTextCache.get(entry.deck);
+  if (text === undefined) {
+    const { deck } = entry;
+    text = foldText([deck.title, ...(deck.tags ?? []), ...deck.cards.map((c) => c.prompt_md)].join("\n"));
+    searchTextCache.set(entry.deck, text);
+  }
+  return text;
+}
+
+/* ---------- Ordenação / cursor ---------- */
+type SortKey = Array<string | number>;
+
+function sortKey(s: DeckSummary, sort: DeckSort): SortKey {
+  if (sort === "plays") return [s.stats.players, s.stats.answers];
+  if (sort === "rating") return [s.stats.ratingAvg ?? -1, s.stats.ratingCount];
+  return [s.createdAt];
+}
+
+/** Ordem descendente pela chave e ascendente pelo id (desempate estável). */
+function compare(a: SortKey, aId: string, b: SortKey, bId: string) {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] > b[i] ? -1 : 1;
+  }
+  return aId < bId ? -1 : aId > bId ? 1 : 0;
+}
+
+function encodeCursor(sort: DeckSort, key: SortKey, id: string) {
+  return Buffer.from(JSON.stringify({ s: sort, k: key, id })).toString("base64url");
+}
+
+function decodeCursor(cursor: string, sort: DeckSort): { key: SortKey; id: string } {
+  try {
+    const c = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (c?.s === sort && Array.isArray(c.k) && typeof c.id === "string") return { key: c.k, id: c.id };
+  } catch {}
+  throw new Error("INVALID_CURSOR"); // inválido ou de outra ordenação
+}
+
+/* ---------- Pesquisa ---------- */
+export function searchDecks(
+  entries: PublicDeckEntry[],
+  stats: Map<string, DeckStats>,
+  params: DeckSearchParams
+): DeckSearchResult {
+  const after = params.cursor ? decodeCursor(params.cursor, params.sort) : null;
+  const words = foldText(params.q ?? "").split(/\s+/).filter(Boolean);
+  const same = (a: string | undefined, b: string | undefined) => b === undefined || foldText(a ?? "") === foldText(b);
+  const owner = params.owner ? foldText(params.owner) : undefined;
+
+  const matches = entries.filter((e) => {
+    const { deck } = e;
+    if (!same(deck.topic.theme, params.theme)) return false;
+    if (!same(deck.topic.subtheme, params.subtheme)) return false;
+    if (!same(deck.topic.subsubtheme, params.subsubtheme)) return false;
+    if (owner && e.owner.userId !== params.owner && foldText(e.owner.username) !== owner) return false;
+    if (params.types?.length && !deck.cards.some((c) => params.types!.includes(c.type))) return false;
+    if (params.battle !== undefined && deck.cards.some((c) => BATTLE_CARD_TYPES.has(c.type)) !== params.battle) {
+      return false;
+    }
+    if (words.length) {
+      const text = searchText(e);
+      if (!words.every((w) => text.includes(w))) return false;
+    }
+    return true;
+  });
+
+  const rows = matches
+    .map((e) => {
+      const summary = summarizeDeck(e, stats.get(e.deck.id));
+      return { summary, key: sortKey(summary, params.sort) };
+    })
+    .sort((a, b) => compare(a.key, a.summary.id, b.key, b.summary.id));
+
+  const start = after ? rows.findIndex((r) => compare(r.key, r.summary.id, after.key, after.id) > 0) : 0;
+  const page = start === -1 ? [] : rows.slice(start, start + params.limit);
+  const last = page[page.length - 1];
+  const hasMore = start !== -1 && start + params.limit < rows.length;
+
+  return {
+    items: page.map((r) => r.summary),
+    total: rows.length,
+    nextCursor: hasMore && last ? encodeCursor(params.sort, last.key, last.summary.id) : null,
+  };
+}
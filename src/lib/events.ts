@@ -0,0 +1,91 @@
+// src/lib/events.ts
+import { nanoid } from "nanoid";
+import type { UserFile, Deck, DeckCollaborator, DeckDiff, DeckShare, MediaEntry, ProgressEntry, Transaction } from "./store";
+import type { TopicNode } from "./topics";
+
+/**
+ * Bus de eventos do store (in-process). Cada mutação publica um evento tipado *depois* de a
+ * escrita ter sido gravada; o journal (`journal.ts`) subscreve tudo e guarda em JSONL.
+ * Subscritores não conseguem fazer falhar a escrita: erros são apenas registados.
+ */
+
+/* ---------- Tipos ---------- */
+interface EventBase {
+  id: string;
+  ts: string;          // ISO
+  userId: string;
+  rev?: number;        // rev do UserFile depois da escrita (quando aplicável)
+}
+
+export type StoreEventPayload =
+  | { type: "user.created"; user: UserFile }                      // estado inicial (ver `redactUser`)
+  | { type: "user.snapshot"; user: UserFile; reason: string }      // restore/replay: estado completo
+  | { type: "user.migrated"; fromVersion: number; toVersion: number }
+  | { type: "deck.upserted"; deck: Deck; created: boolean; diff: DeckDiff; by?: string } // by: colaborador que editou
+  | { type: "deck.collaborators"; deckId: string; collaborators: DeckCollaborator[] }
+  | { type: "deck.deleted"; deckId: string }
+  | { type: "deck.rated"; deckId: string; stars: number | null }   // avaliação feita pelo próprio (null = removida)
+  | { type: "deck.shared"; deckId: string; action: "created" | "revoked"; share: DeckShare } // só o hash do token
+  | { type: "media.changed"; action: "added" | "removed"; media: MediaEntry[] } // só metadados (o conteúdo fica no storage)
+  | { type: "prefs.updated"; prefs: UserFile["prefs"] }
+  | { type: "progress.updated"; deckId: string; cardId: string; progress: ProgressEntry; stats: UserFile["stats"] }
+  | { type: "wallet.transaction"; trx: Transaction; balance: number }
+  | { type: "auth.changed"; action: "device_added" | "device_removed" | "legacy_credentials_cleared"; secretHash?: string }
+  | { type: "account.changed"; action: "created" | "updated" | "deleted" }       // accounts.json (sem segredos)
+  | { type: "topic.created"; path: string; topic: TopicNode }                    // topics.json (userId: o admin)
+  | { type: "topic.updated"; path: string; topic: TopicNode }
+  | { type: "topic.deleted"; path: string; mergeInto?: string };
+
+export type StoreEvent = EventBase & StoreEventPayload;
+export type StoreEventType = StoreEvent["type"];
+export type StoreEventOf<K extends StoreEventType> = Extract<StoreEvent, { type: K }>;
+
+/** Função entregue aos mutators de `updateUser` para declarar o que mudaram. */
+export type EmitFn = (e: StoreEventPayload) => void;
+
+type Handler<E> = (e: E) => void | Promise<void>;
+
+/* ---------- Bus ---------- */
+class StoreEventBus {
+  private handlers = new Map<string, Set<Handler<any>>>();
+
+  on<K extends StoreEventType>(type: K, h: Handler<StoreEventOf<K>>): () => void;
+  on(type: "*", h: Handler<StoreEvent>): () => void;
+  on(type: string, h: Handler<any>) {
+    let set = this.handlers.get(type);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(type, set);
+    }
+    set.add(h);
+    return () => set!.delete(h);
+  }
+
+  publish(e: StoreEvent) {
+    for (const key of [e.type, "*"]) {
+      for (const h of this.handlers.get(key) ?? []) {
+        try {
+          Promise.resolve(h(e)).catch((err) => console.error(`[events] handler for ${e.type} failed:`, err));
+        } catch (err) {
+          console.error(`[events] handler for ${e.type} failed:`, err);
+        }
+      }
+    }
+  }
+}
+
+export const storeEvents = new StoreEventBus();
+
+/** Cópia do UserFile para eventos: sem deviceSecrets (o journal não guarda segredos). */
+export function redactUser(user: UserFile): UserFile {
+  const copy = structuredClone(user);
+  copy.auth = { ...copy.auth, deviceSecrets: [] };
+  return copy;
+}
+
+/** Completa o payload (id, ts, userId, rev) e publica. */
+export function publishStoreEvent(userId: string, payload: StoreEventPayload, rev?: number): StoreEvent {
+  const event = { id: nanoid(12), ts: new Date().toISOString(), userId, rev, ...payload } as StoreEvent;
+  storeEvents.publish(event);
+  return event;
+}
@@ -0,0 +1,188 @@
+// src/lib/grading.ts
+import type { CardType } from "./store";
+import { MatchBucketsData, MatchLinesData, McqMultiData, McqSingleData, TextData, TrueFalseData } from "./cardData";
+
+/**
+ * Avaliação das respostas, por `CardType` — a mesma para solo, battles e outros modos.
+ * O `data_json` guardado passa outra vez pelo contrato de cardData.ts (o MCQ antigo é convertido);
+ * decks que não o cumpram dão sempre errado, sem feedback. Payloads mal formados contam como
+ * resposta em branco: nunca acertam por acaso (p.ex. `{ index: null }` não é a opção 0).
+ *
+ * Payloads:
+ * - TRUE_FALSE: `{ answer: boolean }`
+ * - MCQ_SINGLE: `{ index: number }`
+ * - MCQ_MULTI: `{ indices: number[] }` — certo só com exatamente o conjunto das corretas
+ * - MATCH_LINES: `{ matches: number[] }` — `matches[i]` é o par cuja direita foi ligada à esquerda `i`
+ *   (índices em `pairs`; o cliente só baralha a apresentação).
+ * - MATCH_BUCKETS: `{ assignments: number[] }` — `assignments[i]` é o balde escolhido para `items[i]`.
+ * - TEXT: `{ text: string }`.
+ * Índices podem vir como número inteiro ou string de dígitos.
+ */
+
+export interface GradePart {
+  index: number;                  // par (MATCH_LINES) ou item (MATCH_BUCKETS)
+  correct: boolean;
+  given: string | number | null;  // o que foi escolhido (null se ficou por responder)
+  expected: string | number;
+}
+
+export interface GradeFeedback {
+  expected?: unknown;   // resposta certa, para mostrar depois de responder
+  parts?: GradePart[];  // por par/item nos tipos com várias partes
+}
+
+export interface GradeResult {
+  correct: boolean;
+  score: number;        // 0..1 — fração com crédito parcial; senão 0 ou 1
+  feedback: GradeFeedback;
+}
+
+type Grader = (data: unknown, payload: any) => GradeResult;
+
+const WRONG: GradeResult = { correct: false, score: 0, feedback: {} };
+
+function binary(correct: boolean, expected: unknown): GradeResult {
+  return { correct, score: correct ? 1 : 0, feedback: { expected } };
+}
+
+/** Índice >= 0 (inteiro ou string de dígitos); tudo o resto é `null`. */
+function toIndex(v: unknown): number | null {
+  if (typeof v === "number" && Number.isInteger(v) && v >= 0) return v;
+  if (typeof v === "string" && /^\d+$/.test(v)) return Number(v);
+  return null;
+}
+
+function indexList(v: unknown): Array<number | null> {
+  return Array.isArray(v) ? v.map(toIndex) : [];
+}
+
+function fromParts(parts: GradePart[], partialCredit: boolean, expected: unknown): GradeResult {
+  const right = parts.filter((p) => p.correct).length;
+  const correct = right === parts.length;
+  const score = partialCredit ? right / parts.length : correct ? 1 : 0;
+  return { correct, score, feedback: { expected, parts } };
+}
+
+/* ---------- TRUE_FALSE / MCQ ---------- */
+const gradeTrueFalse: Grader = (data, payload) => {
+  const parsed = TrueFalseData.safeParse(data);
+  if (!parsed.success) return WRONG;
+  const { correct } = parsed.data;
+  return binary(typeof payload?.answer === "boolean" && payload.answer === correct, correct);
+};
+
+const gradeMcqSingle: Grader = (data, payload) => {
+  const parsed = McqSingleData.safeParse(data);
+  if (!parsed.success) return WRONG;
+  const expected = parsed.data.options.findIndex((o) => o.correct);
+  return binary(toIndex(payload?.index) === expected, expected);
+};
+
+const gradeMcqMulti: Grader = (data, payload) => {
+  const parsed = McqMultiData.safeParse(data);
+  if (!parsed.success) return WRONG;
+  const expected = parsed.data.options.flatMap((o, i) => (o.correct ? [i] : []));
+  const given = indexList(payload?.indices);
+  const chosen = new Set(given);
+  const correct =
+    !chosen.has(null) && chosen.size === expected.length && expected.every((i) => chosen.has(i));
+  return binary(correct, expected);
+};
+
+/* ---------- MATCH_LINES ---------- */
+const gradeMatchLines: Grader = (data, payload) => {
+  const parsed = MatchLinesData.safeParse(data);
+  if (!parsed.success) return WRONG;
+  const { pairs } = parsed.data;
+  const matches = indexList(payload?.matches);
+
+  // compara pelo texto da direita: pares com a mesma direita são intercambiáveis
+  const parts = pairs.map((p, i): GradePart => {
+    const chosen = matches[i];
+    const given = chosen != null && chosen >= 0 && chosen < pairs.length ? pairs[chosen].right : null;
+    return { index: i, correct: given === p.right, given, expected: p.right };
+  });
+  return fromParts(parts, false, pairs);
+};
+
+/* ---------- MATCH_BUCKETS ---------- */
+const gradeMatchBuckets: Grader = (data, payload) => {
+  const parsed = MatchBucketsData.safeParse(data);
+  if (!parsed.success) return WRONG;
+  const { items, partialCredit } = parsed.data;
+  const assignments = indexList(payload?.assignments);
+
+  const parts = items.map((it, i): GradePart => {
+    const given = assignments[i] ?? null;
+    return { index: i, correct: given === it.bucket, given, expected: it.bucket };
+  });
+  return fromParts(parts, partialCredit === true, items.map((it) => it.bucket));
+};
+
+/* ---------- TEXT ---------- */
+/** Respostas TEXT mais longas do que isto nem são comparadas (os padrões correm sobre elas). */
+export const MAX_TEXT_ANSWER = 500;
+
+function stripAccents(s: string) {
+  return s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").normalize("NFC");
+}
+
+/** Distância de edição (Levenshtein); para assim que passar de `max`. */
+function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      best = Math.min(best, cur[j]);
+    }
+    if (best > max) return max + 1;
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+const gradeText: Grader = (data, payload) => {
+  const parsed = TextData.safeParse(data);
+  if (!parsed.success) return WRONG;
+  const d = parsed.data;
+  const expected = d.accepted.length ? d.accepted : d.patterns;
+
+  const raw = typeof payload?.text === "string" ? payload.text : "";
+  if (raw.length > MAX_TEXT_ANSWER) return binary(false, expected);
+  const answer = raw.normalize("NFC").replace(/\s+/g, " ").trim();
+  if (!answer) return binary(false, expected);
+
+  const norm = (s: string) => {
+    let out = s.normalize("NFC").replace(/\s+/g, " ").trim();
+    if (!d.accentSensitive) out = stripAccents(out);
+    return d.caseSensitive ? out : out.toLowerCase();
+  };
+  const given = norm(answer);
+  const maxTypos = d.maxTypos ?? 0;
+  const ok =
+    d.accepted.some((a) => editDistance(norm(a), given, maxTypos) <= maxTypos) ||
+    (d.patterns ?? []).some((p) => {
+      const re = new RegExp(`^(?:${p})$`, d.caseSensitive ? "u" : "iu");
+      return re.test(answer) || (!d.accentSensitive && re.test(stripAccents(answer)));
+    });
+  return binary(ok, expected);
+};
+
+/* ---------- Entrada ---------- */
+const GRADERS: Record<CardType, Grader> = {
+  TRUE_FALSE: gradeTrueFalse,
+  MCQ_SINGLE: gradeMcqSingle,
+  MCQ_MULTI: gradeMcqMulti,
+  MATCH_LINES: gradeMatchLines,
+  MATCH_BUCKETS: gradeMatchBuckets,
+  TEXT: gradeText,
+};
+
+/** Avalia `payload` contra o `data_json` de um card do tipo `type` (tipo desconhecido: errado). */
+export function gradeAnswer(type: string, data: unknown, payload: unknown): GradeResult {
+  const grader = Object.prototype.hasOwnProperty.call(GRADERS, type) ? GRADERS[type as CardType] : undefined;
+  return grader ? grader(data, payload ?? {}) : WRONG;
+}
@@ -0,0 +1,88 @@
+// src/lib/html.ts
+
+/**
+ * Conversão de HTML simples (campos do Anki, colagens de páginas) para markdown / texto.
+ * Não é um parser completo: cobre as tags que os editores de flashcards produzem e descarta
+ * o resto, ficando só com o texto.
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  laquo: "«",
+  raquo: "»",
+};
+
+export function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, ent: string) => {
+    if (ent[0] === "#") {
+      const code = ent[1] === "x" || ent[1] === "X" ? parseInt(ent.slice(2), 16) : Number(ent.slice(1));
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : m;
+    }
+    return NAMED_ENTITIES[ent.toLowerCase()] ?? m;
+  });
+}
+
+function attr(tag: string, name: string) {
+  const m = tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"));
+  return m ? decodeEntities(m[2] ?? m[3] ?? m[4] ?? "") : "";
+}
+
+function tidy(s: string) {
+  return s
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/** HTML -> markdown (negrito, itálico, código, links, imagens, listas, quebras de linha). */
+export function htmlToMarkdown(html: string): string {
+  let s = html.replace(/\r\n?/g, "\n");
+  s = s.replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, "").replace(/<!--[\s\S]*?-->/g, "");
+  s = s.replace(/\[sound:[^\]]*\]/g, "");
+
+  s = s.replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_m, code: string) =>
+    `\n\n\`\`\`\n${decodeEntities(code.replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]+>/g, "")).trim()}\n\`\`\`\n\n`
+  );
+  s = s.replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, (_m, code: string) => `\`${code.replace(/<[^>]+>/g, "")}\``);
+  s = s.replace(/<(b|strong)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_m, _t, inner: string) => (inner.trim() ? `**${inner}**` : inner));
+  s = s.replace(/<(i|em)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_m, _t, inner: string) => (inner.trim() ? `*${inner}*` : inner));
+  s = s.replace(/<a\b[^>]*>([\s\S]*?)<\/a>/gi, (m, inner: string) => {
+    const href = attr(m, "href");
+    return href ? `[${inner}](${href})` : inner;
+  });
+  s = s.replace(/<img\b[^>]*>/gi, (m) => {
+    const src = attr(m, "src");
+    return src ? `![${attr(m, "alt")}](${src})` : "";
+  });
+
+  // listas: numera os <li> de cada <ol>
+  s = s.replace(/<ol\b[^>]*>([\s\S]*?)<\/ol>/gi, (_m, inner: string) => {
+    let n = 0;
+    return `\n${inner.replace(/<li\b[^>]*>/gi, () => `\n${++n}. `)}\n`;
+  });
+  s = s.replace(/<li\b[^>]*>/gi, "\n- ");
+  s = s.replace(/<\/(ul|ol)>/gi, "\n");
+
+  s = s.replace(/<br\s*\/?>/gi, "\n");
+  s = s.replace(/<\/?(p|div|h[1-6]|blockquote|tr|table)\b[^>]*>/gi, "\n");
+  s = s.replace(/<[^>]+>/g, "");
+  return tidy(decodeEntities(s).replace(/\u00a0/g, " "));
+}
+
+/** HTML -> texto simples numa linha (para respostas e opções). */
+export function htmlToText(html: string): string {
+  const md = htmlToMarkdown(html)
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/(\*\*|\*|`)(\S[\s\S]*?\S|\S)\1/g, "$2")
+    .replace(/^(- |\d+\. )/gm, "");
+  return md.replace(/\s+/g, " ").trim();
+}
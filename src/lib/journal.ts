@@ -0,0 +1,140 @@
+// src/lib/journal.ts
+import fs from "fs/promises";
+import path from "path";
+
+import config from "../config";
+import { storeEvents } from "./events";
+import type { StoreEvent } from "./events";
+
+/**
+ * Journal append-only das mutações do store: um evento por linha (JSONL) em
+ * `JOURNAL_DIR/journal.jsonl`. Quando passa de `JOURNAL_MAX_BYTES` o ficheiro roda para
+ * `journal-<timestamp>.jsonl` e ficam só os `JOURNAL_KEEP` mais recentes.
+ *
+ * Serve de trilho de auditoria (saldos ZAPP) e de fonte para `replay.ts`.
+ */
+
+const CURRENT = "journal.jsonl";
+const ROTATED_RE = /^journal-\d{8}T\d{9}Z\.jsonl$/;
+
+/* ---------- Escrita ---------- */
+let attached: (() => void) | null = null;
+let chain: Promise<void> = Promise.resolve();
+let currentSize: number | null = null;   // bytes de journal.jsonl (lido na 1.ª escrita)
+
+function stamp(d: Date) {
+  // 2025-01-05T13:30:00.123Z -> 20250105T133000123Z (ordena lexicograficamente)
+  return d.toISOString().replace(/[-:.]/g, "");
+}
+
+async function rotate() {
+  const from = path.join(config.journal.dir, CURRENT);
+  let to = path.join(config.journal.dir, `journal-${stamp(new Date())}.jsonl`);
+  // dois rodares no mesmo ms: não sobrescrever
+  while (await fs.stat(to).then(() => true, () => false)) {
+    await new Promise((r) => setTimeout(r, 1));
+    to = path.join(config.journal.dir, `journal-${stamp(new Date())}.jsonl`);
+  }
+  await fs.rename(from, to);
+  currentSize = 0;
+
+  const rotated = (await listJournalFiles()).filter((f) => f !== CURRENT);
+  for (const f of rotated.slice(0, Math.max(0, rotated.length - config.journal.keep))) {
+    await fs.unlink(path.join(config.journal.dir, f)).catch(() => undefined);
+  }
+}
+
+async function writeLine(line: string) {
+  await fs.mkdir(config.journal.dir, { recursive: true });
+  const file = path.join(config.journal.dir, CURRENT);
+  if (currentSize === null) {
+    currentSize = await fs.stat(file).then((st) => st.size, () => 0);
+  }
+  const bytes = Buffer.byteLength(line);
+  if (currentSize > 0 && currentSize + bytes > config.journal.maxBytes) await rotate();
+  await fs.appendFile(file, line, "utf8");
+  currentSize += bytes;
+}
+
+/** Acrescenta um evento ao journal (escritas em série, pela ordem de publicação). */
+export function appendToJournal(e: StoreEvent): Promise<void> {
+  const line = JSON.stringify(e) + "\n";
+  const run = chain.then(() => writeLine(line));
+  chain = run.catch((err) => console.error("[journal] append failed:", err));
+  return run;
+}
+
+/** Espera que todas as linhas pendentes estejam gravadas. */
+export function flushJournal(): Promise<void> {
+  return chain;
+}
+
+/** Subscreve todos os eventos do store (idempotente; no-op se o journal estiver desligado). */
+export function attachJournal(): void {
+  if (attached || !config.journal.enabled) return;
+  attached = storeEvents.on("*", (e) => {
+    void appendToJournal(e);
+  });
+}
+
+export function detachJournal(): void {
+  attached?.();
+  attached = null;
+}
+
+/* ---------- Leitura ---------- */
+/** Ficheiros do journal, do mais antigo para o mais recente (journal.jsonl no fim). */
+export async function listJournalFiles(): Promise<string[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(config.journal.dir);
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return [];
+    throw e;
+  }
+  const rotated = files.filter((f) => ROTATED_RE.test(f)).sort();
+  return files.includes(CURRENT) ? [...rotated, CURRENT] : rotated;
+}
+
+export interface JournalFilter {
+  userId?: string;
+  types?: StoreEvent["type"][];
+  since?: string;   // ISO (inclusive)
+  until?: string;   // ISO (inclusive)
+}
+
+/**
+ * Percorre os eventos por ordem. Linhas ilegíveis (p.ex. a última de um crash a meio
+ * de um append) são ignoradas e contadas em `onSkip`.
+ */
+export async function* readJournal(
+  filter: JournalFilter = {},
+  onSkip?: (file: string, line: number) => void
+): AsyncGenerator<StoreEvent> {
+  await flushJournal();
+  for (const f of await listJournalFiles()) {
+    let text: string;
+    try {
+      text = await fs.readFile(path.join(config.journal.dir, f), "utf8");
+    } catch (e: any) {
+      if (e?.code === "ENOENT") continue; // rodou/foi podado entretanto
+      throw e;
+    }
+    const lines = text.split("\n");
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i].trim()) continue;
+      let e: StoreEvent;
+      try {
+        e = JSON.parse(lines[i]);
+      } catch {
+        onSkip?.(f, i + 1);
+        continue;
+      }
+      if (filter.userId && e.userId !== filter.userId) continue;
+      if (filter.types && !filter.types.includes(e.type)) continue;
+      if (filter.since && e.ts < filter.since) continue;
+      if (filter.until && e.ts > filter.until) continue;
+      yield e;
+    }
+  }
+}
@@ -0,0 +1,215 @@
+// src/lib/markdown.ts
+import { decodeEntities } from "./html";
+
+/**
+ * Markdown dos cards (`prompt_md`, `hint`, textos das opções/pares/baldes).
+ *
+ * - `sanitizeMarkdown`: corre na escrita (via `CardSchema`, ver cardData.ts). Tira HTML em bruto
+ *   (script/style/iframe… com o conteúdo; as outras tags ficam só com o texto), links com esquemas
+ *   que não sejam http/https/mailto e imagens por URL (pixels de tracking) — imagens vão em `media`.
+ *   Código (`inline` e blocos ```) não é tocado: é sempre mostrado como texto.
+ * - `renderMarkdown`: HTML seguro para os clientes que não querem fazer parsing (`prompt_html`).
+ *   Escapa tudo e só gera um subconjunto fixo de tags, por isso é seguro mesmo para decks
+ *   gravados antes da sanitização.
+ */
+
+export type UnsafeMarkdownKind = "html" | "link" | "image";
+
+export interface SanitizedMarkdown {
+  text: string;
+  removed: UnsafeMarkdownKind[]; // o que foi tirado (sem repetidos); vazio se já era seguro
+}
+
+const DANGEROUS_BLOCKS = "script|style|iframe|object|embed|svg|math|template|noscript|textarea|select|xmp|title";
+const SAFE_SCHEMES = new Set(["http", "https", "mailto"]);
+
+/** Destino de um link/imagem: sem espaços, com parênteses equilibrados (um nível), como no CommonMark. */
+const DEST = String.raw`(?:[^()\s<>]|\([^()\s]*\))*`;
+
+/** Segmentos de código (bloco ``` ou `inline`), que passam intactos. */
+const CODE_RE = /(```[\s\S]*?(?:```|$)|`[^`\n]+`)/g;
+
+/** Link seguro: http/https/mailto ou relativo (sem esquema). Entidades e espaços não enganam. */
+export function isSafeUrl(raw: string): boolean {
+  const url = decodeEntities(raw).replace(/[\u0000-\u0020\u007f]/g, "").toLowerCase();
+  const scheme = url.match(/^([a-z][a-z0-9+.-]*):/);
+  return !scheme || SAFE_SCHEMES.has(scheme[1]);
+}
+
+function sanitizeProse(s: string, removed: Set<UnsafeMarkdownKind>): string {
+  const drop = (kind: UnsafeMarkdownKind, keep = "") => {
+    removed.add(kind);
+    return keep;
+  };
+
+  s = s.replace(new RegExp(`<(${DANGEROUS_BLOCKS})\\b[\\s\\S]*?(?:<\\/\\1\\s*>|$)`, "gi"), () => drop("html"));
+  s = s.replace(/<!--[\s\S]*?(?:-->|$)/g, () => drop("html"));
+  // autolinks <https://…> antes de tirar as tags (senão pareciam tags)
+  s = s.replace(/<([a-z][a-z0-9+.-]*:[^\s<>]*)>/gi, (_m, url: string) =>
+    isSafeUrl(url) ? `[${url}](${url})` : drop("link")
+  );
+  s = s.replace(/<\/?[a-z][a-z0-9-]*(?:\s[^<>]*)?\/?>/gi, () => drop("html"));
+
+  s = s.replace(new RegExp(String.raw`!\[([^\]]*)\]\(\s*<?${DEST}>?(?:\s+"[^"]*")?\s*\)`, "g"), (_m, alt: string) =>
+    drop("image", alt)
+  );
+  s = s.replace(new RegExp(String.raw`\[([^\]]*)\]\(\s*<?(${DEST})>?(?:\s+"[^"]*")?\s*\)`, "g"), (m, label: string, url: string) =>
+    isSafeUrl(url) ? m : drop("link", label)
+  );
+  // o que escapou ao padrão (p.ex. parênteses aninhados): tira pelo menos o esquema
+  s = s.replace(/\]\(\s*<?([^\s()<>]+)/g, (m, url: string) => (isSafeUrl(url) ? m : drop("link", "](")));
+  // definições de links por referência: [x]: javascript:…
+  s = s.replace(/^ {0,3}\[[^\]]+\]:[ \t]*<?(\S+?)>?(?:[ \t]+.*)?$/gm, (m, url: string) => (isSafeUrl(url) ? m : drop("link")));
+  return s;
+}
+
+export function sanitizeMarkdown(md: string): SanitizedMarkdown {
+  const removed = new Set<UnsafeMarkdownKind>();
+  const text = md
+    .split(CODE_RE)
+    .map((part, i) => (i % 2 === 1 ? part : sanitizeProse(part, removed)))
+    .join("");
+  return { text, removed: Array.from(removed) };
+}
+
+/* ---------- Render (subconjunto fixo de markdown -> HTML) ---------- */
+function escapeHtml(s: string) {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** **negrito**, *itálico* / _itálico_ sobre HTML já escapado. */
+function emphasis(s: string): string {
+  s = s.replace(/\*\*(\S(?:[\s\S]*?\S)?)\*\*/g, "<strong>$1</strong>");
+  s = s.replace(/(^|[^\w*])\*(\S(?:[\s\S]*?\S)?)\*(?!\w)/g, "$1<em>$2</em>");
+  return s.replace(/(^|[^\w])_(\S(?:[\s\S]*?\S)?)_(?!\w)/g, "$1<em>$2</em>");
+}
+
+/** Inline: `código`, [links](url), **negrito**, *itálico* / _itálico_. Recebe texto em bruto. */
+function renderInline(text: string): string {
+  return text
+    .split(/(`[^`\n]+`)/g)
+    .map((part, i) => {
+      if (i % 2 === 1) return `<code>${escapeHtml(part.slice(1, -1))}</code>`;
+      // os links ficam de lado enquanto se trata da ênfase: um `_` no URL ou no `target="_blank"` não pode
+      // virar <em>, nem um <em> atravessar o <a>; a ênfase do texto do link é feita à parte
+      const links: string[] = [];
+      let s = escapeHtml(part.replace(/\u0000/g, ""));
+      s = s.replace(new RegExp(String.raw`!\[([^\]]*)\]\(\s*${DEST}(?:\s+&quot;.*?&quot;)?\s*\)`, "g"), "$1");
+      s = s.replace(new RegExp(String.raw`\[([^\]]+)\]\(\s*(${DEST})(?:\s+&quot;.*?&quot;)?\s*\)`, "g"), (_m, label: string, url: string) => {
+        if (!isSafeUrl(url)) return label;
+        links.push(`<a href="${url}" rel="nofollow noopener noreferrer" target="_blank">${emphasis(label)}</a>`);
+        return `\u0000${links.length - 1}\u0000`;
+      });
+      return emphasis(s).replace(/\u0000(\d+)\u0000/g, (_m, n: string) => links[Number(n)]);
+    })
+    .join("");
+}
+
+/** Blocos: parágrafos, quebras de linha, # títulos, listas (- / 1.), > citações e ``` código. */
+export function renderMarkdown(md: string): string {
+  const lines = md.replace(/\r\n?/g, "\n").split("\n");
+  const out: string[] = [];
+  let para: string[] = [];
+  let list: { tag: "ul" | "ol"; items: string[] } | null = null;
+
+  const flush = () => {
+    if (para.length) out.push(`<p>${para.map(renderInline).join("<br>")}</p>`);
+    if (list) out.push(`<${list.tag}>${list.items.map((it) => `<li>${renderInline(it)}</li>`).join("")}</${list.tag}>`);
+    para = [];
+    list = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (/^\s*```/.test(line)) {
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !/^\s*```/.test(lines[i])) code.push(lines[i]);
+      out.push(`<pre><code>${escapeHtml(code.join("\n"))}</code></pre>`);
+      continue;
+    }
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const item = line.match(/^\s*(?:([-*+])|\d+[.)])\s+(.*)$/);
+    const quote = line.match(/^\s*>\s?(.*)$/);
+    if (!line.trim()) {
+      flush();
+    } else if (heading) {
+      flush();
+      const level = heading[1].length;
+      out.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+    } else if (item) {
+      const tag = item[1] ? "ul" : "ol";
+      if (para.length || (list && list.tag !== tag)) flush();
+      list ??= { tag, items: [] };
+      list.items.push(item[2]);
+    } else if (quote) {
+      flush();
+      out.push(`<blockquote>${renderInline(quote[1])}</blockquote>`);
+    } else {
+      if (list) flush();
+      para.push(line.trim());
+    }
+  }
+  flush();
+  return out.join("\n");
+}
+
+/* ---------- Cards ---------- */
+interface CardText {
+  prompt_md: string;
+  hint?: string;
+  data_json?: unknown;
+}
+
+export interface MarkdownChange {
+  path: string;              // relativo ao card, p.ex. "data_json.options.1.text"
+  removed: UnsafeMarkdownKind[];
+}
+
+/**
+ * Cópia do card com enunciado, hint e textos do `data_json` (opções, pares, baldes, itens)
+ * sanitizados, e o que mudou. Serve para decks gravados antes da sanitização (payloads de
+ * solo/battle) e para os avisos do `/decks/validate`; o `data_json` pode vir em qualquer forma.
+ */
+export function sanitizeCardText<T extends CardText>(card: T): { card: T; changes: MarkdownChange[] } {
+  const changes: MarkdownChange[] = [];
+  const clean = <V>(path: string, value: V): V => {
+    if (typeof value !== "string") return value;
+    const r = sanitizeMarkdown(value);
+    if (r.removed.length) changes.push({ path, removed: r.removed });
+    return r.text as V;
+  };
+  const withText = (path: string, v: any) =>
+    v && typeof v === "object" && !Array.isArray(v) ? { ...v, text: clean(`${path}.text`, v.text) } : clean(path, v);
+
+  const out = structuredClone(card);
+  out.prompt_md = clean("prompt_md", out.prompt_md);
+  if (out.hint !== undefined) out.hint = clean("hint", out.hint);
+  const d = out.data_json as Record<string, any> | null | undefined;
+  if (d && typeof d === "object") {
+    if (Array.isArray(d.options)) d.options = d.options.map((o: any, i: number) => withText(`data_json.options.${i}`, o));
+    if (Array.isArray(d.items)) d.items = d.items.map((it: any, i: number) => withText(`data_json.items.${i}`, it));
+    if (Array.isArray(d.buckets)) d.buckets = d.buckets.map((b: any, i: number) => clean(`data_json.buckets.${i}`, b));
+    if (Array.isArray(d.pairs)) {
+      d.pairs = d.pairs.map((p: any, i: number) =>
+        p && typeof p === "object"
+          ? { ...p, left: clean(`data_json.pairs.${i}.left`, p.left), right: clean(`data_json.pairs.${i}.right`, p.right) }
+          : p
+      );
+    }
+  }
+  return { card: out, changes };
+}
+
+/** `prompt_html` (+ `hint_html`) para juntar ao card nos payloads com `html`. */
+export function renderCardHtml(card: CardText): { prompt_html: string; hint_html?: string } {
+  return {
+    prompt_html: renderMarkdown(card.prompt_md),
+    ...(card.hint ? { hint_html: renderMarkdown(card.hint) } : {}),
+  };
+}
@@ -0,0 +1,90 @@
+// src/lib/media.ts
+import crypto from "crypto";
+import type { CardInput, CardMedia } from "./store";
+
+/**
+ * Imagens e áudio dos cards (ver "Media" em docs/json-storage.md).
+ * Funções puras: tipos aceites, deteção do tipo pelo conteúdo e ids referidos pelos cards.
+ * O tipo vem sempre dos bytes (o Content-Type do upload só tem de concordar), por isso
+ * nada que não seja mesmo imagem/áudio é servido — SVG fica de fora (pode levar scripts).
+ */
+
+export type MediaKind = "image" | "audio";
+
+export const MEDIA_TYPES: Record<string, MediaKind> = {
+  "image/png": "image",
+  "image/jpeg": "image",
+  "image/gif": "image",
+  "image/webp": "image",
+  "audio/mpeg": "audio",
+  "audio/ogg": "audio",
+  "audio/wav": "audio",
+  "audio/mp4": "audio",
+};
+
+// nomes alternativos que alguns clientes mandam no Content-Type
+const MIME_ALIASES: Record<string, string> = {
+  "image/jpg": "image/jpeg",
+  "image/pjpeg": "image/jpeg",
+  "audio/mp3": "audio/mpeg",
+  "audio/x-wav": "audio/wav",
+  "audio/wave": "audio/wav",
+  "audio/x-m4a": "audio/mp4",
+  "audio/m4a": "audio/mp4",
+};
+
+/** Id de um ficheiro de media: sha256 do conteúdo (o mesmo ficheiro duas vezes = o mesmo id). */
+export function mediaHash(data: Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+export const MEDIA_ID_RE = /^[a-f0-9]{64}$/;
+
+/** Content-Type declarado -> MIME canónico (sem parâmetros); undefined se genérico/ausente. */
+export function normalizeMime(contentType: string | undefined): string | undefined {
+  const mime = (contentType ?? "").split(";")[0].trim().toLowerCase();
+  if (!mime || mime === "application/octet-stream") return undefined;
+  return MIME_ALIASES[mime] ?? mime;
+}
+
+function ascii(data: Buffer, start: number, end: number) {
+  return data.subarray(start, end).toString("latin1");
+}
+
+/** Tipo real pelos primeiros bytes; null se não for um dos `MEDIA_TYPES`. */
+export function sniffMime(data: Buffer): string | null {
+  if (data.length < 12) return null;
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "image/png";
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return "image/jpeg";
+  if (ascii(data, 0, 6) === "GIF87a" || ascii(data, 0, 6) === "GIF89a") return "image/gif";
+  if (ascii(data, 0, 4) === "RIFF") {
+    const format = ascii(data, 8, 12);
+    if (format === "WEBP") return "image/webp";
+    if (format === "WAVE") return "audio/wav";
+    return null;
+  }
+  if (ascii(data, 0, 4) === "OggS") return "audio/ogg";
+  if (ascii(data, 0, 3) === "ID3" || (data[0] === 0xff && (data[1] & 0xe0) === 0xe0)) return "audio/mpeg";
+  if (ascii(data, 4, 8) === "ftyp" && ["M4A ", "M4B "].includes(ascii(data, 8, 12))) return "audio/mp4";
+  return null;
+}
+
+/* ---------- Referências ---------- */
+function addRefs(out: Set<string>, media: CardMedia | undefined) {
+  if (media?.image) out.add(media.image);
+  if (media?.audio) out.add(media.audio);
+}
+
+/** Ids de media referidos por cards: `card.media` e `media` das opções de MCQ (`data_json.options[]`). */
+export function cardMediaIds(cards: Array<Pick<CardInput, "media" | "data_json">>): Set<string> {
+  const out = new Set<string>();
+  for (const c of cards) {
+    addRefs(out, c.media);
+    const options = (c.data_json as { options?: unknown } | null)?.options;
+    if (!Array.isArray(options)) continue;
+    for (const o of options) {
+      if (o && typeof o === "object") addRefs(out, (o as { media?: CardMedia }).media);
+    }
+  }
+  return out;
+}
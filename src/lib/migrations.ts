@@ -0,0 +1,472 @@
+// src/lib/migrations.ts
+import { z } from "zod";
+import { nanoid } from "nanoid";
+import type { UserFile } from "./store";
+
+/**
+ * Versionamento do formato de `data/users/<id>.json`.
+ *
+ * Ficheiros sem `schemaVersion` são tratados como versão 0. Cada migração leva um documento
+ * da versão `version - 1` para `version`; são aplicadas por ordem no `loadUser` (lazy) e em
+ * bloco pelo CLI `npm run migrate-users`. As migrações são snapshots: não dependem dos
+ * defaults atuais de `defaultUser()`, para que o resultado não mude quando estes mudarem.
+ */
+
+type Doc = Record<string, any>;
+
+const LEGACY_CREDENTIAL_KEYS = [
+  "email",
+  "passwordHash",
+  "emailVerified",
+  "verifyToken",
+  "verifyTokenExpires",
+  "resetToken",
+  "resetTokenExpires",
+] as const;
+
+export interface UserMigration {
+  version: number;
+  description: string;
+  up: (doc: Doc) => Doc;
+}
+
+function obj(v: unknown): Doc {
+  return v && typeof v === "object" && !Array.isArray(v) ? (v as Doc) : {};
+}
+
+function arr<T = unknown>(v: unknown): T[] {
+  return Array.isArray(v) ? (v as T[]) : [];
+}
+
+function num(v: unknown, def = 0): number {
+  return typeof v === "number" && Number.isFinite(v) ? v : def;
+}
+
+export const USER_MIGRATIONS: UserMigration[] = [
+  {
+    version: 1,
+    description: "estrutura base do MVP (profile, wallet, decks, progress, friends, stats, auth)",
+    up(doc) {
+      const now = new Date().toISOString();
+      doc.createdAt = typeof doc.createdAt === "string" ? doc.createdAt : now;
+      doc.updatedAt = typeof doc.updatedAt === "string" ? doc.updatedAt : doc.createdAt;
+
+      const profile = obj(doc.profile);
+      profile.privacy = profile.privacy === "PRIVATE" ? "PRIVATE" : "PUBLIC";
+      doc.profile = profile;
+
+      const wallet = obj(doc.wallet);
+      wallet.transactions = arr(wallet.transactions);
+      wallet.balance = num(wallet.balance);
+      doc.wallet = wallet;
+
+      doc.decks = arr<Doc>(doc.decks).map((d) => {
+        const deck = obj(d);
+        deck.cards = arr<Doc>(deck.cards).map((c) => {
+          const card = obj(c);
+          if (typeof card.id !== "string" || !card.id) card.id = nanoid(10);
+          if (card.data_json === undefined) card.data_json = {};
+          return card;
+        });
+        deck.createdAt = typeof deck.createdAt === "string" ? deck.createdAt : doc.createdAt;
+        deck.updatedAt = typeof deck.updatedAt === "string" ? deck.updatedAt : deck.createdAt;
+        return deck;
+      });
+
+      const progress = obj(doc.progress);
+      for (const [cardId, p] of Object.entries(progress)) {
+        const entry = obj(p);
+        entry.timesAnswered = num(entry.timesAnswered);
+        entry.timesCorrect = num(entry.timesCorrect);
+        progress[cardId] = entry;
+      }
+      doc.progress = progress;
+
+      const friends = obj(doc.friends);
+      doc.friends = { ...friends, accepted: arr(friends.accepted), pending: arr(friends.pending) };
+
+      const stats = obj(doc.stats);
+      doc.stats = {
+        ...stats,
+        answersTotal: num(stats.answersTotal),
+        correctTotal: num(stats.correctTotal),
+        streakBest: num(stats.streakBest),
+      };
+
+      const auth = obj(doc.auth);
+      auth.deviceSecrets = arr(auth.deviceSecrets).filter((s) => typeof s === "string");
+      doc.auth = auth;
+      return doc;
+    },
+  },
+  {
+    version: 2,
+    description: "prefs completas (idioma, tema, notificações, prefs.solo.intervals)",
+    up(doc) {
+      const prefs = obj(doc.prefs);
+      prefs.language = typeof prefs.language === "string" ? prefs.language : "pt-PT";
+      prefs.theme = ["light", "dark", "system"].includes(prefs.theme) ? prefs.theme : "system";
+      const notif = obj(prefs.notifications);
+      prefs.notifications = { email: notif.email === true, push: notif.push === true };
+      const solo = obj(prefs.solo);
+      const ints = obj(solo.intervals);
+      solo.intervals = {
+        VERY_HARD: num(ints.VERY_HARD, 30),
+        HARD: num(ints.HARD, 3 * 60),
+        MEDIUM: num(ints.MEDIUM, 60 * 60),
+        EASY: num(ints.EASY, 24 * 60 * 60),
+      };
+      prefs.solo = solo;
+      doc.prefs = prefs;
+      return doc;
+    },
+  },
+  {
+    version: 3,
+    description: "auth por email (emailVerified boolean, tokens null removidos)",
+    up(doc) {
+      const auth = obj(doc.auth);
+      auth.emailVerified = auth.emailVerified === true;
+      for (const k of ["email", "passwordHash", "verifyToken", "verifyTokenExpires", "resetToken", "resetTokenExpires"]) {
+        if (auth[k] === null || (auth[k] !== undefined && typeof auth[k] !== "string")) delete auth[k];
+      }
+      doc.auth = auth;
+      return doc;
+    },
+  },
+  {
+    version: 4,
+    description: "credenciais saem de auth (ficam em auth.legacyCredentials até ao reconcile-accounts)",
+    up(doc) {
+      const auth = obj(doc.auth);
+      const legacy: Doc = {};
+      for (const k of LEGACY_CREDENTIAL_KEYS) {
+        if (auth[k] !== undefined) legacy[k] = auth[k];
+        delete auth[k];
+      }
+      // emailVerified=false sozinho não traz informação
+      if (Object.keys(legacy).some((k) => k !== "emailVerified") || legacy.emailVerified === true) {
+        auth.legacyCredentials = { ...obj(auth.legacyCredentials), ...legacy };
+      }
+      doc.auth = auth;
+      return doc;
+    },
+  },
+  {
+    version: 5,
+    description: "progressArchive + ids de cards únicos por utilizador (os ids passam a ser estáveis nos upserts)",
+    up(doc) {
+      const archive = obj(doc.progressArchive);
+      for (const [cardId, p] of Object.entries(archive)) {
+        const entry = obj(p);
+        if (typeof entry.deckId !== "string" || typeof entry.archivedAt !== "string") delete archive[cardId];
+      }
+      doc.progressArchive = archive;
+
+      // builds antigos podiam repetir ids (import/cópia de payloads): o 2.º em diante recebe um novo
+      const seen = new Set<string>();
+      for (const d of arr<Doc>(doc.decks)) {
+        for (const c of arr<Doc>(d.cards)) {
+          if (seen.has(c.id)) c.id = nanoid(10);
+          seen.add(c.id);
+        }
+      }
+      return doc;
+    },
+  },
+  {
+    version: 6,
+    description: "rev por deck (controlo otimista nas rotas de cards)",
+    up(doc) {
+      for (const d of arr<Doc>(doc.decks)) {
+        d.rev = Number.isInteger(d.rev) && d.rev > 0 ? d.rev : 1;
+      }
+      return doc;
+    },
+  },
+  {
+    version: 7,
+    description: "deckRatings (avaliações de decks públicos, para a pesquisa ordenar por rating)",
+    up(doc) {
+      const ratings = obj(doc.deckRatings);
+      for (const [deckId, r] of Object.entries(ratings)) {
+        const entry = obj(r);
+        if (!Number.isInteger(entry.stars) || entry.stars < 1 || entry.stars > 5 || typeof entry.at !== "string") {
+          delete ratings[deckId];
+        }
+      }
+      doc.deckRatings = ratings;
+      return doc;
+    },
+  },
+  {
+    version: 8,
+    description: "deckRevisions (histórico de gravações por deck, para diff e restore)",
+    up(doc) {
+      const history = obj(doc.deckRevisions);
+      for (const [deckId, list] of Object.entries(history)) {
+        const valid = arr<Doc>(list).filter(
+          (r) => Number.isInteger(r.rev) && typeof r.at === "string" && Array.isArray(obj(r.deck).cards)
+        );
+        if (valid.length) history[deckId] = valid;
+        else delete history[deckId];
+      }
+      doc.deckRevisions = history;
+      return doc;
+    },
+  },
+  {
+    version: 9,
+    description: "media (imagens/áudio carregados, referidos pelos cards)",
+    up(doc) {
+      const media = obj(doc.media);
+      for (const [id, m] of Object.entries(media)) {
+        if (typeof m?.mime !== "string" || !Number.isFinite(m?.size)) delete media[id];
+      }
+      doc.media = media;
+      return doc;
+    },
+  },
+  {
+    version: 10,
+    description: "prefs.solo.scheduler (manual | sm2 | fsrs) e estado do agendador em progress[].srs",
+    up(doc) {
+      const prefs = obj(doc.prefs);
+      const solo = obj(prefs.solo);
+      solo.scheduler = ["manual", "sm2", "fsrs"].includes(solo.scheduler) ? solo.scheduler : "manual";
+      prefs.solo = solo;
+      doc.prefs = prefs;
+      for (const p of Object.values(obj(doc.progress))) {
+        if (p && typeof p === "object" && "srs" in p && !Number.isFinite(obj(p.srs).intervalDays)) delete p.srs;
+      }
+      return doc;
+    },
+  },
+  {
+    version: 11,
+    description: "prefs.solo.daily (limites do plano diário) e stats.today",
+    up(doc) {
+      const prefs = obj(doc.prefs);
+      const solo = obj(prefs.solo);
+      const daily = obj(solo.daily);
+      const limit = (v: unknown, def: number) => Math.max(0, Math.floor(num(v, def)));
+      solo.daily = { newCards: limit(daily.newCards, 20), reviews: limit(daily.reviews, 200) };
+      prefs.solo = solo;
+      doc.prefs = prefs;
+      const stats = obj(doc.stats);
+      const today = obj(stats.today);
+      if ("today" in stats && (typeof today.day !== "string" || !Number.isFinite(today.newCards) || !Number.isFinite(today.reviews))) {
+        delete stats.today;
+      }
+      doc.stats = stats;
+      return doc;
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = USER_MIGRATIONS[USER_MIGRATIONS.length - 1].version;
+
+/* ---------- Validação (formato atual) ---------- */
+const Iso = z.string().min(1);
+const Rating = z.enum(["VERY_HARD", "HARD", "MEDIUM", "EASY"]);
+
+const CardSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(["MCQ_SINGLE", "MCQ_MULTI", "TRUE_FALSE", "MATCH_LINES", "MATCH_BUCKETS", "TEXT"]),
+  prompt_md: z.string(),
+  data_json: z.unknown(),
+  time_limit_sec: z.number().optional(),
+  hint: z.string().optional(),
+  media: z.object({ image: z.string().optional(), audio: z.string().optional() }).optional(),
+});
+
+const Author = z.object({ userId: z.string().min(1), username: z.string() });
+
+const DeckSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  topic: z.object({
+    theme: z.string(),
+    subtheme: z.string().optional(),
+    subsubtheme: z.string().optional(),
+  }),
+  visibility: z.enum(["PUBLIC", "UNLISTED", "PRIVATE"]),
+  tags: z.array(z.string()).optional(),
+  rev: z.number().int().positive(),
+  createdAt: Iso,
+  updatedAt: Iso,
+  cards: z.array(CardSchema),
+  forkedFrom: z.object({
+    deckId: z.string().min(1),
+    owner: Author,
+    rev: z.number().int().positive(),
+    forkedAt: Iso,
+    syncedAt: Iso,
+    origin: z.object({ deckId: z.string().min(1), owner: Author }).optional(),
+    cards: z.array(z.object({ source: z.string(), card: z.string().nullable(), base: z.string() })),
+  }).optional(),
+  shares: z.array(z.object({
+    id: z.string().min(1),
+    tokenHash: z.string().min(1),
+    label: z.string().optional(),
+    createdAt: Iso,
+    expiresAt: Iso.optional(),
+  })).optional(),
+  collaborators: z.array(z.object({
+    userId: z.string().min(1),
+    username: z.string().min(1),
+    role: z.enum(["EDITOR", "VIEWER"]),
+    addedAt: Iso,
+  })).optional(),
+});
+
+export const UserFileSchema = z.object({
+  id: z.string().min(1),
+  username: z.string().min(1),
+  schemaVersion: z.literal(CURRENT_SCHEMA_VERSION),
+  createdAt: Iso,
+  updatedAt: Iso,
+  rev: z.number().int().nonnegative().optional(),
+  profile: z.object({
+    displayName: z.string().optional(),
+    bio: z.string().optional(),
+    avatarUrl: z.string().optional(),
+    privacy: z.enum(["PUBLIC", "PRIVATE"]),
+  }),
+  prefs: z.object({
+    language: z.string(),
+    theme: z.enum(["light", "dark", "system"]),
+    notifications: z.object({ email: z.boolean(), push: z.boolean() }),
+    solo: z.object({
+      scheduler: z.enum(["manual", "sm2", "fsrs"]),
+      daily: z.object({ newCards: z.number().int().min(0), reviews: z.number().int().min(0) }),
+      intervals: z.object({
+        VERY_HARD: z.number(),
+        HARD: z.number(),
+        MEDIUM: z.number(),
+        EASY: z.number(),
+      }),
+    }),
+  }),
+  wallet: z.object({
+    balance: z.number(),
+    transactions: z.array(z.object({
+      id: z.string(),
+      ts: Iso,
+      type: z.enum(["EARN", "SPEND"]),
+      amount: z.number(),
+      reason: z.string().optional(),
+      ref: z.string().optional(),
+    })),
+  }),
+  decks: z.array(DeckSchema),
+  progress: z.record(z.object({
+    lastAnswerAt: z.string().optional(),
+    nextReviewAt: z.string().optional(),
+    lastRating: Rating.optional(),
+    timesAnswered: z.number(),
+    timesCorrect: z.number(),
+    srs: z.object({
+      reps: z.number().int().min(0),
+      lapses: z.number().int().min(0),
+      intervalDays: z.number().min(0),
+      ease: z.number().optional(),
+      stability: z.number().optional(),
+      difficulty: z.number().optional(),
+    }).optional(),
+  })),
+  progressArchive: z.record(z.object({
+    deckId: z.string(),
+    archivedAt: Iso,
+    timesAnswered: z.number(),
+    timesCorrect: z.number(),
+  }).passthrough()),
+  deckRatings: z.record(z.object({ stars: z.number().int().min(1).max(5), at: Iso })),
+  deckRevisions: z.record(z.array(z.object({
+    rev: z.number().int().positive(),
+    at: Iso,
+    by: z.string(),
+    changes: z.object({
+      added: z.array(z.string()),
+      changed: z.array(z.string()),
+      removed: z.array(z.string()),
+      fields: z.array(z.string()),
+      reordered: z.boolean(),
+    }),
+    deck: DeckSchema.pick({ title: true, topic: true, visibility: true, tags: true, cards: true }),
+  }))),
+  media: z.record(z.object({
+    id: z.string().min(1),
+    mime: z.string().min(1),
+    size: z.number().int().nonnegative(),
+    name: z.string().optional(),
+    createdAt: Iso,
+  })),
+  friends: z.object({ accepted: z.array(z.string()), pending: z.array(z.string()) }),
+  stats: z.object({
+    answersTotal: z.number(),
+    correctTotal: z.number(),
+    streakBest: z.number(),
+    today: z.object({ day: z.string(), newCards: z.number(), reviews: z.number() }).optional(),
+  }),
+  auth: z.object({
+    deviceSecrets: z.array(z.string()),
+    legacyCredentials: z.object({
+      email: z.string().optional(),
+      passwordHash: z.string().optional(),
+      emailVerified: z.boolean().optional(),
+      verifyToken: z.string().optional(),
+      verifyTokenExpires: z.string().optional(),
+      resetToken: z.string().optional(),
+      resetTokenExpires: z.string().optional(),
+    }).optional(),
+  }),
+});
+
+/* ---------- API ---------- */
+export class UserMigrationError extends Error {
+  constructor(readonly userId: string, readonly issues: string[]) {
+    super(`USER_SCHEMA_INVALID: ${userId}`);
+    this.name = "UserMigrationError";
+  }
+}
+
+export interface MigrationResult {
+  user: UserFile;
+  fromVersion: number;
+  changed: boolean;
+}
+
+/**
+ * Aplica as migrações em falta e valida o resultado com `UserFileSchema`.
+ * Lança `UserMigrationError` (com os issues do zod) se o documento não for reparável.
+ * Não altera o objeto recebido.
+ */
+export function migrateUserDoc(raw: unknown, userId = "?"): MigrationResult {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new UserMigrationError(userId, ["document is not an object"]);
+  }
+  let doc: Doc = structuredClone(raw as Doc);
+  const fromVersion = num(doc.schemaVersion, 0);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new UserMigrationError(userId, [
+      `schemaVersion ${fromVersion} is newer than this build (${CURRENT_SCHEMA_VERSION})`,
+    ]);
+  }
+
+  for (const m of USER_MIGRATIONS) {
+    if (m.version <= fromVersion) continue;
+    doc = m.up(doc);
+    doc.schemaVersion = m.version;
+  }
+
+  const parsed = UserFileSchema.safeParse(doc);
+  if (!parsed.success) {
+    throw new UserMigrationError(
+      userId,
+      parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`)
+    );
+  }
+  // devolvemos o documento migrado (não o output do zod) para não perder campos extra
+  return { user: doc as UserFile, fromVersion, changed: fromVersion !== CURRENT_SCHEMA_VERSION };
+}
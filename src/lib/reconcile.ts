@@ -0,0 +1,177 @@
+// src/lib/reconcile.ts
+import { listUserIds, loadUser, updateUser } from "./store";
+import type { UserFile } from "./store";
+import {
+  listAccounts,
+  insertAccount,
+  updateAccount,
+  deleteAccount,
+} from "./accountStore";
+import type { AccountEntry } from "./accountStore";
+
+/**
+ * Deteta (e opcionalmente corrige) divergências entre `accounts.json` — fonte única das
+ * credenciais — e os `UserFile`, incluindo cópias antigas em `auth.legacyCredentials`.
+ *
+ * Regras de correção (`fix: true`):
+ * - conta sem user.json                 → conta removida
+ * - user com credenciais legadas sem conta → conta criada a partir delas
+ * - legado verificado, conta por verificar → conta marcada como verificada
+ * - username da conta ≠ do user.json    → conta alinhada com o user.json
+ * - credenciais legadas                 → removidas do user.json depois de reconciliadas
+ * Email/hash legados diferentes dos da conta são só reportados (a conta ganha). Credenciais legadas de
+ * um user que continua sem conta (sem email, ou email de outra conta) ficam no user.json: sem elas não
+ * haveria forma de recuperar o acesso.
+ */
+export interface DriftReport {
+  orphanAccounts: Array<{ userId: string; email: string }>;
+  missingAccounts: Array<{ userId: string; username: string; email: string }>;
+  verifiedMismatch: Array<{ userId: string; email: string }>;
+  usernameMismatch: Array<{ userId: string; account: string; user: string }>;
+  emailMismatch: Array<{ userId: string; account: string; legacy: string }>;
+  conflicts: Array<{ userId: string; reason: string }>;
+  unreconciled: Array<{ userId: string; reason: string }>;  // credenciais legadas sem conta possível
+  legacyCleared: string[];
+  unreadableUsers: string[];
+  usersWithoutAccount: string[];   // só deviceSecrets (/auth/register): informativo
+  fixed: boolean;
+}
+
+function nowISO() {
+  return new Date().toISOString();
+}
+
+function emptyReport(fix: boolean): DriftReport {
+  return {
+    orphanAccounts: [],
+    missingAccounts: [],
+    verifiedMismatch: [],
+    usernameMismatch: [],
+    emailMismatch: [],
+    conflicts: [],
+    unreconciled: [],
+    legacyCleared: [],
+    unreadableUsers: [],
+    usersWithoutAccount: [],
+    fixed: fix,
+  };
+}
+
+export function hasDrift(r: DriftReport): boolean {
+  return (
+    r.orphanAccounts.length +
+    r.missingAccounts.length +
+    r.verifiedMismatch.length +
+    r.usernameMismatch.length +
+    r.emailMismatch.length +
+    r.conflicts.length +
+    r.unreconciled.length +
+    r.legacyCleared.length
+  ) > 0;
+}
+
+function accountFromLegacy(user: UserFile, email: string): AccountEntry {
+  const legacy = user.auth.legacyCredentials ?? {};
+  const now = nowISO();
+  return {
+    userId: user.id,
+    email,
+    emailLower: email.toLowerCase(),
+    username: user.username,
+    usernameLower: user.username.toLowerCase(),
+    passwordHash: legacy.passwordHash ?? "", // sem hash: só consegue entrar via reset
+    verified: legacy.emailVerified === true,
+    verifyToken: null,
+    verifyTokenExpires: null,
+    resetToken: null,
+    resetTokenExpires: null,
+    createdAt: user.createdAt ?? now,
+    updatedAt: now,
+  };
+}
+
+export async function reconcileAccounts(opts: { fix?: boolean } = {}): Promise<DriftReport> {
+  const fix = !!opts.fix;
+  const report = emptyReport(fix);
+
+  const userIds = new Set(await listUserIds());
+  const accounts = await listAccounts();
+  const byUserId = new Map(accounts.map(a => [a.userId, a]));
+  const byEmail = new Map(accounts.map(a => [a.emailLower, a]));
+
+  /* 1) contas sem user.json */
+  for (const acc of accounts) {
+    if (userIds.has(acc.userId)) continue;
+    report.orphanAccounts.push({ userId: acc.userId, email: acc.email });
+    if (fix) await deleteAccount(acc.userId);
+  }
+
+  /* 2) cada user.json contra a sua conta */
+  for (const userId of userIds) {
+    const user = await loadUser(userId);
+    if (!user) {
+      report.unreadableUsers.push(userId);
+      continue;
+    }
+    const legacy = user.auth.legacyCredentials;
+    let acc = byUserId.get(userId);
+    let hasAccount = !!acc; // sem --fix também conta a que seria criada
+
+    if (!acc) {
+      const email = legacy?.email?.trim();
+      if (!email) {
+        if (legacy) report.unreconciled.push({ userId, reason: "legacy credentials without email" });
+        else report.usersWithoutAccount.push(userId);
+      } else {
+        report.missingAccounts.push({ userId, username: user.username, email });
+        const taken = byEmail.get(email.toLowerCase());
+        if (taken) {
+          report.conflicts.push({ userId, reason: `email already used by account ${taken.userId}` });
+        } else if (!fix) {
+          hasAccount = true;
+        } else {
+          acc = accountFromLegacy(user, email);
+          await insertAccount(acc);
+          byUserId.set(userId, acc);
+          byEmail.set(acc.emailLower, acc);
+          hasAccount = true;
+        }
+      }
+    } else {
+      let changed = false;
+      if (legacy?.emailVerified === true && !acc.verified) {
+        report.verifiedMismatch.push({ userId, email: acc.email });
+        acc.verified = true;
+        acc.verifyToken = null;
+        acc.verifyTokenExpires = null;
+        changed = true;
+      }
+      if (acc.usernameLower !== user.username.toLowerCase() || acc.username !== user.username) {
+        report.usernameMismatch.push({ userId, account: acc.username, user: user.username });
+        acc.username = user.username;
+        acc.usernameLower = user.username.toLowerCase();
+        changed = true;
+      }
+      if (legacy?.email && legacy.email.trim().toLowerCase() !== acc.emailLower) {
+        report.emailMismatch.push({ userId, account: acc.email, legacy: legacy.email });
+      }
+      if (fix && changed) {
+        acc.updatedAt = nowISO();
+        await updateAccount(acc);
+      }
+    }
+
+    /* 3) limpar cópias legadas já reconciliadas (só com conta: senão o user ficava sem forma de entrar) */
+    if (legacy && hasAccount) {
+      report.legacyCleared.push(userId);
+      if (fix) {
+        await updateUser(userId, (u, emit) => {
+          delete u.auth.legacyCredentials;
+          emit({ type: "auth.changed", action: "legacy_credentials_cleared" });
+        });
+      }
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,178 @@
+// src/lib/replay.ts
+import { getStorage, withWritesPaused } from "./storage";
+import { rebuildIndex, archiveProgress, recordDeckRevision } from "./store";
+import type { UserFile } from "./store";
+import { publishStoreEvent, redactUser } from "./events";
+import type { StoreEvent } from "./events";
+import { readJournal } from "./journal";
+import { migrateUserDoc } from "./migrations";
+
+const USERS = "users";
+
+/** Bases antigas do journal podem estar numa versão anterior do schema. */
+function upgradeBase(user: UserFile, userId: string): UserFile {
+  return migrateUserDoc(user, userId).user;
+}
+
+/**
+ * Reconstrói um UserFile a partir do journal.
+ *
+ * Base: o último `user.created`/`user.snapshot` desse utilizador, ou um UserFile dado
+ * (p.ex. de um backup) — nesse caso só entram eventos com `rev` maior que o da base.
+ * Os deviceSecrets não vão para o journal: um user reconstruído tem de voltar a fazer login.
+ */
+export interface ReplayResult {
+  user: UserFile;
+  base: "journal" | "provided";
+  baseRev: number;
+  applied: number;
+  ignored: number;          // eventos sem efeito no ficheiro (account.*, topic.*, device_*, user.migrated)
+  skippedLines: number;     // linhas ilegíveis no journal
+}
+
+/** Aplica um evento a um UserFile em memória; false se o evento não mexe no ficheiro. */
+export function applyStoreEvent(user: UserFile, e: StoreEvent): boolean {
+  switch (e.type) {
+    case "deck.upserted": {
+      const i = user.decks.findIndex((d) => d.id === e.deck.id);
+      if (i === -1) user.decks.push(structuredClone(e.deck));
+      else user.decks[i] = structuredClone(e.deck);
+      archiveProgress(user, e.deck.id, e.diff?.removed ?? [], e.ts);
+      recordDeckRevision(user, e.deck, e.diff ?? { added: [], changed: [], removed: [], unchanged: 0 }, e.ts, e.by ?? e.userId);
+      break;
+    }
+    case "deck.deleted": {
+      const deck = user.decks.find((d) => d.id === e.deckId);
+      user.decks = user.decks.filter((d) => d.id !== e.deckId);
+      archiveProgress(user, e.deckId, deck?.cards.map((c) => c.id) ?? [], e.ts);
+      delete user.deckRevisions[e.deckId];
+      break;
+    }
+    case "deck.shared": {
+      const deck = user.decks.find((d) => d.id === e.deckId);
+      if (!deck) break;
+      const others = (deck.shares ?? []).filter((s) => s.id !== e.share.id);
+      deck.shares = e.action === "created" ? [...others, { ...e.share }] : others;
+      break;
+    }
+    case "deck.collaborators": {
+      const deck = user.decks.find((d) => d.id === e.deckId);
+      if (deck) deck.collaborators = e.collaborators.map((c) => ({ ...c }));
+      break;
+    }
+    case "media.changed":
+      for (const m of e.media) {
+        if (e.action === "added") user.media[m.id] = { ...m };
+        else delete user.media[m.id];
+      }
+      break;
+    case "deck.rated":
+      if (e.stars === null) delete user.deckRatings[e.deckId];
+      else user.deckRatings[e.deckId] = { stars: e.stars, at: e.ts };
+      break;
+    case "prefs.updated":
+      user.prefs = structuredClone(e.prefs);
+      break;
+    case "progress.updated":
+      user.progress[e.cardId] = { ...e.progress };
+      user.stats = { ...e.stats };
+      break;
+    case "wallet.transaction":
+      if (!user.wallet.transactions.some((t) => t.id === e.trx.id)) {
+        user.wallet.transactions.push({ ...e.trx });
+      }
+      user.wallet.balance = e.balance;
+      break;
+    case "auth.changed":
+      if (e.action !== "legacy_credentials_cleared") return false;
+      delete user.auth.legacyCredentials;
+      break;
+    default:
+      return false;
+  }
+  if (e.rev !== undefined) user.rev = e.rev;
+  user.updatedAt = e.ts;
+  return true;
+}
+
+export async function replayUser(
+  userId: string,
+  opts: { until?: string; base?: UserFile } = {}
+): Promise<ReplayResult> {
+  let skippedLines = 0;
+  const events: StoreEvent[] = [];
+  for await (const e of readJournal({ userId, until: opts.until }, () => (skippedLines += 1))) {
+    events.push(e);
+  }
+
+  let user: UserFile;
+  let start = 0;
+  let base: ReplayResult["base"] = "provided";
+  if (opts.base) {
+    user = upgradeBase(opts.base, userId);
+    const baseRev = user.rev ?? 0;
+    start = events.findIndex((e) => e.rev !== undefined && e.rev > baseRev);
+    if (start === -1) start = events.length;
+  } else {
+    let found = -1;
+    for (let i = events.length - 1; i >= 0; i--) {
+      const t = events[i].type;
+      if (t === "user.created" || t === "user.snapshot") {
+        found = i;
+        break;
+      }
+    }
+    if (found === -1) throw new Error("JOURNAL_NO_BASE");
+    const e = events[found] as Extract<StoreEvent, { user: UserFile }>;
+    user = upgradeBase(e.user, userId);
+    start = found + 1;
+    base = "journal";
+  }
+
+  const baseRev = user.rev ?? 0;
+  let applied = 0;
+  let ignored = 0;
+  for (const e of events.slice(start)) {
+    if (e.type === "user.snapshot" || e.type === "user.created") {
+      // snapshot posterior a uma base externa: passa a ser a nova base
+      user = upgradeBase(e.user, userId);
+      applied += 1;
+      continue;
+    }
+    if (applyStoreEvent(user, e)) applied += 1;
+    else ignored += 1;
+  }
+
+  return { user, base, baseRev, applied, ignored, skippedLines };
+}
+
+/**
+ * Grava o resultado do replay por cima do user.json atual. Mantém os deviceSecrets
+ * do ficheiro atual se ainda for legível; o `rev` avança para invalidar cópias antigas.
+ */
+export async function restoreUserFromJournal(
+  userId: string,
+  opts: { until?: string; base?: UserFile } = {}
+): Promise<ReplayResult> {
+  const result = await replayUser(userId, opts);
+  const user = result.user;
+
+  await withWritesPaused(async () => {
+    const storage = getStorage();
+    let current: Partial<UserFile> | null = null;
+    try {
+      const raw = await storage.readDoc(USERS, userId);
+      current = raw === null ? null : JSON.parse(raw);
+    } catch {
+      current = null;
+    }
+    if (Array.isArray(current?.auth?.deviceSecrets)) {
+      user.auth = { ...user.auth, deviceSecrets: current!.auth!.deviceSecrets };
+    }
+    user.rev = Math.max(Number(current?.rev ?? 0), user.rev ?? 0) + 1;
+    await storage.writeDoc(USERS, userId, JSON.stringify(user, null, 2));
+  });
+  await rebuildIndex();
+  publishStoreEvent(userId, { type: "user.snapshot", user: redactUser(user), reason: "journal-replay" }, user.rev);
+  return result;
+}
@@ -0,0 +1,152 @@
+// src/lib/scheduler.ts
+import type { ProgressEntry, Rating, SchedulerState, SoloScheduler, UserFile } from "./store";
+
+/**
+ * Agendamento da próxima revisão no solo (`prefs.solo.scheduler`):
+ * - `manual`: `agora + prefs.solo.intervals[rating]`, sem olhar para o histórico;
+ * - `sm2`: SuperMemo-2 (fator de facilidade, repetições, intervalo 1d → 6d → × ease);
+ * - `fsrs`: modelo estabilidade/dificuldade do FSRS (pesos por defeito do FSRS v4, retenção 90%).
+ *
+ * Nos automáticos o rating e a corretude juntam-se numa nota: errado (ou certo com VERY_HARD, tratado
+ * como palpite) é falha; HARD/MEDIUM/EASY são passagens cada vez mais fáceis. Uma falha volta a mostrar
+ * o card ao fim do intervalo manual desse rating (reaprendizagem) e recomeça as repetições.
+ * Funções puras: a rota guarda o resultado em `progress[cardId]`.
+ */
+
+export type SchedulerGrade = 1 | 2 | 3 | 4; // falha | difícil | bom | fácil
+
+export interface ScheduleInput {
+  rating: Rating;
+  correct: boolean;
+  now: Date;
+}
+
+export interface ScheduleResult {
+  nextReviewAt: string;      // ISO
+  intervalSec: number;
+  srs?: SchedulerState;      // estado novo (só sm2/fsrs)
+}
+
+type SoloPrefs = UserFile["prefs"]["solo"];
+
+const DAY = 24 * 60 * 60;
+const MAX_INTERVAL_DAYS = 36500;
+
+export function schedulerGrade(rating: Rating, correct: boolean): SchedulerGrade {
+  if (!correct || rating === "VERY_HARD") return 1;
+  return rating === "HARD" ? 2 : rating === "MEDIUM" ? 3 : 4;
+}
+
+/** Intervalo manual (segundos) para um rating. */
+export function manualInterval(prefs: SoloPrefs, rating: Rating): number {
+  const ints = prefs.intervals;
+  switch (rating) {
+    case "VERY_HARD": return ints.VERY_HARD;
+    case "HARD":      return ints.HARD;
+    case "MEDIUM":    return ints.MEDIUM;
+    case "EASY":      return ints.EASY;
+    default: {
+      const _never: never = rating;
+      return ints.EASY;
+    }
+  }
+}
+
+function clamp(n: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, n));
+}
+
+function days(n: number) {
+  return clamp(Math.round(n), 1, MAX_INTERVAL_DAYS);
+}
+
+/* ---------- SM-2 ---------- */
+const SM2_QUALITY: Record<SchedulerGrade, number> = { 1: 1, 2: 3, 3: 4, 4: 5 };
+
+function sm2(prev: SchedulerState | undefined, grade: SchedulerGrade): SchedulerState {
+  const q = SM2_QUALITY[grade];
+  const reps = prev?.reps ?? 0;
+  const ease = prev?.ease ?? 2.5;
+  const nextEase = Math.max(1.3, ease + 0.1 - (5 - q) * (0.08 + (5 - q) * 0.02));
+  const base = { ...prev, lapses: prev?.lapses ?? 0, ease: nextEase };
+
+  if (grade === 1) {
+    return { ...base, reps: 0, lapses: base.lapses + (reps > 0 ? 1 : 0), intervalDays: 0 };
+  }
+  const intervalDays = reps === 0 ? 1 : reps === 1 ? 6 : days((prev?.intervalDays || 1) * nextEase);
+  return { ...base, reps: reps + 1, intervalDays };
+}
+
+/* ---------- FSRS ---------- */
+const W = [0.4, 0.6, 2.4, 5.8, 4.93, 0.94, 0.86, 0.01, 1.49, 0.14, 0.94, 2.18, 0.05, 0.34, 1.26, 0.29, 2.61];
+
+function initialDifficulty(grade: SchedulerGrade) {
+  return clamp(W[4] - (grade - 3) * W[5], 1, 10);
+}
+
+/** Probabilidade de ainda se lembrar ao fim de `elapsedDays` (curva de esquecimento do FSRS v4). */
+function retrievability(elapsedDays: number, stability: number) {
+  return 1 / (1 + elapsedDays / (9 * stability));
+}
+
+function fsrs(prev: SchedulerState | undefined, grade: SchedulerGrade, elapsedDays: number): SchedulerState {
+  const lapses = prev?.lapses ?? 0;
+  if (prev?.stability === undefined || prev.difficulty === undefined) {
+    const stability = W[grade - 1];
+    const difficulty = initialDifficulty(grade);
+    return grade === 1
+      ? { ...prev, reps: 0, lapses, intervalDays: 0, stability, difficulty }
+      : { ...prev, reps: 1, lapses, intervalDays: days(stability), stability, difficulty };
+  }
+
+  const { stability: s, difficulty: d } = prev;
+  const r = retrievability(Math.max(0, elapsedDays), s);
+  const difficulty = clamp(W[7] * initialDifficulty(3) + (1 - W[7]) * (d - W[6] * (grade - 3)), 1, 10);
+
+  if (grade === 1) {
+    const stability = Math.min(s, W[11] * d ** -W[12] * ((s + 1) ** W[13] - 1) * Math.exp(W[14] * (1 - r)));
+    return { ...prev, reps: 0, lapses: lapses + (prev.reps > 0 ? 1 : 0), intervalDays: 0, stability, difficulty };
+  }
+  const bonus = grade === 2 ? W[15] : grade === 4 ? W[16] : 1;
+  const stability = s * (1 + Math.exp(W[8]) * (11 - d) * s ** -W[9] * (Math.exp(W[10] * (1 - r)) - 1) * bonus);
+  // com retenção de 90% o intervalo (dias) é a própria estabilidade
+  return { ...prev, reps: prev.reps + 1, lapses, intervalDays: days(stability), stability, difficulty };
+}
+
+/* ---------- Entrada ---------- */
+/** Próxima revisão de um card depois de uma resposta, com o agendador das prefs. */
+export function scheduleReview(
+  prefs: SoloPrefs,
+  progress: ProgressEntry | undefined,
+  input: ScheduleInput
+): ScheduleResult {
+  const kind: SoloScheduler = prefs.scheduler ?? "manual";
+  const at = (sec: number) => new Date(input.now.getTime() + sec * 1000).toISOString();
+  const relearn = manualInterval(prefs, input.rating);
+  if (kind === "manual") return { nextReviewAt: at(relearn), intervalSec: relearn };
+
+  const grade = schedulerGrade(input.rating, input.correct);
+  const last = progress?.lastAnswerAt ? Date.parse(progress.lastAnswerAt) : NaN;
+  const elapsedDays = Number.isFinite(last) ? (input.now.getTime() - last) / (DAY * 1000) : 0;
+  const srs = kind === "sm2" ? sm2(progress?.srs, grade) : fsrs(progress?.srs, grade, elapsedDays);
+  const intervalSec = srs.intervalDays > 0 ? srs.intervalDays * DAY : relearn;
+  return { nextReviewAt: at(intervalSec), intervalSec, srs };
+}
+
+/** O que cada rating daria agora, certo e errado (para `/solo/preview`). */
+export function previewReviews(
+  prefs: SoloPrefs,
+  progress: ProgressEntry | undefined,
+  now: Date
+): Record<Rating, { correct: ScheduleResult; incorrect: ScheduleResult }> {
+  const ratings: Rating[] = ["VERY_HARD", "HARD", "MEDIUM", "EASY"];
+  return Object.fromEntries(
+    ratings.map((rating) => [
+      rating,
+      {
+        correct: scheduleReview(prefs, progress, { rating, correct: true, now }),
+        incorrect: scheduleReview(prefs, progress, { rating, correct: false, now }),
+      },
+    ])
+  ) as Record<Rating, { correct: ScheduleResult; incorrect: ScheduleResult }>;
+}
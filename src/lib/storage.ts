@@ -0,0 +1,272 @@
+// src/lib/storage.ts
+import fs from "fs/promises";
+import fssync from "fs";
+import path from "path";
+import { nanoid } from "nanoid";
+
+import config from "../config";
+
+/* ---------- Contrato ---------- */
+export type StorageDriver = "json" | "memory";
+
+/**
+ * Camada de persistência usada por `store.ts` e `accountStore.ts`.
+ *
+ * Os dados são documentos JSON identificados por (coleção, id):
+ * - `("users", "<userId>")` → `data/users/<userId>.json`
+ * - `("", "accounts")`      → `data/accounts.json` (coleção "" = raiz)
+ *
+ * Os documentos circulam como texto JSON para que nenhuma implementação partilhe
+ * referências em memória com quem chama (o in-memory comporta-se como o disco).
+ *
+ * Ficheiros binários (media dos cards) são blobs na mesma estrutura, sem extensão:
+ * `("media/<userId>", "<sha256>")` → `data/media/<userId>/<sha256>`.
+ */
+export interface StorageAdapter {
+  readonly driver: StorageDriver;
+  /** Conteúdo bruto do documento; null se não existir. */
+  readDoc(collection: string, id: string): Promise<string | null>;
+  /** Escrita atómica (ou tudo ou nada). */
+  writeDoc(collection: string, id: string, json: string): Promise<void>;
+  /** Remove o documento; devolve false se não existia. */
+  deleteDoc(collection: string, id: string): Promise<boolean>;
+  /** Ids dos documentos de uma coleção (sem extensão). */
+  listDocs(collection: string): Promise<string[]>;
+  /** Põe de lado um documento ilegível (`<id>.json.corrupt-<ts>`) para inspeção manual. */
+  quarantineDoc(collection: string, id: string): Promise<void>;
+  /** Conteúdo de um blob; null se não existir. */
+  readBlob(collection: string, name: string): Promise<Buffer | null>;
+  /** Escrita atómica de um blob. */
+  writeBlob(collection: string, name: string, data: Buffer): Promise<void>;
+  /** Remove o blob; devolve false se não existia. */
+  deleteBlob(collection: string, name: string): Promise<boolean>;
+  /** Nomes dos blobs de uma coleção. */
+  listBlobs(collection: string): Promise<string[]>;
+}
+
+/* ---------- Implementação: diretório de ficheiros JSON ---------- */
+export class JsonDirStorage implements StorageAdapter {
+  readonly driver = "json" as const;
+
+  constructor(readonly dataDir: string) {
+    if (!fssync.existsSync(dataDir)) fssync.mkdirSync(dataDir, { recursive: true });
+  }
+
+  private dirFor(collection: string) {
+    return collection ? path.join(this.dataDir, collection) : this.dataDir;
+  }
+
+  private fileFor(collection: string, id: string) {
+    return path.join(this.dirFor(collection), `${id}.json`);
+  }
+
+  async readDoc(collection: string, id: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.fileFor(collection, id), "utf8");
+    } catch (e: any) {
+      if (e?.code === "ENOENT") return null;
+      throw e;
+    }
+  }
+
+  async writeDoc(collection: string, id: string, json: string): Promise<void> {
+    const dir = this.dirFor(collection);
+    await fs.mkdir(dir, { recursive: true });
+    const filePath = this.fileFor(collection, id);
+    const tmp = `${filePath}.tmp-${nanoid(6)}`;
+    await fs.writeFile(tmp, json, "utf8");
+    await fs.rename(tmp, filePath);
+  }
+
+  async deleteDoc(collection: string, id: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.fileFor(collection, id));
+      return true;
+    } catch (e: any) {
+      if (e?.code === "ENOENT") return false;
+      throw e;
+    }
+  }
+
+  async listDocs(collection: string): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dirFor(collection));
+    } catch (e: any) {
+      if (e?.code === "ENOENT") return [];
+      throw e;
+    }
+    return files
+      .filter(f => f.endsWith(".json"))
+      .map(f => path.basename(f, ".json"));
+  }
+
+  async quarantineDoc(collection: string, id: string): Promise<void> {
+    const filePath = this.fileFor(collection, id);
+    try {
+      await fs.rename(filePath, `${filePath}.corrupt-${Date.now()}`);
+    } catch (e: any) {
+      if (e?.code !== "ENOENT") throw e;
+    }
+  }
+
+  async readBlob(collection: string, name: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(path.join(this.dirFor(collection), name));
+    } catch (e: any) {
+      if (e?.code === "ENOENT") return null;
+      throw e;
+    }
+  }
+
+  async writeBlob(collection: string, name: string, data: Buffer): Promise<void> {
+    const dir = this.dirFor(collection);
+    await fs.mkdir(dir, { recursive: true });
+    const filePath = path.join(dir, name);
+    const tmp = `${filePath}.tmp-${nanoid(6)}`;
+    await fs.writeFile(tmp, data);
+    await fs.rename(tmp, filePath);
+  }
+
+  async deleteBlob(collection: string, name: string): Promise<boolean> {
+    try {
+      await fs.unlink(path.join(this.dirFor(collection), name));
+      return true;
+    } catch (e: any) {
+      if (e?.code === "ENOENT") return false;
+      throw e;
+    }
+  }
+
+  async listBlobs(collection: string): Promise<string[]> {
+    try {
+      return (await fs.readdir(this.dirFor(collection))).filter(f => !f.includes(".tmp-"));
+    } catch (e: any) {
+      if (e?.code === "ENOENT") return [];
+      throw e;
+    }
+  }
+}
+
+/* ---------- Implementação: memória (testes / dev efémero) ---------- */
+export class MemoryStorage implements StorageAdapter {
+  readonly driver = "memory" as const;
+  private collections = new Map<string, Map<string, string>>();
+  /** Documentos postos de lado por `quarantineDoc` (chave `<coleção>/<id>`). */
+  readonly quarantined = new Map<string, string>();
+  private blobs = new Map<string, Map<string, Buffer>>();
+
+  private col(collection: string) {
+    let c = this.collections.get(collection);
+    if (!c) {
+      c = new Map();
+      this.collections.set(collection, c);
+    }
+    return c;
+  }
+
+  async readDoc(collection: string, id: string): Promise<string | null> {
+    return this.col(collection).get(id) ?? null;
+  }
+
+  async writeDoc(collection: string, id: string, json: string): Promise<void> {
+    this.col(collection).set(id, json);
+  }
+
+  async deleteDoc(collection: string, id: string): Promise<boolean> {
+    return this.col(collection).delete(id);
+  }
+
+  async listDocs(collection: string): Promise<string[]> {
+    return Array.from(this.col(collection).keys());
+  }
+
+  async quarantineDoc(collection: string, id: string): Promise<void> {
+    const raw = this.col(collection).get(id);
+    if (raw === undefined) return;
+    this.quarantined.set(`${collection}/${id}`, raw);
+    this.col(collection).delete(id);
+  }
+
+  private blobCol(collection: string) {
+    let c = this.blobs.get(collection);
+    if (!c) {
+      c = new Map();
+      this.blobs.set(collection, c);
+    }
+    return c;
+  }
+
+  async readBlob(collection: string, name: string): Promise<Buffer | null> {
+    const data = this.blobCol(collection).get(name);
+    return data ? Buffer.from(data) : null;
+  }
+
+  async writeBlob(collection: string, name: string, data: Buffer): Promise<void> {
+    this.blobCol(collection).set(name, Buffer.from(data));
+  }
+
+  async deleteBlob(collection: string, name: string): Promise<boolean> {
+    return this.blobCol(collection).delete(name);
+  }
+
+  async listBlobs(collection: string): Promise<string[]> {
+    return Array.from(this.blobCol(collection).keys());
+  }
+}
+
+/* ---------- Seleção (via config) ---------- */
+let current: StorageAdapter | null = null;
+
+export function createStorage(driver: StorageDriver = config.storage.driver): StorageAdapter {
+  return driver === "memory" ? new MemoryStorage() : new JsonDirStorage(config.storage.dataDir);
+}
+
+/** Adapter ativo; criado na primeira utilização a partir de `config.storage`. */
+export function getStorage(): StorageAdapter {
+  if (!current) current = createStorage();
+  return current;
+}
+
+/** Troca o adapter ativo (testes, migrações). Quem tiver caches deve reconstruí-las. */
+export function setStorage(adapter: StorageAdapter) {
+  current = adapter;
+}
+
+/* ---------- Barreira de escrita (snapshots consistentes) ---------- */
+let writesPaused: Promise<void> | null = null;
+let inFlight = 0;
+let onDrained: (() => void) | null = null;
+
+/**
+ * Executa uma escrita respeitando a barreira: se houver um snapshot/restore em curso,
+ * espera que termine. Usado por `store.ts` e `accountStore.ts` em todas as escritas.
+ */
+export async function gatedWrite<T>(fn: () => Promise<T>): Promise<T> {
+  while (writesPaused) await writesPaused;
+  inFlight += 1;
+  try {
+    return await fn();
+  } finally {
+    inFlight -= 1;
+    if (inFlight === 0 && onDrained) onDrained();
+  }
+}
+
+/**
+ * Suspende novas escritas, espera pelas que estão em curso e corre `fn` com o dataset estável.
+ * Dentro de `fn` escreve-se diretamente no adapter (não via `gatedWrite`, que bloquearia).
+ */
+export async function withWritesPaused<T>(fn: () => Promise<T>): Promise<T> {
+  while (writesPaused) await writesPaused;
+  let release!: () => void;
+  writesPaused = new Promise<void>((r) => (release = r));
+  try {
+    if (inFlight > 0) await new Promise<void>((r) => (onDrained = r));
+    onDrained = null;
+    return await fn();
+  } finally {
+    writesPaused = null;
+    release();
+  }
+}
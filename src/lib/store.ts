@@ -1,19 +1,19 @@
 // src/lib/store.ts
-import fs from "fs/promises";
-import fssync from "fs";
-import path from "path";
+import crypto from "crypto";
 import { nanoid } from "nanoid";
+import { getStorage, gatedWrite } from "./storage";
+import { CURRENT_SCHEMA_VERSION, migrateUserDoc, UserMigrationError } from "./migrations";
+import { publishStoreEvent, redactUser } from "./events";
+import type { EmitFn, StoreEventPayload } from "./events";
+import { attachJournal } from "./journal";
+import { cardMediaIds, mediaHash, MEDIA_TYPES, sniffMime } from "./media";
+import config from "../config";
 
-/* ---------- Paths & bootstrap ---------- */
-const DATA_DIR = path.join(process.cwd(), "data");
-const USERS_DIR = path.join(DATA_DIR, "users");
+// todas as mutações publicadas vão para o journal (no-op se JOURNAL_ENABLED=0)
+attachJournal();
 
-function ensureDirs() {
-  for (const dir of [DATA_DIR, USERS_DIR]) {
-    if (!fssync.existsSync(dir)) fssync.mkdirSync(dir, { recursive: true });
-  }
-}
-ensureDirs();
+/* ---------- Coleções ---------- */
+const USERS = "users";
 
 /* ---------- Tipos principais (MVP) ---------- */
 export type CardType =
@@ -31,13 +31,29 @@ export interface Card {
   data_json: unknown;
   time_limit_sec?: number;
   hint?: string;
+  media?: CardMedia;         // imagem/som do enunciado (as opções de MCQ também podem ter `media`)
+}
+
+/** Imagem e/ou áudio: ids (sha256) de `UserFile.media` do dono do deck. */
+export interface CardMedia {
+  image?: string;
+  audio?: string;
+}
+
+/** Ficheiro de media carregado pelo utilizador (o conteúdo está em `data/media/<userId>/<id>`). */
+export interface MediaEntry {
+  id: string;                // sha256 do conteúdo
+  mime: string;              // detetado pelos bytes (ver `sniffMime`)
+  size: number;              // bytes
+  name?: string;             // nome original do ficheiro
+  createdAt: string;         // ISO
 }
 
 // Permitir cards sem id no input (será gerado no upsert)
 export type CardInput = Omit<Card, "id"> & { id?: string };
 
 // Deck de entrada: cards podem vir sem id
-export type DeckInput = Omit<Deck, "id" | "createdAt" | "updatedAt" | "cards"> & {
+export type DeckInput = Omit<Deck, "id" | "rev" | "createdAt" | "updatedAt" | "cards"> & {
   id?: string;
   cards: CardInput[];
 };
@@ -48,7 +64,8 @@ export interface TopicPath {
   subsubtheme?: string;
 }
 
-export type Visibility = "PUBLIC" | "PRIVATE";
+/** PUBLIC: catálogo e pesquisa; UNLISTED: só quem tem o link (id do deck); PRIVATE: dono e share links. */
+export type Visibility = "PUBLIC" | "UNLISTED" | "PRIVATE";
 
 export interface Deck {
   id: string;
@@ -56,19 +73,120 @@ export interface Deck {
   topic: TopicPath;
   visibility: Visibility;
   tags?: string[];
+  rev: number;               // incrementa a cada alteração do deck (If-Match nas rotas de cards)
   createdAt: string;
   updatedAt: string;
   cards: Card[];
+  forkedFrom?: DeckForkRef;  // só em forks (ver `forkDeck`)
+  shares?: DeckShare[];      // share links ativos (ver `createDeckShare`)
+  collaborators?: DeckCollaborator[]; // co-autores (o deck continua guardado no ficheiro do dono)
+}
+
+/** EDITOR: edita cards e o deck (upsert) como o dono; VIEWER: só lê (mesmo se PRIVATE). */
+export type DeckRole = "EDITOR" | "VIEWER";
+
+export interface DeckCollaborator {
+  userId: string;
+  username: string;
+  role: DeckRole;
+  addedAt: string;           // ISO
+}
+
+/** Share link de um deck: dá acesso de leitura/estudo/battle sem o tornar público. */
+export interface DeckShare {
+  id: string;
+  tokenHash: string;         // sha256 do token (o token só é mostrado na criação)
+  label?: string;
+  createdAt: string;         // ISO
+  expiresAt?: string;        // ISO
+}
+
+/** Autor de um deck (para atribuição). */
+export interface DeckAuthor {
+  userId: string;
+  username: string;
+}
+
+/** Card da origem <-> card do fork, com a impressão do conteúdo da origem na última sincronização. */
+export interface ForkCardLink {
+  source: string;            // cardId na origem
+  card: string | null;       // cardId no fork (null: não foi trazido)
+  base: string;              // `cardFingerprint` do card da origem quando foi copiado/puxado
+}
+
+/** Origem de um fork: crédito ao autor + estado para detetar alterações a montante. */
+export interface DeckForkRef {
+  deckId: string;
+  owner: DeckAuthor;
+  rev: number;               // rev da origem na última sincronização (fork ou pull)
+  forkedAt: string;          // ISO
+  syncedAt: string;          // ISO
+  origin?: { deckId: string; owner: DeckAuthor }; // 1.º autor, quando a origem também é um fork
+  cards: ForkCardLink[];
 }
 
 export type Rating = "VERY_HARD" | "HARD" | "MEDIUM" | "EASY";
 
+/** Como o solo agenda a próxima revisão (ver src/lib/scheduler.ts). */
+export type SoloScheduler = "manual" | "sm2" | "fsrs";
+
+/** Contagem das respostas de um dia: cards vistos pela 1.ª vez e revisões. */
+export interface StudyDay {
+  day: string;               // YYYY-MM-DD (UTC)
+  newCards: number;
+  reviews: number;
+}
+
+/** Estado dos agendadores automáticos (SM-2 e FSRS partilham `reps`/`lapses`/`intervalDays`). */
+export interface SchedulerState {
+  reps: number;              // acertos seguidos (0 depois de uma falha)
+  lapses: number;            // falhas depois de o card já ter sido aprendido
+  intervalDays: number;      // último intervalo agendado (0 = em reaprendizagem)
+  ease?: number;             // SM-2: fator de facilidade (≥ 1.3)
+  stability?: number;        // FSRS: dias até a probabilidade de lembrar cair para 90%
+  difficulty?: number;       // FSRS: 1–10
+}
+
 export interface ProgressEntry {
   lastAnswerAt?: string;     // ISO
-  nextReviewAt?: string;     // ISO (modo solo manual -> quando o user escolhe)
+  nextReviewAt?: string;     // ISO (calculado pelo agendador escolhido em prefs.solo.scheduler)
   lastRating?: Rating;
   timesAnswered: number;
   timesCorrect: number;
+  srs?: SchedulerState;      // só com os agendadores sm2/fsrs
+}
+
+/** Avaliação (1–5 estrelas) que o utilizador deu a um deck público de outra pessoa. */
+export interface DeckRating {
+  stars: number;
+  at: string;                // ISO
+}
+
+/** Conteúdo de um deck numa revisão (o que `restoreDeckRevision` repõe). */
+export type DeckSnapshot = Pick<Deck, "title" | "topic" | "visibility" | "cards"> & { tags: string[] };
+
+/** O que mudou numa revisão face à anterior. */
+export interface DeckRevisionChanges {
+  added: string[];           // cardIds
+  changed: string[];
+  removed: string[];         // inclui cards movidos para outro deck
+  fields: string[];          // title / topic / visibility / tags
+  reordered: boolean;
+}
+
+/** Uma gravação de um deck (ver `recordDeckRevision`). */
+export interface DeckRevision {
+  rev: number;               // `Deck.rev` depois da gravação
+  at: string;                // ISO
+  by: string;                // userId de quem gravou
+  changes: DeckRevisionChanges;
+  deck: DeckSnapshot;
+}
+
+/** Progresso guardado quando o card deixa de existir (ver `archiveProgress`). */
+export interface ArchivedProgress extends ProgressEntry {
+  deckId: string;
+  archivedAt: string;        // ISO
 }
 
 export interface Transaction {
@@ -83,8 +201,10 @@ export interface Transaction {
 export interface UserFile {
   id: string;                // nanoid
   username: string;          // único no MVP
+  schemaVersion: number;     // ver src/lib/migrations.ts
   createdAt: string;         // ISO
   updatedAt: string;         // ISO
+  rev?: number;              // incrementa a cada escrita (controlo otimista)
 
   profile: {
     displayName?: string;
@@ -98,7 +218,12 @@ export interface UserFile {
     theme: "light" | "dark" | "system";
     notifications: { email: boolean; push: boolean };
     solo: {
-      intervals: {           // segundos (manual & configurável)
+      scheduler: SoloScheduler; // "manual" por defeito
+      daily: {               // limites do plano diário (fila global do solo)
+        newCards: number;    // cards novos por dia (20)
+        reviews: number;     // revisões por dia (200)
+      };
+      intervals: {           // segundos (manual & configurável; também a reaprendizagem no sm2/fsrs)
         VERY_HARD: number;   // 30s
         HARD: number;        // 3m
         MEDIUM: number;      // 1h
@@ -115,56 +240,82 @@ export interface UserFile {
   decks: Deck[];             // decks do próprio utilizador
 
   progress: Record<string, ProgressEntry>; // por cardId (qualquer deck estudado)
+  progressArchive: Record<string, ArchivedProgress>; // progresso de cards removidos dos decks do próprio
+  deckRatings: Record<string, DeckRating>;            // por deckId (decks de outros)
+  deckRevisions: Record<string, DeckRevision[]>;       // por deckId dos decks do próprio, mais antiga primeiro
+  media: Record<string, MediaEntry>;                   // por id (sha256); referidos pelos cards dos decks do próprio
 
   friends: { accepted: string[]; pending: string[] };
 
-  stats: { answersTotal: number; correctTotal: number; streakBest: number };
+  stats: {
+    answersTotal: number;
+    correctTotal: number;
+    streakBest: number;
+    today?: StudyDay;        // respostas do dia (UTC) para os limites de prefs.solo.daily
+  };
 
   auth: {
-    deviceSecrets: string[];          // login antigo (continua a existir)
-    // --- novos campos para contas por email/senha ---
-    email?: string;
-    passwordHash?: string;
-    emailVerified?: boolean;
-    verifyToken?: string;
-    verifyTokenExpires?: string;      // ISO
-    resetToken?: string;
-    resetTokenExpires?: string;       // ISO
+    deviceSecrets: string[];          // sessões por dispositivo (x-device-secret)
+    // credenciais email/password vivem só em accounts.json (accountStore);
+    // cópias antigas ficam aqui até `npm run reconcile-accounts -- --fix` as consumir
+    legacyCredentials?: LegacyCredentials;
   };
 }
 
+/** Campos de credenciais que builds antigos gravavam em `UserFile.auth` (migração v4). */
+export interface LegacyCredentials {
+  email?: string;
+  passwordHash?: string;
+  emailVerified?: boolean;
+  verifyToken?: string;
+  verifyTokenExpires?: string;      // ISO
+  resetToken?: string;
+  resetTokenExpires?: string;       // ISO
+}
+
 /* ---------- Helpers privados ---------- */
-function userFilePath(userId: string) {
-  return path.join(USERS_DIR, `${userId}.json`);
+function nowISO() {
+  return new Date().toISOString();
 }
 
-async function writeJSONAtomic(filePath: string, data: unknown) {
-  const tmp = `${filePath}.tmp-${nanoid(6)}`;
-  const json = JSON.stringify(data, null, 2);
-  await fs.writeFile(tmp, json, "utf8");
-  await fs.rename(tmp, filePath);
+/** Identifica um deviceSecret nos eventos sem o expor (o journal não guarda segredos). */
+export function secretHash(secret: string) {
+  return crypto.createHash("sha256").update(secret).digest("hex").slice(0, 16);
 }
 
-function nowISO() {
-  return new Date().toISOString();
+/** Hash completo de um token de acesso (share links); o token em si nunca é gravado. */
+function tokenHash(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/** Lê e faz parse do JSON bruto; null se não existir (lança se o JSON estiver partido). */
+async function readUserRaw(userId: string): Promise<unknown | null> {
+  const raw = await getStorage().readDoc(USERS, userId);
+  return raw === null ? null : JSON.parse(raw);
 }
 
-/** Lê e faz parse do JSON, devolve null se estiver corrompido (sem rebentar scans). */
-async function safeReadUser(filePath: string): Promise<UserFile | null> {
+/**
+ * Lê um utilizador e aplica as migrações em falta (em memória; ficam gravadas na próxima escrita).
+ * Devolve null se estiver corrompido ou não for reparável (sem rebentar scans).
+ */
+async function safeReadUser(userId: string): Promise<UserFile | null> {
   try {
-    const raw = await fs.readFile(filePath, "utf8");
-    const u = JSON.parse(raw) as UserFile;
-    // guarda mínima
-    if (!u || typeof u !== "object" || typeof u.id !== "string" || typeof u.username !== "string") {
-      if (process.env.LOG_LEVEL === "debug") {
-        console.warn(`[store] invalid shape in ${path.basename(filePath)}`);
-      }
-      return null;
+    const raw = (await readUserRaw(userId)) as UserFile | null;
+    if (raw === null) return null;
+    // caminho rápido: já está na versão atual -> só a guarda mínima
+    if (raw.schemaVersion === CURRENT_SCHEMA_VERSION) {
+      if (typeof raw.id === "string" && typeof raw.username === "string") return raw;
+      throw new UserMigrationError(userId, ["id/username missing"]);
+    }
+    const { user, fromVersion } = migrateUserDoc(raw, userId);
+    if (process.env.LOG_LEVEL === "debug") {
+      console.warn(`[store] migrated ${userId}.json v${fromVersion} -> v${CURRENT_SCHEMA_VERSION} (in memory)`);
     }
-    return u;
+    return user;
   } catch (e: any) {
     if (process.env.LOG_LEVEL === "debug") {
-      console.warn(`[store] skip unreadable ${path.basename(filePath)}:`, e?.message || e);
+      const why = e instanceof UserMigrationError ? e.issues.join("; ") : e?.message || e;
+      console.warn(`[store] skip unreadable ${userId}.json:`, why);
     }
     return null;
   }
@@ -176,14 +327,18 @@ export function defaultUser(username: string): UserFile {
   return {
     id: nanoid(12),
     username,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     createdAt: ts,
     updatedAt: ts,
+    rev: 0,
     profile: { privacy: "PUBLIC" },
     prefs: {
       language: "pt-PT",
       theme: "system",
       notifications: { email: false, push: false },
       solo: {
+        scheduler: "manual",
+        daily: { newCards: 20, reviews: 200 },
         intervals: {
           VERY_HARD: 30,
           HARD: 3 * 60,
@@ -195,204 +350,1468 @@ export function defaultUser(username: string): UserFile {
     wallet: { balance: 0, transactions: [] },
     decks: [],
     progress: {},
+    progressArchive: {},
+    deckRatings: {},
+    deckRevisions: {},
+    media: {},
     friends: { accepted: [], pending: [] },
     stats: { answersTotal: 0, correctTotal: 0, streakBest: 0 },
-    auth: { deviceSecrets: [], emailVerified: false }
+    auth: { deviceSecrets: [] }
+  };
+}
+
+/* ---------- Índices em memória ---------- */
+export interface PublicDeckEntry {
+  deck: Deck;
+  owner: { userId: string; username: string };
+}
+
+/** Atividade da comunidade num deck público (derivada dos ficheiros de todos os utilizadores). */
+export interface DeckStats {
+  answers: number;           // respostas em modo solo (soma de timesAnswered)
+  players: number;           // utilizadores com pelo menos uma resposta
+  ratingAvg: number | null;  // média das estrelas (null sem avaliações)
+  ratingCount: number;
+}
+
+/**
+ * Índices construídos no arranque (scan único a data/users) e atualizados a cada escrita.
+ * `byUser` guarda as chaves atuais de cada utilizador para as remover quando mudam, e a
+ * atividade dele (respostas por card, estrelas por deck) para as stats dos decks públicos.
+ * (Lookups por email são do accountStore, que é a fonte das credenciais.)
+ */
+interface StoreIndex {
+  usernames: Map<string, string>;            // usernameLower -> userId
+  deckOwners: Map<string, string>;           // deckId -> ownerId
+  publicDecks: Map<string, PublicDeckEntry>; // deckId -> catálogo público
+  cardDecks: Map<string, string>;            // cardId -> deckId (só decks públicos)
+  sharedDecks: Map<string, Set<string>>;     // userId -> decks de outros em que é colaborador
+  byUser: Map<string, IndexedUser>;
+  stats: Map<string, DeckStats> | null;      // cache de `publicDeckStats`; null = por recalcular
+}
+
+interface IndexedUser {
+  usernameLower: string;
+  deckIds: string[];
+  cardIds: string[];                         // cards dos decks públicos do utilizador
+  collaborators: Array<[userId: string, deckId: string]>;
+  answered: Array<[cardId: string, times: number]>;
+  ratings: Array<[deckId: string, stars: number]>;
+}
+
+let index: StoreIndex | null = null;
+let indexBuilding: Promise<StoreIndex> | null = null;
+
+function emptyIndex(): StoreIndex {
+  return {
+    usernames: new Map(),
+    deckOwners: new Map(),
+    publicDecks: new Map(),
+    cardDecks: new Map(),
+    sharedDecks: new Map(),
+    byUser: new Map(),
+    stats: null,
   };
 }
 
+function unindexUser(idx: StoreIndex, userId: string) {
+  const prev = idx.byUser.get(userId);
+  if (!prev) return;
+  if (idx.usernames.get(prev.usernameLower) === userId) idx.usernames.delete(prev.usernameLower);
+  for (const deckId of prev.deckIds) {
+    if (idx.deckOwners.get(deckId) === userId) idx.deckOwners.delete(deckId);
+    if (idx.publicDecks.get(deckId)?.owner.userId === userId) idx.publicDecks.delete(deckId);
+  }
+  const mine = new Set(prev.deckIds);
+  for (const cardId of prev.cardIds) {
+    if (mine.has(idx.cardDecks.get(cardId) ?? "")) idx.cardDecks.delete(cardId);
+  }
+  for (const [collaboratorId, deckId] of prev.collaborators) {
+    const set = idx.sharedDecks.get(collaboratorId);
+    set?.delete(deckId);
+    if (set?.size === 0) idx.sharedDecks.delete(collaboratorId);
+  }
+  idx.byUser.delete(userId);
+  idx.stats = null;
+}
+
+function indexUserInto(idx: StoreIndex, u: UserFile) {
+  unindexUser(idx, u.id);
+  const usernameLower = u.username.toLowerCase();
+  idx.usernames.set(usernameLower, u.id);
+  const cardIds: string[] = [];
+  const collaborators: Array<[string, string]> = [];
+  for (const d of u.decks) {
+    idx.deckOwners.set(d.id, u.id);
+    for (const c of d.collaborators ?? []) {
+      let set = idx.sharedDecks.get(c.userId);
+      if (!set) idx.sharedDecks.set(c.userId, (set = new Set()));
+      set.add(d.id);
+      collaborators.push([c.userId, d.id]);
+    }
+    if (d.visibility === "PUBLIC") {
+      idx.publicDecks.set(d.id, { deck: d, owner: { userId: u.id, username: u.username } });
+      for (const c of d.cards) {
+        idx.cardDecks.set(c.id, d.id);
+        cardIds.push(c.id);
+      }
+    }
+  }
+  idx.byUser.set(u.id, {
+    usernameLower,
+    deckIds: u.decks.map(d => d.id),
+    cardIds,
+    collaborators,
+    answered: Object.entries(u.progress ?? {}).map(([cardId, p]) => [cardId, p.timesAnswered]),
+    ratings: Object.entries(u.deckRatings ?? {}).map(([deckId, r]) => [deckId, r.stars]),
+  });
+  idx.stats = null;
+}
+
+/** Atualiza os índices após uma escrita (no-op se ainda não foram construídos). */
+function reindexUser(u: UserFile) {
+  if (index) indexUserInto(index, u);
+}
+
+/** (Re)constrói os índices lendo todos os ficheiros de data/users. */
+export async function rebuildIndex(): Promise<void> {
+  const build = (async () => {
+    const idx = emptyIndex();
+    for (const userId of await listUserIds()) {
+      const u = await safeReadUser(userId);
+      if (u) indexUserInto(idx, u);
+    }
+    index = idx;
+    return idx;
+  })();
+  indexBuilding = build;
+  try {
+    await build;
+  } finally {
+    if (indexBuilding === build) indexBuilding = null;
+  }
+}
+
+async function getIndex(): Promise<StoreIndex> {
+  if (index) return index;
+  if (!indexBuilding) await rebuildIndex();
+  else await indexBuilding;
+  return index!;
+}
+
+/* ---------- Serialização por utilizador ---------- */
+/**
+ * Fila por userId: cada mutação espera pela anterior do mesmo utilizador.
+ * Evita o padrão load → mutate → save de dois pedidos concorrentes
+ * em que o último a gravar apaga as alterações do outro.
+ */
+const userQueues = new Map<string, Promise<unknown>>();
+
+function withUserLock<T>(userId: string, fn: () => Promise<T>): Promise<T> {
+  const prev = userQueues.get(userId) ?? Promise.resolve();
+  const run = prev.then(fn, fn);
+  const tail = run.catch(() => undefined);
+  userQueues.set(userId, tail);
+  tail.then(() => {
+    if (userQueues.get(userId) === tail) userQueues.delete(userId);
+  });
+  return run;
+}
+
+/** Nº máximo de tentativas quando outro processo gravou entretanto (rev diferente). */
+const MAX_UPDATE_ATTEMPTS = 3;
+
+async function readRev(userId: string): Promise<number | null> {
+  const current = (await readUserRaw(userId)) as { rev?: number } | null;
+  return current ? current.rev ?? 0 : null;
+}
+
+/**
+ * Grava sem lock; falha com USER_CONFLICT se o ficheiro mudou desde a leitura.
+ * A verificação do rev fica dentro da barreira: uma escrita que esperou por um restore
+ * compara com o rev restaurado (e falha) em vez de o apagar com dados antigos.
+ */
+async function writeUserChecked(user: UserFile, expectedRev: number | null): Promise<void> {
+  await gatedWrite(async () => {
+    const diskRev = await readRev(user.id);
+    if (diskRev !== expectedRev) throw new Error("USER_CONFLICT");
+    user.schemaVersion = CURRENT_SCHEMA_VERSION;
+    user.rev = (expectedRev ?? 0) + 1;
+    user.updatedAt = nowISO();
+    await getStorage().writeDoc(USERS, user.id, JSON.stringify(user, null, 2));
+  });
+  reindexUser(user);
+}
+
+let createQueue: Promise<unknown> = Promise.resolve();
+
+/** Serializa criações de utilizadores: a verificação do username e a escrita não se intercalam. */
+function withCreateLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = createQueue.then(fn, fn);
+  createQueue = run.catch(() => undefined);
+  return run;
+}
+
 /* ---------- API do storage (usada pelas rotas) ---------- */
 export async function createUser(username: string): Promise<UserFile> {
-  const existing = await findUserByUsername(username);
-  if (existing) throw new Error("USERNAME_TAKEN");
-  const user = defaultUser(username);
-  await saveUser(user);
+  const user = await withCreateLock(async () => {
+    const existing = await findUserByUsername(username);
+    if (existing) throw new Error("USERNAME_TAKEN");
+    const user = defaultUser(username);
+    await saveUser(user);
+    return user;
+  });
+  publishStoreEvent(user.id, { type: "user.created", user: redactUser(user) }, user.rev);
   return user;
 }
 
+/** Apaga o user.json (desfaz um registo que falhou a meio; media e journal ficam como estão). */
+export async function deleteUser(userId: string): Promise<boolean> {
+  return withUserLock(userId, async () => {
+    const existed = (await readUserRaw(userId)) !== null;
+    await gatedWrite(() => getStorage().deleteDoc(USERS, userId));
+    if (index) unindexUser(index, userId);
+    return existed;
+  });
+}
+
 export async function addDeviceSecret(userId: string): Promise<string> {
-  const user = await loadUser(userId);
-  if (!user) throw new Error("USER_NOT_FOUND");
   const secret = nanoid(32);
-  user.auth.deviceSecrets.push(secret);
-  user.updatedAt = nowISO();
-  await saveUser(user);
+  await updateUser(userId, (user, emit) => {
+    user.auth.deviceSecrets.push(secret);
+    emit({ type: "auth.changed", action: "device_added", secretHash: secretHash(secret) });
+  });
   return secret;
 }
 
 export async function loadUser(userId: string): Promise<UserFile | null> {
-  try {
-    const raw = await fs.readFile(userFilePath(userId), "utf8");
-    return JSON.parse(raw) as UserFile;
-  } catch {
-    return null;
-  }
+  return safeReadUser(userId);
+}
+
+/**
+ * Mutação atómica de um utilizador: lê a versão mais recente, aplica o `mutator`
+ * e grava, tudo dentro da fila desse userId. Devolve o que o mutator devolver.
+ *
+ * O mutator não deve chamar `updateUser` para o mesmo utilizador (deadlock);
+ * usa os helpers puros (`applyTransaction`, …) dentro dele.
+ *
+ * O mutator declara o que mudou via `emit`; os eventos só são publicados (bus + journal)
+ * depois de a escrita ser gravada, e os de tentativas falhadas são descartados.
+ */
+export async function updateUser<T>(
+  userId: string,
+  mutator: (user: UserFile, emit: EmitFn) => T | Promise<T>
+): Promise<T> {
+  return withUserLock(userId, async () => {
+    for (let attempt = 1; ; attempt++) {
+      const user = await loadUser(userId);
+      if (!user) throw new Error("USER_NOT_FOUND");
+      const expectedRev = user.rev ?? 0;
+      const pending: StoreEventPayload[] = [];
+      // clone: o payload fica com o estado do momento do emit
+      const result = await mutator(user, (e) => pending.push(structuredClone(e)));
+      trackDeckRevisions(user, pending);
+      try {
+        await writeUserChecked(user, expectedRev);
+        for (const e of pending) publishStoreEvent(userId, e, user.rev);
+        return result;
+      } catch (e: any) {
+        if (e?.message !== "USER_CONFLICT" || attempt >= MAX_UPDATE_ATTEMPTS) throw e;
+      }
+    }
+  });
 }
 
+/**
+ * Grava um UserFile completo. Só aceita a escrita se o `rev` em memória coincidir
+ * com o do disco (senão lança USER_CONFLICT em vez de apagar escritas alheias).
+ * Para alterar um utilizador existente prefere `updateUser`.
+ */
 export async function saveUser(user: UserFile): Promise<void> {
-  user.updatedAt = nowISO();
-  await writeJSONAtomic(userFilePath(user.id), user);
+  await withUserLock(user.id, async () => {
+    const diskRev = await readRev(user.id);
+    const expected = diskRev === null ? null : user.rev ?? 0;
+    await writeUserChecked(user, expected);
+  });
 }
 
 export async function listUserIds(): Promise<string[]> {
-  const files = await fs.readdir(USERS_DIR);
-  return files
-    .filter(f => f.endsWith(".json"))
-    .map(f => path.basename(f, ".json"));
+  return getStorage().listDocs(USERS);
 }
 
-export async function findUserByUsername(username: string): Promise<UserFile | null> {
-  const files = await fs.readdir(USERS_DIR);
-  const target = username.toLowerCase();
-  for (const f of files) {
-    if (!f.endsWith(".json")) continue;
-    const u = await safeReadUser(path.join(USERS_DIR, f));
-    if (!u) continue;
-    if (u.username.toLowerCase() === target) return u;
+/** Carrega o utilizador apontado pelo índice, confirmando que a chave ainda corresponde. */
+async function loadIndexed(
+  userId: string | undefined,
+  matches: (u: UserFile) => boolean
+): Promise<UserFile | null> {
+  if (!userId) return null;
+  const u = await loadUser(userId);
+  if (u && matches(u)) return u;
+  // índice desatualizado (ficheiro removido/alterado fora deste processo)
+  if (index) {
+    if (u) indexUserInto(index, u);
+    else unindexUser(index, userId);
   }
   return null;
 }
 
-export async function findUserByEmail(email: string): Promise<UserFile | null> {
-  const files = await fs.readdir(USERS_DIR);
-  const target = email.trim().toLowerCase();
-  for (const f of files) {
-    if (!f.endsWith(".json")) continue;
-    const u = await safeReadUser(path.join(USERS_DIR, f));
-    if (!u) continue;
-    const e = u.auth?.email?.toLowerCase();
-    if (e && e === target) return u;
-  }
-  return null;
+export async function findUserByUsername(username: string): Promise<UserFile | null> {
+  const idx = await getIndex();
+  const target = username.toLowerCase();
+  return loadIndexed(idx.usernames.get(target), (u) => u.username.toLowerCase() === target);
 }
 
-export async function upsertDeck(
-  userId: string,
-  deck: DeckInput
-): Promise<Deck> {
-  const user = await loadUser(userId);
-  if (!user) throw new Error("USER_NOT_FOUND");
+/** Procura um deck em toda a comunidade (via índice deckId -> owner). Não verifica visibilidade. */
+export async function findDeck(deckId: string): Promise<{ deck: Deck; owner: UserFile } | null> {
+  const idx = await getIndex();
+  let deck: Deck | undefined;
+  const owner = await loadIndexed(idx.deckOwners.get(deckId), (u) => {
+    deck = u.decks.find(d => d.id === deckId);
+    return !!deck;
+  });
+  return owner && deck ? { deck, owner } : null;
+}
+
+/* ---------- Decks: acesso ---------- */
+/** Nível de acesso de quem pede um deck (null: nenhum). */
+export type DeckAccess = "owner" | "editor" | "read";
+
+/** Quem está a pedir: utilizador autenticado (opcional) e/ou token de um share link. */
+export interface DeckViewer {
+  userId?: string;
+  share?: string;
+}
+
+function activeShare(deck: Deck, token: string | undefined, now = new Date()): DeckShare | undefined {
+  if (!token) return undefined;
+  const hash = tokenHash(token);
+  return deck.shares?.find(s => s.tokenHash === hash && (!s.expiresAt || new Date(s.expiresAt) > now));
+}
 
-  const now = nowISO();
-  const normCards: Card[] = (deck.cards ?? []).map((c) => ({
-    id: c.id ?? nanoid(10),
+export function collaboratorRole(deck: Deck, userId: string | undefined): DeckRole | undefined {
+  return userId ? deck.collaborators?.find(c => c.userId === userId)?.role : undefined;
+}
+
+/**
+ * Acesso a um deck: o dono tem tudo; colaboradores EDITOR editam e VIEWER leem; PUBLIC e UNLISTED
+ * leem-se por qualquer um; PRIVATE só com um share link válido. "read" cobre ver, exportar,
+ * estudar (solo) e usar em battles.
+ */
+export function deckAccess(found: { deck: Deck; owner: UserFile }, viewer: DeckViewer): DeckAccess | null {
+  if (viewer.userId && viewer.userId === found.owner.id) return "owner";
+  const role = collaboratorRole(found.deck, viewer.userId);
+  if (role === "EDITOR") return "editor";
+  if (role === "VIEWER" || found.deck.visibility !== "PRIVATE") return "read";
+  return activeShare(found.deck, viewer.share) ? "read" : null;
+}
+
+/* ---------- Decks: merge de cards ---------- */
+/** Resultado de um upsert: ids dos cards adicionados/alterados/removidos face à versão anterior. */
+export interface DeckDiff {
+  added: string[];
+  changed: string[];
+  removed: string[];
+  unchanged: number;
+  movedOut?: string[];       // saíram para outro deck do mesmo user (progresso mantém-se)
+}
+
+export interface DeckUpsertResult {
+  deck: Deck;
+  diff: DeckDiff;
+  created: boolean;
+}
+
+function toCard(id: string, c: CardInput): Card {
+  return {
+    id,
     type: c.type,
     prompt_md: c.prompt_md,
     data_json: c.data_json,
     time_limit_sec: c.time_limit_sec,
     hint: c.hint,
-  }));
+    media: c.media,
+  };
+}
 
-  if (!deck.id) {
-    const newDeck: Deck = {
-      ...deck,
-      id: nanoid(10),
-      createdAt: now,
-      updatedAt: now,
-      cards: normCards,
-    };
-    user.decks.push(newDeck);
-    await saveUser(user);
-    return newDeck;
-  } else {
-    const idx = user.decks.findIndex((d) => d.id === deck.id);
-    if (idx === -1) throw new Error("DECK_NOT_FOUND");
+function sameCard(a: Card, b: Card) {
+  return (
+    a.type === b.type &&
+    a.prompt_md === b.prompt_md &&
+    a.time_limit_sec === b.time_limit_sec &&
+    a.hint === b.hint &&
+    JSON.stringify(a.data_json) === JSON.stringify(b.data_json) &&
+    JSON.stringify(a.media ?? null) === JSON.stringify(b.media ?? null)
+  );
+}
+
+/**
+ * Junta os cards recebidos com os atuais do deck. Um `id` só é mantido se já pertencer
+ * a este deck (e aparecer uma única vez); ids desconhecidos ou repetidos recebem um nanoid
+ * novo, para que um payload não consiga "roubar" cards (e progresso) de outro deck.
+ */
+export function mergeDeckCards(existing: Card[], incoming: CardInput[]): { cards: Card[]; diff: DeckDiff } {
+  const owned = new Map(existing.map(c => [c.id, c]));
+  const used = new Set<string>();
+  const diff: DeckDiff = { added: [], changed: [], removed: [], unchanged: 0 };
+
+  const cards = incoming.map((c) => {
+    const prev = c.id && !used.has(c.id) ? owned.get(c.id) : undefined;
+    const card = toCard(prev ? prev.id : nanoid(10), c);
+    used.add(card.id);
+    if (!prev) diff.added.push(card.id);
+    else if (!sameCard(prev, card)) diff.changed.push(card.id);
+    else diff.unchanged += 1;
+    return card;
+  });
+  diff.removed = existing.filter(c => !used.has(c.id)).map(c => c.id);
+  return { cards, diff };
+}
+
+/**
+ * Move o progresso dos cards removidos para `progressArchive` (estatísticas históricas
+ * continuam disponíveis, mas o card deixa de aparecer em revisões). Devolve quantos moveu.
+ */
+export function archiveProgress(user: UserFile, deckId: string, cardIds: string[], at = nowISO()): number {
+  let moved = 0;
+  for (const cardId of cardIds) {
+    const p = user.progress[cardId];
+    if (!p) continue;
+    user.progressArchive[cardId] = { ...p, deckId, archivedAt: at };
+    delete user.progress[cardId];
+    moved += 1;
+  }
+  return moved;
+}
+
+/** Opções comuns às escritas num deck. */
+export interface DeckWriteOptions {
+  expectedRev?: number;      // falha com DECK_REV_MISMATCH se o deck entretanto mudou
+  actorId?: string;          // colaborador EDITOR que faz a alteração (default: o dono); vai para o histórico
+}
+
+/**
+ * Deck do utilizador (dentro de um mutator), com verificação opcional do `rev`.
+ * Com `actorId` de outro utilizador, este tem de continuar a ser EDITOR do deck.
+ */
+function ownDeck(user: UserFile, deckId: string, opts: DeckWriteOptions = {}): Deck {
+  const deck = user.decks.find(d => d.id === deckId);
+  if (!deck) throw new Error("DECK_NOT_FOUND");
+  if (opts.actorId && opts.actorId !== user.id && collaboratorRole(deck, opts.actorId) !== "EDITOR") {
+    throw new Error("DECK_NOT_FOUND");
+  }
+  if (opts.expectedRev !== undefined && deck.rev !== opts.expectedRev) throw new Error("DECK_REV_MISMATCH");
+  return deck;
+}
+
+/**
+ * Onde gravar uma alteração de `userId` ao deck: no próprio ficheiro se for o dono, no do dono
+ * se for EDITOR (com `actorId`). VIEWER: DECK_READ_ONLY; outros: DECK_NOT_FOUND.
+ */
+export async function deckWriter(userId: string, deckId: string): Promise<{ ownerId: string; actorId?: string }> {
+  const found = await findDeck(deckId);
+  if (!found) throw new Error("DECK_NOT_FOUND");
+  if (found.owner.id === userId) return { ownerId: userId };
+  const role = collaboratorRole(found.deck, userId);
+  if (role === "EDITOR") return { ownerId: found.owner.id, actorId: userId };
+  throw new Error(role === "VIEWER" ? "DECK_READ_ONLY" : "DECK_NOT_FOUND");
+}
+
+function touchDeck(deck: Deck, now = nowISO()) {
+  deck.rev += 1;
+  deck.updatedAt = now;
+}
+
+function clampPosition(position: number | undefined, length: number) {
+  if (position === undefined) return length;
+  return Math.max(0, Math.min(length, Math.trunc(position)));
+}
+
+/**
+ * Cria ou atualiza um deck do utilizador. Cards com `id` deste deck mantêm a identidade
+ * (e o progresso associado); os que desaparecem têm o progresso arquivado.
+ */
+export async function upsertDeckWithDiff(
+  userId: string,
+  deck: DeckInput,
+  opts: DeckWriteOptions = {}
+): Promise<DeckUpsertResult> {
+  return updateUser(userId, (user, emit) => {
+    const now = nowISO();
+    checkCardMedia(user, deck.cards ?? []);
+
+    if (!deck.id) {
+      const { cards, diff } = mergeDeckCards([], deck.cards ?? []);
+      const newDeck: Deck = {
+        ...deck,
+        id: nanoid(10),
+        rev: 1,
+        createdAt: now,
+        updatedAt: now,
+        cards,
+      };
+      user.decks.push(newDeck);
+      emit({ type: "deck.upserted", deck: newDeck, created: true, diff });
+      return { deck: newDeck, diff, created: true };
+    }
+
+    const current = ownDeck(user, deck.id, opts);
+    if (opts.actorId && opts.actorId !== user.id && deck.visibility !== current.visibility) {
+      throw new Error("OWNER_ONLY"); // colaboradores não mudam a visibilidade
+    }
+    const idx = user.decks.indexOf(current);
+    const { cards, diff } = mergeDeckCards(current.cards, deck.cards ?? []);
     const merged: Deck = {
-      ...user.decks[idx],
+      ...current,
       ...deck,
-      cards: normCards,
+      id: current.id,
+      rev: current.rev + 1,
+      createdAt: current.createdAt,
+      cards,
       updatedAt: now,
     };
     user.decks[idx] = merged;
-    await saveUser(user);
-    return merged;
+    archiveProgress(user, merged.id, diff.removed, now);
+    emit({ type: "deck.upserted", deck: merged, created: false, diff, by: opts.actorId });
+    return { deck: merged, diff, created: false };
+  });
+}
+
+export async function upsertDeck(userId: string, deck: DeckInput, opts: DeckWriteOptions = {}): Promise<Deck> {
+  return (await upsertDeckWithDiff(userId, deck, opts)).deck;
+}
+
+/* ---------- Decks: operações sobre cards ---------- */
+function emptyDiff(deck: Deck): DeckDiff {
+  return { added: [], changed: [], removed: [], unchanged: deck.cards.length };
+}
+
+/** Acrescenta um card (id gerado pelo servidor) na posição dada (default: fim). */
+export async function addCard(
+  userId: string,
+  deckId: string,
+  input: CardInput,
+  opts: DeckWriteOptions & { position?: number } = {}
+): Promise<{ card: Card; rev: number }> {
+  return updateUser(userId, (user, emit) => {
+    const deck = ownDeck(user, deckId, opts);
+    checkCardMedia(user, [input]);
+    const card = toCard(nanoid(10), input);
+    const diff = emptyDiff(deck);
+    deck.cards.splice(clampPosition(opts.position, deck.cards.length), 0, card);
+    touchDeck(deck);
+    diff.added.push(card.id);
+    emit({ type: "deck.upserted", deck, created: false, diff, by: opts.actorId });
+    return { card, rev: deck.rev };
+  });
+}
+
+/**
+ * Atualiza um card. `next` recebe o card atual (lido dentro da fila do utilizador) e devolve
+ * a nova versão — é aí que as rotas validam o merge com o schema; se lançar, nada é gravado.
+ */
+export async function updateCard(
+  userId: string,
+  deckId: string,
+  cardId: string,
+  next: (current: Card) => CardInput,
+  opts: DeckWriteOptions = {}
+): Promise<{ card: Card; rev: number; changed: boolean }> {
+  return updateUser(userId, (user, emit) => {
+    const deck = ownDeck(user, deckId, opts);
+    const idx = deck.cards.findIndex(c => c.id === cardId);
+    if (idx === -1) throw new Error("CARD_NOT_FOUND");
+    const prev = deck.cards[idx];
+    const card = toCard(prev.id, next(structuredClone(prev)));
+    if (sameCard(prev, card)) return { card: prev, rev: deck.rev, changed: false };
+    checkCardMedia(user, [card]);
+
+    deck.cards[idx] = card;
+    touchDeck(deck);
+    const diff = emptyDiff(deck);
+    diff.unchanged -= 1;
+    diff.changed.push(card.id);
+    emit({ type: "deck.upserted", deck, created: false, diff, by: opts.actorId });
+    return { card, rev: deck.rev, changed: true };
+  });
+}
+
+/** Remove um card e arquiva o progresso associado. */
+export async function removeCard(
+  userId: string,
+  deckId: string,
+  cardId: string,
+  opts: DeckWriteOptions = {}
+): Promise<{ rev: number }> {
+  return updateUser(userId, (user, emit) => {
+    const deck = ownDeck(user, deckId, opts);
+    if (!deck.cards.some(c => c.id === cardId)) throw new Error("CARD_NOT_FOUND");
+    deck.cards = deck.cards.filter(c => c.id !== cardId);
+    touchDeck(deck);
+    archiveProgress(user, deckId, [cardId], deck.updatedAt);
+    const diff = emptyDiff(deck);
+    diff.removed.push(cardId);
+    emit({ type: "deck.upserted", deck, created: false, diff, by: opts.actorId });
+    return { rev: deck.rev };
+  });
+}
+
+/** Reordena os cards; `order` tem de ter exatamente os ids atuais do deck (INVALID_ORDER). */
+export async function reorderCards(
+  userId: string,
+  deckId: string,
+  order: string[],
+  opts: DeckWriteOptions = {}
+): Promise<{ order: string[]; rev: number }> {
+  return updateUser(userId, (user, emit) => {
+    const deck = ownDeck(user, deckId, opts);
+    const byId = new Map(deck.cards.map(c => [c.id, c]));
+    if (order.length !== deck.cards.length || new Set(order).size !== order.length || !order.every(id => byId.has(id))) {
+      throw new Error("INVALID_ORDER");
+    }
+    deck.cards = order.map(id => byId.get(id)!);
+    touchDeck(deck);
+    emit({ type: "deck.upserted", deck, created: false, diff: emptyDiff(deck), by: opts.actorId });
+    return { order, rev: deck.rev };
+  });
+}
+
+/**
+ * Move ou copia cards entre decks do mesmo utilizador.
+ * - move: os cards mantêm o id (e o progresso); o deck de origem perde-os;
+ * - copy: as cópias recebem ids novos (a origem fica igual; pode ser o próprio deck).
+ * `expectedRev` aplica-se ao deck de origem.
+ */
+export async function transferCards(
+  userId: string,
+  fromDeckId: string,
+  input: { toDeckId: string; cardIds: string[]; mode: "move" | "copy"; position?: number },
+  opts: DeckWriteOptions = {}
+): Promise<{ cards: Card[]; sourceRev: number; targetRev: number }> {
+  return updateUser(userId, (user, emit) => {
+    const source = ownDeck(user, fromDeckId, opts);
+    const target = ownDeck(user, input.toDeckId, { actorId: opts.actorId }); // o colaborador tem de editar os dois
+    if (input.mode === "move" && source === target) throw new Error("SAME_DECK");
+
+    const ids = Array.from(new Set(input.cardIds));
+    const picked = ids.map((id) => {
+      const card = source.cards.find(c => c.id === id);
+      if (!card) throw new Error("CARD_NOT_FOUND");
+      return card;
+    });
+
+    const now = nowISO();
+    const cards = input.mode === "copy"
+      ? picked.map(c => toCard(nanoid(10), structuredClone(c)))
+      : picked;
+
+    if (input.mode === "move") {
+      const sourceDiff = emptyDiff(source);
+      source.cards = source.cards.filter(c => !ids.includes(c.id));
+      touchDeck(source, now);
+      sourceDiff.unchanged = source.cards.length;
+      sourceDiff.movedOut = ids;
+      emit({ type: "deck.upserted", deck: source, created: false, diff: sourceDiff, by: opts.actorId });
+    }
+
+    const targetDiff = emptyDiff(target);
+    target.cards.splice(clampPosition(input.position, target.cards.length), 0, ...cards);
+    touchDeck(target, now);
+    targetDiff.added = cards.map(c => c.id);
+    emit({ type: "deck.upserted", deck: target, created: false, diff: targetDiff, by: opts.actorId });
+
+    return { cards, sourceRev: source.rev, targetRev: target.rev };
+  });
+}
+
+/** Remove um deck do utilizador (arquiva o progresso dos seus cards); false se não existir. */
+export async function deleteDeck(userId: string, deckId: string): Promise<boolean> {
+  return updateUser(userId, (user, emit) => {
+    const deck = user.decks.find(d => d.id === deckId);
+    if (!deck) return false;
+    user.decks = user.decks.filter(d => d.id !== deckId);
+    archiveProgress(user, deckId, deck.cards.map(c => c.id));
+    emit({ type: "deck.deleted", deckId });
+    return true;
+  });
+}
+
+/* ---------- Decks: forks ---------- */
+/** Impressão do conteúdo de um card (sem o id), para comparar origem e fork. */
+export function cardFingerprint(c: Card): string {
+  const content = [c.type, c.prompt_md, c.data_json ?? null, c.time_limit_sec ?? null, c.hint ?? null];
+  if (c.media) content.push(c.media); // só quando existe: cards sem media mantêm a impressão de antes
+  return crypto.createHash("sha1").update(JSON.stringify(content)).digest("hex");
+}
+
+/**
+ * Copia um deck PUBLIC/UNLISTED (ou PRIVATE do próprio ou em que é EDITOR) para os decks do utilizador.
+ * Os cards recebem ids novos (o progresso começa do zero) e `forkedFrom` guarda a origem para atribuição
+ * e `deckUpstream`.
+ */
+export async function forkDeck(
+  userId: string,
+  sourceDeckId: string,
+  opts: { title?: string; visibility?: Visibility } = {}
+): Promise<Deck> {
+  const found = await findDeck(sourceDeckId);
+  if (!found) throw new Error("DECK_NOT_FOUND");
+  // share links e VIEWERs dão leitura, não cópia: um deck PRIVATE só é copiado pelo dono ou por um EDITOR
+  const access = deckAccess(found, { userId });
+  if (!access || (found.deck.visibility === "PRIVATE" && access === "read")) throw new Error("DECK_PRIVATE");
+  const source = structuredClone(found.deck);
+  const owner: DeckAuthor = { userId: found.owner.id, username: found.owner.username };
+
+  return updateUser(userId, async (user, emit) => {
+    await adoptMedia(user, found.owner.id, source.cards, emit);
+    const now = nowISO();
+    const cards = source.cards.map(c => toCard(nanoid(10), c));
+    const deck: Deck = {
+      id: nanoid(10),
+      title: opts.title ?? source.title,
+      topic: source.topic,
+      visibility: opts.visibility ?? "PRIVATE",
+      tags: source.tags ?? [],
+      rev: 1,
+      createdAt: now,
+      updatedAt: now,
+      cards,
+      forkedFrom: {
+        deckId: source.id,
+        owner,
+        rev: source.rev,
+        forkedAt: now,
+        syncedAt: now,
+        origin: source.forkedFrom
+          ? source.forkedFrom.origin ?? { deckId: source.forkedFrom.deckId, owner: source.forkedFrom.owner }
+          : undefined,
+        cards: source.cards.map((c, i) => ({ source: c.id, card: cards[i].id, base: cardFingerprint(c) })),
+      },
+    };
+    user.decks.push(deck);
+    emit({
+      type: "deck.upserted",
+      deck,
+      created: true,
+      diff: { added: cards.map(c => c.id), changed: [], removed: [], unchanged: 0 },
+    });
+    return deck;
+  });
+}
+
+/** Alteração na origem desde a última sincronização, identificada pelo card da origem. */
+export interface UpstreamChange {
+  sourceCardId: string;
+  kind: "added" | "changed" | "removed";
+  cardId: string | null;     // card correspondente no fork (se existir)
+  localModified: boolean;    // o card do fork também foi editado (puxar substitui essa edição)
+  upstream?: Card;           // versão atual na origem (added/changed)
+  local?: Card;
+}
+
+/** Compara um fork com o estado atual da origem (puro). */
+export function upstreamChanges(fork: Deck, source: Deck): UpstreamChange[] {
+  const links = new Map((fork.forkedFrom?.cards ?? []).map(l => [l.source, l]));
+  const local = new Map(fork.cards.map(c => [c.id, c]));
+  const changes: UpstreamChange[] = [];
+
+  for (const card of source.cards) {
+    const link = links.get(card.id);
+    if (!link) {
+      changes.push({ sourceCardId: card.id, kind: "added", cardId: null, localModified: false, upstream: card });
+      continue;
+    }
+    if (cardFingerprint(card) === link.base) continue;
+    const mine = link.card ? local.get(link.card) : undefined;
+    changes.push({
+      sourceCardId: card.id,
+      kind: "changed",
+      cardId: mine?.id ?? null,
+      localModified: !!mine && cardFingerprint(mine) !== link.base,
+      upstream: card,
+      local: mine,
+    });
+  }
+  const current = new Set(source.cards.map(c => c.id));
+  for (const link of links.values()) {
+    if (current.has(link.source)) continue;
+    const mine = link.card ? local.get(link.card) : undefined;
+    changes.push({
+      sourceCardId: link.source,
+      kind: "removed",
+      cardId: mine?.id ?? null,
+      localModified: !!mine && cardFingerprint(mine) !== link.base,
+      local: mine,
+    });
   }
+  return changes;
+}
+
+export interface DeckUpstream {
+  source: { deckId: string; owner: DeckAuthor; title: string; rev: number; syncedRev: number };
+  changes: UpstreamChange[];
+}
+
+/** Origem de um fork do utilizador (tem de continuar visível para ele). */
+async function upstreamOf(userId: string, fork: Deck): Promise<Deck> {
+  if (!fork.forkedFrom) throw new Error("NOT_A_FORK");
+  const found = await findDeck(fork.forkedFrom.deckId);
+  if (!found || !deckAccess(found, { userId })) throw new Error("UPSTREAM_GONE");
+  return structuredClone(found.deck);
+}
+
+/** Estado da origem de um fork do utilizador e alterações ainda não puxadas. */
+export async function deckUpstream(userId: string, deckId: string): Promise<DeckUpstream> {
+  const user = await loadUser(userId);
+  const fork = user?.decks.find(d => d.id === deckId);
+  if (!fork) throw new Error("DECK_NOT_FOUND");
+  const source = await upstreamOf(userId, fork);
+  return {
+    source: {
+      deckId: source.id,
+      owner: fork.forkedFrom!.owner,
+      title: source.title,
+      rev: source.rev,
+      syncedRev: fork.forkedFrom!.rev,
+    },
+    changes: upstreamChanges(fork, source),
+  };
+}
+
+/**
+ * Aplica alterações da origem a um fork. `cardIds` (ids da origem; default: todas) são puxadas —
+ * added: acrescenta no fim; changed: substitui o conteúdo mantendo o id do fork (e o progresso);
+ * removed: remove e arquiva o progresso. `dismiss` marca alterações como vistas sem as aplicar.
+ */
+export async function pullUpstream(
+  userId: string,
+  deckId: string,
+  input: { cardIds?: string[]; dismiss?: string[] } = {},
+  opts: DeckWriteOptions = {}
+): Promise<{ deck: Deck; diff: DeckDiff; pulled: string[]; dismissed: string[] }> {
+  const before = await loadUser(userId);
+  const snapshot = before?.decks.find(d => d.id === deckId);
+  if (!snapshot) throw new Error("DECK_NOT_FOUND");
+  const source = await upstreamOf(userId, snapshot);
+
+  return updateUser(userId, async (user, emit) => {
+    const deck = ownDeck(user, deckId, opts);
+    if (!deck.forkedFrom) throw new Error("NOT_A_FORK");
+    const changes = new Map(upstreamChanges(deck, source).map(c => [c.sourceCardId, c]));
+    const dismiss = new Set(input.dismiss ?? []);
+    const pull = new Set(input.cardIds ?? Array.from(changes.keys()).filter(id => !dismiss.has(id)));
+    for (const id of [...pull, ...dismiss]) {
+      if (!changes.has(id)) throw new Error("CARD_NOT_FOUND");
+    }
+
+    const now = nowISO();
+    const diff: DeckDiff = { added: [], changed: [], removed: [], unchanged: 0 };
+    const ref = deck.forkedFrom;
+    const linkOf = (sourceId: string) => ref.cards.find(l => l.source === sourceId);
+
+    for (const [id, change] of changes) {
+      if (!pull.has(id) && !dismiss.has(id)) continue;
+      const link = linkOf(id);
+      if (change.kind === "removed") {
+        if (pull.has(id) && change.cardId) {
+          deck.cards = deck.cards.filter(c => c.id !== change.cardId);
+          diff.removed.push(change.cardId);
+        }
+        ref.cards = ref.cards.filter(l => l !== link);
+        continue;
+      }
+
+      const upstream = change.upstream!;
+      const base = cardFingerprint(upstream);
+      let cardId = change.cardId;
+      if (pull.has(id)) {
+        const idx = cardId ? deck.cards.findIndex(c => c.id === cardId) : -1;
+        if (idx === -1) {
+          cardId = nanoid(10);
+          deck.cards.push(toCard(cardId, upstream));
+          diff.added.push(cardId);
+        } else {
+          deck.cards[idx] = toCard(cardId!, upstream);
+          diff.changed.push(cardId!);
+        }
+      }
+      if (link) Object.assign(link, { card: cardId, base });
+      else ref.cards.push({ source: id, card: cardId, base });
+    }
+
+    diff.unchanged = deck.cards.length - diff.added.length - diff.changed.length;
+    archiveProgress(user, deck.id, diff.removed, now);
+    await adoptMedia(user, ref.owner.userId, deck.cards, emit);
+    ref.rev = source.rev;
+    ref.syncedAt = now;
+    touchDeck(deck, now);
+    emit({ type: "deck.upserted", deck, created: false, diff });
+    return { deck, diff, pulled: Array.from(pull), dismissed: Array.from(dismiss) };
+  });
+}
+
+/* ---------- Decks: share links ---------- */
+export interface DeckShareView {
+  id: string;
+  label?: string;
+  createdAt: string;
+  expiresAt?: string;
+}
+
+const shareView = ({ tokenHash: _hash, ...share }: DeckShare): DeckShareView => share;
+
+/** Cria um share link; o token só é devolvido aqui (no ficheiro fica o hash). */
+export async function createDeckShare(
+  userId: string,
+  deckId: string,
+  input: { label?: string; expiresAt?: string } = {}
+): Promise<{ share: DeckShareView; token: string }> {
+  return updateUser(userId, (user, emit) => {
+    const deck = ownDeck(user, deckId);
+    const token = nanoid(32);
+    const share: DeckShare = { id: nanoid(8), tokenHash: tokenHash(token), createdAt: nowISO() };
+    if (input.label) share.label = input.label;
+    if (input.expiresAt) share.expiresAt = input.expiresAt;
+    (deck.shares ??= []).push(share);
+    emit({ type: "deck.shared", deckId, action: "created", share });
+    return { share: shareView(share), token };
+  });
+}
+
+export async function listDeckShares(userId: string, deckId: string): Promise<DeckShareView[]> {
+  const deck = (await loadUser(userId))?.decks.find(d => d.id === deckId);
+  if (!deck) throw new Error("DECK_NOT_FOUND");
+  return (deck.shares ?? []).map(shareView);
 }
 
-export async function listPublicDecks(): Promise<Array<{ deck: Deck; owner: { userId: string; username: string } }>> {
-  const out: Array<{ deck: Deck; owner: { userId: string; username: string } }> = [];
-  const files = await fs.readdir(USERS_DIR);
-  for (const f of files) {
-    if (!f.endsWith(".json")) continue;
-    const u = await safeReadUser(path.join(USERS_DIR, f));
-    if (!u) continue;
-    for (const d of u.decks) {
-      if (d.visibility === "PUBLIC") out.push({ deck: d, owner: { userId: u.id, username: u.username } });
+/** Revoga um share link (o token deixa de dar acesso de imediato). */
+export async function revokeDeckShare(userId: string, deckId: string, shareId: string): Promise<void> {
+  await updateUser(userId, (user, emit) => {
+    const deck = ownDeck(user, deckId);
+    const share = deck.shares?.find(s => s.id === shareId);
+    if (!share) throw new Error("SHARE_NOT_FOUND");
+    deck.shares = deck.shares!.filter(s => s !== share);
+    emit({ type: "deck.shared", deckId, action: "revoked", share });
+  });
+}
+
+/* ---------- Decks: colaboradores ---------- */
+const MAX_COLLABORATORS = 50;
+
+/** Adiciona um colaborador ou muda o papel de um existente (só o dono). */
+export async function setDeckCollaborator(
+  ownerId: string,
+  deckId: string,
+  target: { userId: string; username: string },
+  role: DeckRole
+): Promise<DeckCollaborator> {
+  if (target.userId === ownerId) throw new Error("CANNOT_ADD_OWNER");
+  return updateUser(ownerId, (user, emit) => {
+    const deck = ownDeck(user, deckId);
+    const list = (deck.collaborators ??= []);
+    let entry = list.find(c => c.userId === target.userId);
+    if (entry) {
+      entry.role = role;
+      entry.username = target.username;
+    } else {
+      if (list.length >= MAX_COLLABORATORS) throw new Error("TOO_MANY_COLLABORATORS");
+      entry = { userId: target.userId, username: target.username, role, addedAt: nowISO() };
+      list.push(entry);
     }
+    emit({ type: "deck.collaborators", deckId, collaborators: list });
+    return entry;
+  });
+}
+
+/** Remove um colaborador (o dono remove qualquer um; um colaborador pode sair). */
+export async function removeDeckCollaborator(ownerId: string, deckId: string, userId: string): Promise<void> {
+  await updateUser(ownerId, (user, emit) => {
+    const deck = ownDeck(user, deckId);
+    if (!deck.collaborators?.some(c => c.userId === userId)) throw new Error("COLLABORATOR_NOT_FOUND");
+    deck.collaborators = deck.collaborators.filter(c => c.userId !== userId);
+    emit({ type: "deck.collaborators", deckId, collaborators: deck.collaborators });
+  });
+}
+
+/** Decks de outros utilizadores em que `userId` é colaborador (via índice). */
+export async function listSharedDecks(
+  userId: string
+): Promise<Array<{ deck: Deck; owner: DeckAuthor; role: DeckRole }>> {
+  const idx = await getIndex();
+  const out: Array<{ deck: Deck; owner: DeckAuthor; role: DeckRole }> = [];
+  for (const deckId of idx.sharedDecks.get(userId) ?? []) {
+    const found = await findDeck(deckId);
+    const role = found && collaboratorRole(found.deck, userId);
+    if (found && role) out.push({ deck: found.deck, owner: { userId: found.owner.id, username: found.owner.username }, role });
   }
   return out;
 }
 
-export async function appendTransaction(userId: string, trx: Transaction): Promise<void> {
+/**
+ * Decks que entram na fila global do solo: os do próprio, aqueles em que é colaborador e os públicos
+ * de outros em que já respondeu a algum card (via índice cardId -> deck público).
+ */
+export async function listStudyDecks(userId: string): Promise<Array<{ deck: Deck; owner: DeckAuthor }>> {
   const user = await loadUser(userId);
   if (!user) throw new Error("USER_NOT_FOUND");
-  user.wallet.transactions.push(trx);
-  user.wallet.balance += trx.type === "EARN" ? trx.amount : -trx.amount;
-  user.updatedAt = nowISO();
-  await saveUser(user);
+  const idx = await getIndex();
+  const me = { userId: user.id, username: user.username };
+  const out = new Map<string, { deck: Deck; owner: DeckAuthor }>(user.decks.map(d => [d.id, { deck: d, owner: me }]));
+  for (const s of await listSharedDecks(userId)) {
+    if (!out.has(s.deck.id)) out.set(s.deck.id, { deck: s.deck, owner: s.owner });
+  }
+  for (const cardId of Object.keys(user.progress)) {
+    const deckId = idx.cardDecks.get(cardId);
+    const entry = deckId ? idx.publicDecks.get(deckId) : undefined;
+    if (entry && !out.has(entry.deck.id)) out.set(entry.deck.id, { deck: entry.deck, owner: entry.owner });
+  }
+  return [...out.values()];
 }
 
-export function getUsersDir() {
-  return USERS_DIR;
+/* ---------- Media (imagens/áudio dos cards) ---------- */
+/** Coleção de blobs com os ficheiros de um utilizador (`data/media/<userId>/<sha256>`). */
+const mediaCollection = (userId: string) => `media/${userId}`;
+
+/** Media referida pelos decks do utilizador e pelo histórico de revisões: id -> deckIds. */
+function mediaRefs(user: UserFile): Map<string, Set<string>> {
+  const refs = new Map<string, Set<string>>();
+  const add = (deckId: string, cards: Card[]) => {
+    for (const id of cardMediaIds(cards)) {
+      let decks = refs.get(id);
+      if (!decks) refs.set(id, (decks = new Set()));
+      decks.add(deckId);
+    }
+  };
+  for (const d of user.decks) add(d.id, d.cards);
+  for (const [deckId, revisions] of Object.entries(user.deckRevisions)) {
+    for (const r of revisions) add(deckId, r.deck.cards);
+  }
+  return refs;
 }
 
-/* ---------- Helpers para contas (email/password) ---------- */
-export async function setPasswordHash(userId: string, hash: string) {
-  const user = await loadUser(userId);
-  if (!user) throw new Error("USER_NOT_FOUND");
-  user.auth.passwordHash = hash;
-  user.updatedAt = nowISO();
-  await saveUser(user);
+/** Cards só podem referir media do dono do deck (carregada antes com `addMedia`). */
+function checkCardMedia(user: UserFile, cards: CardInput[]) {
+  for (const id of cardMediaIds(cards)) {
+    if (!user.media[id]) throw new Error("UNKNOWN_MEDIA");
+  }
 }
 
-export async function setEmail(userId: string, email: string) {
-  const user = await loadUser(userId);
-  if (!user) throw new Error("USER_NOT_FOUND");
-  user.auth.email = email;
-  user.updatedAt = nowISO();
-  await saveUser(user);
+/**
+ * Traz para `user` (dentro do mutator) os ficheiros de `fromUserId` referidos por `cards` que ainda
+ * não tenha: um fork não pode depender dos ficheiros de outro utilizador. Não conta para a quota.
+ */
+async function adoptMedia(user: UserFile, fromUserId: string, cards: Card[], emit: EmitFn) {
+  if (fromUserId === user.id) return;
+  const missing = Array.from(cardMediaIds(cards)).filter(id => !user.media[id]);
+  if (!missing.length) return;
+  const from = await loadUser(fromUserId);
+  const storage = getStorage();
+  const added: MediaEntry[] = [];
+  for (const id of missing) {
+    const entry = from?.media[id];
+    const data = entry && (await storage.readBlob(mediaCollection(fromUserId), id));
+    if (!entry || !data) continue;
+    await gatedWrite(() => storage.writeBlob(mediaCollection(user.id), id, data));
+    added.push((user.media[id] = { ...entry, createdAt: nowISO() }));
+  }
+  if (added.length) emit({ type: "media.changed", action: "added", media: added });
 }
 
-export async function setVerifyToken(userId: string, token: string, expiresISO: string) {
-  const user = await loadUser(userId);
-  if (!user) throw new Error("USER_NOT_FOUND");
-  user.auth.verifyToken = token;
-  user.auth.verifyTokenExpires = expiresISO;
-  await saveUser(user);
+/**
+ * Guarda um ficheiro de media do utilizador. O tipo é detetado pelos bytes (`declaredMime`, se
+ * vier, tem de coincidir) e o id é o sha256: o mesmo ficheiro outra vez devolve a entrada existente.
+ */
+export async function addMedia(
+  userId: string,
+  data: Buffer,
+  opts: { name?: string; declaredMime?: string } = {}
+): Promise<{ media: MediaEntry; created: boolean }> {
+  if (data.length > config.media.maxBytes) throw new Error("MEDIA_TOO_LARGE");
+  const mime = sniffMime(data);
+  if (!mime || !MEDIA_TYPES[mime]) throw new Error("UNSUPPORTED_MEDIA_TYPE");
+  if (opts.declaredMime && opts.declaredMime !== mime) throw new Error("MEDIA_TYPE_MISMATCH");
+  const id = mediaHash(data);
+
+  // o blob é escrito sob o lock do utilizador, tal como o GC o apaga: os dois não se cruzam
+  return updateUser(userId, async (user, emit) => {
+    const existing = user.media[id];
+    if (!existing) {
+      const used = Object.values(user.media).reduce((n, m) => n + m.size, 0);
+      if (used + data.length > config.media.quotaBytes) throw new Error("MEDIA_QUOTA_EXCEEDED");
+    }
+    await gatedWrite(() => getStorage().writeBlob(mediaCollection(userId), id, data));
+    if (existing) return { media: existing, created: false };
+    const media: MediaEntry = { id, mime, size: data.length, name: opts.name, createdAt: nowISO() };
+    user.media[id] = media;
+    emit({ type: "media.changed", action: "added", media: [media] });
+    return { media, created: true };
+  });
 }
 
-export async function verifyEmailWithToken(userId: string, token: string): Promise<boolean> {
-  const user = await loadUser(userId);
-  if (!user) return false;
-  const ok = !!user.auth.verifyToken
-    && user.auth.verifyToken === token
-    && (!user.auth.verifyTokenExpires || new Date(user.auth.verifyTokenExpires).getTime() >= Date.now());
-  if (!ok) return false;
-  user.auth.emailVerified = true;
-  user.auth.verifyToken = undefined;
-  user.auth.verifyTokenExpires = undefined;
-  await saveUser(user);
-  return true;
-}
-
-export async function setResetToken(userId: string, token: string, expiresISO: string) {
+export interface MediaListing {
+  media: Array<MediaEntry & { decks: string[] }>; // decks (ou revisões) que a referem
+  usedBytes: number;
+  quotaBytes: number;
+}
+
+export async function listMedia(userId: string): Promise<MediaListing> {
   const user = await loadUser(userId);
   if (!user) throw new Error("USER_NOT_FOUND");
-  user.auth.resetToken = token;
-  user.auth.resetTokenExpires = expiresISO;
-  await saveUser(user);
+  const refs = mediaRefs(user);
+  const media = Object.values(user.media)
+    .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1))
+    .map(m => ({ ...m, decks: Array.from(refs.get(m.id) ?? []) }));
+  return { media, usedBytes: media.reduce((n, m) => n + m.size, 0), quotaBytes: config.media.quotaBytes };
 }
 
-export async function useResetTokenAndSetPassword(userId: string, token: string, newHash: string): Promise<boolean> {
-  const user = await loadUser(userId);
-  if (!user) return false;
-  const ok = !!user.auth.resetToken
-    && user.auth.resetToken === token
-    && (!!user.auth.resetTokenExpires && new Date(user.auth.resetTokenExpires).getTime() >= Date.now());
-  if (!ok) return false;
-  user.auth.passwordHash = newHash;
-  user.auth.resetToken = undefined;
-  user.auth.resetTokenExpires = undefined;
-  await saveUser(user);
-  return true;
+/** Apaga um ficheiro que nenhum deck (nem revisão guardada) refere. */
+export async function deleteMedia(userId: string, mediaId: string): Promise<void> {
+  await updateUser(userId, async (user, emit) => {
+    const media = user.media[mediaId];
+    if (!media) throw new Error("MEDIA_NOT_FOUND");
+    if (mediaRefs(user).has(mediaId)) throw new Error("MEDIA_IN_USE");
+    delete user.media[mediaId];
+    await gatedWrite(() => getStorage().deleteBlob(mediaCollection(userId), mediaId));
+    emit({ type: "media.changed", action: "removed", media: [media] });
+  });
+}
+
+/** Conteúdo de um ficheiro do utilizador; null se não existir. */
+export async function readMedia(userId: string, mediaId: string): Promise<{ media: MediaEntry; data: Buffer } | null> {
+  const media = (await loadUser(userId))?.media[mediaId];
+  const data = media && (await getStorage().readBlob(mediaCollection(userId), mediaId));
+  return media && data ? { media, data } : null;
+}
+
+export interface MediaGcReport {
+  users: number;
+  removed: Array<{ userId: string; id: string; size: number }>;
+  orphanBlobs: number;       // ficheiros sem entrada em `media` (upload interrompido)
+  freedBytes: number;        // só das entradas removidas
+}
+
+/**
+ * Recolhe a media que já nenhum deck nem revisão guardada refere (uploads com menos de
+ * MEDIA_GC_GRACE_MIN ficam, para dar tempo a usá-los). Só escreve nos utilizadores com lixo.
+ */
+export async function collectMediaGarbage(opts: { userId?: string; dryRun?: boolean } = {}): Promise<MediaGcReport> {
+  const cutoff = Date.now() - config.media.gcGraceMin * 60_000;
+  const storage = getStorage();
+  const report: MediaGcReport = { users: 0, removed: [], orphanBlobs: 0, freedBytes: 0 };
+
+  const garbage = async (user: UserFile) => {
+    const refs = mediaRefs(user);
+    const unused = Object.values(user.media).filter(m => !refs.has(m.id) && Date.parse(m.createdAt) <= cutoff);
+    const orphans = (await storage.listBlobs(mediaCollection(user.id))).filter(name => !user.media[name]);
+    return { unused, orphans };
+  };
+
+  for (const userId of opts.userId ? [opts.userId] : await listUserIds()) {
+    const user = await loadUser(userId);
+    if (!user) continue;
+    report.users += 1;
+    let found = await garbage(user);
+    if (!opts.dryRun && (found.unused.length || found.orphans.length)) {
+      found = await updateUser(userId, async (u, emit) => {
+        const current = await garbage(u); // de novo, sob o lock
+        for (const m of current.unused) delete u.media[m.id];
+        for (const name of [...current.unused.map(m => m.id), ...current.orphans]) {
+          await gatedWrite(() => storage.deleteBlob(mediaCollection(userId), name));
+        }
+        if (current.unused.length) emit({ type: "media.changed", action: "removed", media: current.unused });
+        return current;
+      });
+    }
+    for (const m of found.unused) report.removed.push({ userId, id: m.id, size: m.size });
+    report.orphanBlobs += found.orphans.length;
+    report.freedBytes += found.unused.reduce((n, m) => n + m.size, 0);
+  }
+  return report;
+}
+
+/* ---------- Decks: revisões ---------- */
+const DECK_FIELDS = ["title", "topic", "visibility", "tags"] as const;
+
+function snapshotDeck(deck: Deck): DeckSnapshot {
+  const { title, topic, visibility, tags, cards } = structuredClone(deck);
+  return { title, topic, visibility, tags: tags ?? [], cards };
+}
+
+/**
+ * Acrescenta a revisão `deck.rev` ao histórico do deck (só os `DECK_REVISIONS_KEEP` mais recentes
+ * ficam). Chamado por `updateUser` para cada `deck.upserted` e pelo replay do journal.
+ */
+export function recordDeckRevision(
+  user: UserFile,
+  deck: Deck,
+  diff: DeckDiff,
+  at = nowISO(),
+  by = user.id,
+  keep = config.decks.revisionsKeep
+): DeckRevision {
+  const list = (user.deckRevisions[deck.id] ??= []);
+  const prev = list[list.length - 1];
+  const snapshot = snapshotDeck(deck);
+
+  const fields = prev
+    ? DECK_FIELDS.filter((f) => JSON.stringify(prev.deck[f]) !== JSON.stringify(snapshot[f]))
+    : [];
+  const kept = new Set(snapshot.cards.map(c => c.id));
+  const before = prev ? prev.deck.cards.map(c => c.id).filter(id => kept.has(id)) : [];
+  const after = snapshot.cards.map(c => c.id).filter(id => before.includes(id));
+
+  const revision: DeckRevision = {
+    rev: deck.rev,
+    at,
+    by,
+    changes: {
+      added: [...diff.added],
+      changed: [...diff.changed],
+      removed: [...diff.removed, ...(diff.movedOut ?? [])],
+      fields,
+      reordered: before.join() !== after.join(),
+    },
+    deck: snapshot,
+  };
+  if (prev?.rev === deck.rev) list.pop(); // replay do mesmo evento
+  list.push(revision);
+  if (list.length > keep) list.splice(0, list.length - keep);
+  return revision;
+}
+
+/** Mantém o histórico em linha com os eventos de deck de uma mutação (antes de gravar). */
+function trackDeckRevisions(user: UserFile, events: StoreEventPayload[]) {
+  const at = nowISO();
+  for (const e of events) {
+    if (e.type === "deck.upserted") recordDeckRevision(user, e.deck, e.diff, at, e.by ?? user.id);
+    else if (e.type === "deck.deleted") delete user.deckRevisions[e.deckId];
+  }
+}
+
+/** Resumo de uma revisão (sem o conteúdo). */
+export type DeckRevisionSummary = Omit<DeckRevision, "deck"> & { title: string; cardCount: number };
+
+/** Diferenças de uma revisão face à anterior, com o conteúdo dos cards. */
+export interface DeckRevisionDiff {
+  base: number | null;       // rev anterior (null se já não estiver no histórico)
+  fields: Array<{ field: string; from: unknown; to: unknown }>;
+  added: Card[];
+  changed: Array<{ before: Card; after: Card }>;
+  removed: Card[];           // vazio quando não há `base` (só os ids em `changes.removed`)
+  reordered: boolean;
+}
+
+/** Histórico de um deck para o dono ou um colaborador (vive no ficheiro do dono). */
+async function deckRevisionsFor(userId: string, deckId: string): Promise<{ deck: Deck; revisions: DeckRevision[] }> {
+  const found = await findDeck(deckId);
+  if (!found || (found.owner.id !== userId && !collaboratorRole(found.deck, userId))) throw new Error("DECK_NOT_FOUND");
+  return { deck: found.deck, revisions: found.owner.deckRevisions[deckId] ?? [] };
+}
+
+/** Histórico de um deck (do utilizador ou em que colabora), mais recente primeiro. */
+export async function listDeckRevisions(
+  userId: string,
+  deckId: string
+): Promise<{ deckId: string; rev: number; keep: number; revisions: DeckRevisionSummary[] }> {
+  const { deck, revisions } = await deckRevisionsFor(userId, deckId);
+  return {
+    deckId,
+    rev: deck.rev,
+    keep: config.decks.revisionsKeep,
+    revisions: revisions
+      .map(({ deck: snapshot, ...r }) => ({ ...r, title: snapshot.title, cardCount: snapshot.cards.length }))
+      .reverse(),
+  };
+}
+
+/** Uma revisão com o conteúdo completo e o diff face à anterior. */
+export async function getDeckRevision(
+  userId: string,
+  deckId: string,
+  rev: number
+): Promise<{ revision: DeckRevision; diff: DeckRevisionDiff }> {
+  const { revisions } = await deckRevisionsFor(userId, deckId);
+  const i = revisions.findIndex(r => r.rev === rev);
+  if (i === -1) throw new Error("REVISION_NOT_FOUND");
+  const revision = revisions[i];
+  const prev = i > 0 ? revisions[i - 1] : undefined;
+  const byId = new Map(revision.deck.cards.map(c => [c.id, c]));
+  const prevById = new Map(prev?.deck.cards.map(c => [c.id, c]) ?? []);
+
+  return {
+    revision,
+    diff: {
+      base: prev?.rev ?? null,
+      fields: prev
+        ? revision.changes.fields.map(f => ({ field: f, from: prev.deck[f as keyof DeckSnapshot], to: revision.deck[f as keyof DeckSnapshot] }))
+        : [],
+      added: revision.changes.added.map(id => byId.get(id)).filter((c): c is Card => !!c),
+      changed: revision.changes.changed
+        .filter(id => byId.has(id) && prevById.has(id))
+        .map(id => ({ before: prevById.get(id)!, after: byId.get(id)! })),
+      removed: revision.changes.removed.map(id => prevById.get(id)).filter((c): c is Card => !!c),
+      reordered: revision.changes.reordered,
+    },
+  };
+}
+
+/**
+ * Repõe o conteúdo de um deck tal como estava numa revisão (cria uma revisão nova).
+ * Cards que ainda existem mantêm o id e o progresso; os que voltam reutilizam o id antigo
+ * (exceto se entretanto foram movidos para outro deck) e o progresso arquivado não volta.
+ */
+export async function restoreDeckRevision(
+  userId: string,
+  deckId: string,
+  rev: number,
+  opts: DeckWriteOptions = {}
+): Promise<{ deck: Deck; diff: DeckDiff; restoredFrom: number }> {
+  return updateUser(userId, (user, emit) => {
+    const deck = ownDeck(user, deckId, opts);
+    const revision = user.deckRevisions[deckId]?.find(r => r.rev === rev);
+    if (!revision) throw new Error("REVISION_NOT_FOUND");
+    const snapshot = structuredClone(revision.deck);
+
+    const current = new Map(deck.cards.map(c => [c.id, c]));
+    const elsewhere = new Set(user.decks.filter(d => d !== deck).flatMap(d => d.cards.map(c => c.id)));
+    const diff: DeckDiff = { added: [], changed: [], removed: [], unchanged: 0 };
+    const cards = snapshot.cards.map((c) => {
+      const prev = current.get(c.id);
+      const card = toCard(prev || !elsewhere.has(c.id) ? c.id : nanoid(10), c);
+      if (!prev) diff.added.push(card.id);
+      else if (!sameCard(prev, card)) diff.changed.push(card.id);
+      else diff.unchanged += 1;
+      return card;
+    });
+    const kept = new Set(cards.map(c => c.id));
+    diff.removed = deck.cards.filter(c => !kept.has(c.id)).map(c => c.id);
+
+    Object.assign(deck, {
+      title: snapshot.title,
+      topic: snapshot.topic,
+      visibility: snapshot.visibility,
+      tags: snapshot.tags,
+      cards,
+    });
+    touchDeck(deck);
+    archiveProgress(user, deckId, diff.removed, deck.updatedAt);
+    emit({ type: "deck.upserted", deck, created: false, diff, by: opts.actorId });
+    return { deck, diff, restoredFrom: rev };
+  });
+}
+
+export async function listPublicDecks(): Promise<PublicDeckEntry[]> {
+  const idx = await getIndex();
+  return Array.from(idx.publicDecks.values());
+}
+
+/**
+ * Stats de todos os decks públicos (respostas, jogadores, avaliações).
+ * Recalculadas a partir do índice só depois de alguma escrita; decks sem atividade não aparecem.
+ */
+export async function publicDeckStats(): Promise<Map<string, DeckStats>> {
+  const idx = await getIndex();
+  if (idx.stats) return idx.stats;
+
+  const stats = new Map<string, DeckStats>();
+  const entry = (deckId: string) => {
+    let s = stats.get(deckId);
+    if (!s) stats.set(deckId, (s = { answers: 0, players: 0, ratingAvg: null, ratingCount: 0 }));
+    return s;
+  };
+  for (const [userId, u] of idx.byUser) {
+    const played = new Set<string>();
+    for (const [cardId, times] of u.answered) {
+      const deckId = idx.cardDecks.get(cardId);
+      if (!deckId || times <= 0) continue;
+      entry(deckId).answers += times;
+      played.add(deckId);
+    }
+    for (const deckId of played) entry(deckId).players += 1;
+    for (const [deckId, stars] of u.ratings) {
+      const owner = idx.publicDecks.get(deckId)?.owner.userId;
+      if (!owner || owner === userId) continue;
+      const s = entry(deckId);
+      s.ratingAvg = ((s.ratingAvg ?? 0) * s.ratingCount + stars) / (s.ratingCount + 1);
+      s.ratingCount += 1;
+    }
+  }
+  idx.stats = stats;
+  return stats;
+}
+
+/**
+ * Avalia (1–5) um deck público de outro utilizador; `stars: null` remove a avaliação.
+ * A avaliação vive no ficheiro de quem avalia (não mexe no deck nem no dono).
+ */
+export async function rateDeck(userId: string, deckId: string, stars: number | null): Promise<DeckRating | null> {
+  if (stars !== null && (!Number.isInteger(stars) || stars < 1 || stars > 5)) throw new Error("INVALID_STARS");
+  const found = await findDeck(deckId);
+  if (!found) throw new Error("DECK_NOT_FOUND");
+  if (found.owner.id === userId) throw new Error("CANNOT_RATE_OWN_DECK");
+  if (found.deck.visibility !== "PUBLIC") throw new Error("DECK_PRIVATE");
+
+  return updateUser(userId, (user, emit) => {
+    if (stars === null) {
+      if (!user.deckRatings[deckId]) return null;
+      delete user.deckRatings[deckId];
+      emit({ type: "deck.rated", deckId, stars: null });
+      return null;
+    }
+    const rating = { stars, at: nowISO() };
+    user.deckRatings[deckId] = rating;
+    emit({ type: "deck.rated", deckId, stars });
+    return rating;
+  });
+}
+
+/* ---------- Migrações em bloco (CLI) ---------- */
+export interface MigrationReport {
+  total: number;
+  current: string[];                                  // já na versão atual
+  upgraded: Array<{ userId: string; from: number }>;  // migrados (ou a migrar, em dry-run)
+  failed: Array<{ userId: string; issues: string[] }>; // não reparáveis
+}
+
+/**
+ * Passa todos os utilizadores pelas migrações + validação zod.
+ * Sem `dryRun`, grava os que mudaram (via `updateUser`, respeitando a fila por utilizador).
+ */
+export async function migrateAllUsers(opts: { dryRun?: boolean } = {}): Promise<MigrationReport> {
+  const report: MigrationReport = { total: 0, current: [], upgraded: [], failed: [] };
+  for (const userId of await listUserIds()) {
+    report.total += 1;
+    try {
+      const raw = await readUserRaw(userId);
+      if (raw === null) continue;
+      const { fromVersion, changed } = migrateUserDoc(raw, userId);
+      if (!changed) {
+        report.current.push(userId);
+        continue;
+      }
+      if (!opts.dryRun) {
+        await updateUser(userId, (_u, emit) => {
+          emit({ type: "user.migrated", fromVersion, toVersion: CURRENT_SCHEMA_VERSION });
+        });
+      }
+      report.upgraded.push({ userId, from: fromVersion });
+    } catch (e: any) {
+      const issues = e instanceof UserMigrationError ? e.issues : [String(e?.message || e)];
+      report.failed.push({ userId, issues });
+    }
+  }
+  return report;
+}
+
+/**
+ * Aplica uma transação a um UserFile em memória (para usar dentro de `updateUser`).
+ * Passa o `emit` do mutator para a transação ficar no journal (auditoria de saldos).
+ */
+export function applyTransaction(user: UserFile, trx: Transaction, emit?: EmitFn): void {
+  user.wallet.transactions.push(trx);
+  user.wallet.balance += trx.type === "EARN" ? trx.amount : -trx.amount;
+  emit?.({ type: "wallet.transaction", trx, balance: user.wallet.balance });
+}
+
+export async function appendTransaction(userId: string, trx: Transaction): Promise<void> {
+  await updateUser(userId, (user, emit) => applyTransaction(user, trx, emit));
 }
@@ -0,0 +1,159 @@
+// src/lib/studyPlan.ts
+import type { Card, Deck, DeckAuthor, StudyDay, UserFile } from "./store";
+import { foldText } from "./text";
+
+/**
+ * Fila global do solo e plano do dia (ver "Fila global e plano diário" em docs/json-storage.md).
+ * Junta os cards vencidos de todos os decks em estudo, ordenados por atraso relativo (um card com
+ * intervalo de 1 dia atrasado 1 dia vem antes de um de 30 dias atrasado 1 dia), e os cards novos,
+ * pela ordem dos decks. Os limites diários (`prefs.solo.daily`) descontam o que já foi respondido hoje
+ * (`stats.today`, dia UTC). Funções puras: a rota junta os decks (`listStudyDecks`) e o utilizador.
+ */
+
+export interface StudyFilters {
+  theme?: string;
+  subtheme?: string;
+  tags?: string[];           // basta uma (sem distinguir maiúsculas/acentos)
+}
+
+export interface StudyOptions extends StudyFilters {
+  interleave?: boolean;      // alternar entre decks (antes de cortar pelos limites do dia)
+}
+
+export interface StudyItem {
+  deckId: string;
+  deckTitle: string;
+  kind: "review" | "new";
+  dueAt?: string;            // ISO (reviews)
+  overdueSec?: number;
+  card: Card;
+}
+
+export interface StudyDeckPlan {
+  deckId: string;
+  title: string;
+  owner: DeckAuthor;
+  due: number;
+  new: number;
+}
+
+export interface StudyPlan {
+  day: string;               // YYYY-MM-DD (UTC)
+  reviews: { limit: number; done: number; remaining: number; due: number };
+  newCards: { limit: number; done: number; remaining: number; available: number };
+  decks: StudyDeckPlan[];    // só decks com alguma coisa para hoje
+}
+
+type StudyDeck = { deck: Deck; owner: DeckAuthor };
+
+export function studyDayOf(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/** Contagem de hoje (zeros se `stats.today` for de outro dia). */
+export function todayCounts(user: UserFile, now: Date): StudyDay {
+  const day = studyDayOf(now);
+  const t = user.stats.today;
+  return t && t.day === day ? { ...t } : { day, newCards: 0, reviews: 0 };
+}
+
+/** Conta uma resposta no dia (dentro do mutator de `/solo/answer`). */
+export function countStudyAnswer(user: UserFile, wasNew: boolean, now: Date): void {
+  const t = todayCounts(user, now);
+  if (wasNew) t.newCards += 1;
+  else t.reviews += 1;
+  user.stats.today = t;
+}
+
+function matchesFilters(deck: Deck, f: StudyFilters) {
+  const same = (a: string | undefined, b: string | undefined) => b === undefined || foldText(a ?? "") === foldText(b);
+  if (!same(deck.topic.theme, f.theme) || !same(deck.topic.subtheme, f.subtheme)) return false;
+  if (f.tags?.length) {
+    const tags = new Set((deck.tags ?? []).map(foldText));
+    if (!f.tags.some((t) => tags.has(foldText(t)))) return false;
+  }
+  return true;
+}
+
+/** Round-robin pelos decks, mantendo a ordem dentro de cada deck. */
+export function interleaveByDeck(items: StudyItem[]): StudyItem[] {
+  const byDeck = new Map<string, StudyItem[]>();
+  for (const it of items) {
+    const list = byDeck.get(it.deckId);
+    if (list) list.push(it);
+    else byDeck.set(it.deckId, [it]);
+  }
+  const lists = [...byDeck.values()];
+  const out: StudyItem[] = [];
+  for (let i = 0; out.length < items.length; i++) {
+    for (const list of lists) if (i < list.length) out.push(list[i]);
+  }
+  return out;
+}
+
+export function buildStudyPlan(
+  user: UserFile,
+  decks: StudyDeck[],
+  now: Date,
+  opts: StudyOptions = {}
+): { plan: StudyPlan; reviews: StudyItem[]; fresh: StudyItem[] } {
+  const nowMs = now.getTime();
+  const reviews: Array<StudyItem & { ratio: number }> = [];
+  const fresh: StudyItem[] = [];
+  const perDeck: StudyDeckPlan[] = [];
+
+  for (const { deck, owner } of decks) {
+    if (!matchesFilters(deck, opts)) continue;
+    const row: StudyDeckPlan = { deckId: deck.id, title: deck.title, owner, due: 0, new: 0 };
+    for (const card of deck.cards) {
+      const p = user.progress[card.id];
+      const base = { deckId: deck.id, deckTitle: deck.title, card };
+      if (!p) {
+        fresh.push({ ...base, kind: "new" });
+        row.new += 1;
+        continue;
+      }
+      const due = p.nextReviewAt ? Date.parse(p.nextReviewAt) : NaN;
+      if (Number.isFinite(due) && due > nowMs) continue;
+      const dueMs = Number.isFinite(due) ? due : nowMs;
+      const last = p.lastAnswerAt ? Date.parse(p.lastAnswerAt) : NaN;
+      const interval = Number.isFinite(last) ? Math.max(60_000, dueMs - last) : 60_000;
+      const overdue = nowMs - dueMs;
+      reviews.push({
+        ...base,
+        kind: "review",
+        dueAt: new Date(dueMs).toISOString(),
+        overdueSec: Math.floor(overdue / 1000),
+        ratio: overdue / interval,
+      });
+      row.due += 1;
+    }
+    if (row.due || row.new) perDeck.push(row);
+  }
+
+  reviews.sort((a, b) => b.ratio - a.ratio || Date.parse(a.dueAt!) - Date.parse(b.dueAt!));
+  const due: StudyItem[] = reviews.map(({ ratio: _ratio, ...it }) => it);
+  const { daily } = user.prefs.solo;
+  const done = todayCounts(user, now);
+  const plan: StudyPlan = {
+    day: done.day,
+    reviews: {
+      limit: daily.reviews,
+      done: done.reviews,
+      remaining: Math.min(due.length, Math.max(0, daily.reviews - done.reviews)),
+      due: due.length,
+    },
+    newCards: {
+      limit: daily.newCards,
+      done: done.newCards,
+      remaining: Math.min(fresh.length, Math.max(0, daily.newCards - done.newCards)),
+      available: fresh.length,
+    },
+    decks: perDeck,
+  };
+  return {
+    plan,
+    reviews: (opts.interleave ? interleaveByDeck(due) : due).slice(0, plan.reviews.remaining),
+    fresh: (opts.interleave ? interleaveByDeck(fresh) : fresh).slice(0, plan.newCards.remaining),
+  };
+}
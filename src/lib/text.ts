@@ -0,0 +1,16 @@
+// src/lib/text.ts
+
+/** minúsculas e sem acentos ("Informática" ~ "informatica") */
+export function foldText(s: string) {
+  return s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+/** "Segurança em Redes" -> "seguranca-em-redes" ("C++" -> "cpp") */
+export function slugify(s: string, maxLength = 60) {
+  return foldText(s)
+    .replace(/\+/g, "p")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, maxLength)
+    .replace(/-+$/, "");
+}
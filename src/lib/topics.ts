@@ -0,0 +1,409 @@
+// src/lib/topics.ts
+import { getStorage, gatedWrite } from "./storage";
+import { publishStoreEvent } from "./events";
+import { listUserIds, loadUser, updateUser } from "./store";
+import type { Deck, TopicPath } from "./store";
+import { foldText, slugify } from "./text";
+
+/* topics.json vive na raiz do data dir (coleção ""), como o accounts.json */
+const TOPICS_COLLECTION = "";
+const TOPICS_ID = "topics";
+
+/**
+ * Registo canónico de tópicos (Tema → Subtema → Sub-subtema), curado pelos admins.
+ * `Deck.topic` continua a guardar nomes; o registo define os nomes canónicos e os aliases
+ * que lhes correspondem ("it", "Informática" -> "IT"), e o upsert/import normalizam por ele.
+ */
+
+/* ---------- Tipos ---------- */
+export interface TopicNode {
+  slug: string;              // único entre irmãos; o caminho (`it/redes`) identifica o nó
+  name: string;              // nome canónico (o que fica em Deck.topic)
+  aliases: string[];
+  children: TopicNode[];
+}
+
+interface TopicsDB {
+  version: 1;
+  updatedAt: string;
+  themes: TopicNode[];
+}
+
+export const TOPIC_LEVELS = ["theme", "subtheme", "subsubtheme"] as const;
+export type TopicLevel = (typeof TOPIC_LEVELS)[number];
+
+/** Tópico que não existe no registo (nível e valor recebido). */
+export class UnknownTopicError extends Error {
+  constructor(readonly level: TopicLevel, readonly value: string, readonly suggestions: string[] = []) {
+    super("UNKNOWN_TOPIC");
+    this.name = "UnknownTopicError";
+  }
+}
+
+/* ---------- Registo inicial (árvore do README) ---------- */
+function node(name: string, aliases: string[] = [], children: TopicNode[] = [], slug = slugify(name)): TopicNode {
+  return { slug, name, aliases, children };
+}
+
+export function defaultTopics(): TopicNode[] {
+  return [
+    node("IT", ["Informática", "TI", "Tecnologias de Informação", "Information Technology"], [
+      node("Cibersegurança", ["Cybersecurity", "Segurança Informática"], [
+        node("Criptografia", ["Cryptography"]),
+        node("Criptografia Simétrica", ["Symmetric Cryptography"]),
+        node("Criptografia Assimétrica", ["Asymmetric Cryptography"]),
+        node("Hashing e Assinaturas Digitais", ["Hashing", "Assinaturas Digitais"]),
+        node("Segurança em Redes", ["Network Security"]),
+        node("Engenharia Social", ["Social Engineering"]),
+        node("Legislação e Normas"),
+      ]),
+      node("Programação", ["Programming"], [
+        node("Python"),
+        node("C++", ["CPP"]),
+        node("Segurança em Código", ["Secure Coding"]),
+      ]),
+      node("Redes", ["Networking", "Networks"], [
+        node("TCP/IP", ["TCP", "IP"]),
+        node("VLANs", ["VLAN"]),
+        node("Routing e Switching", ["Routing", "Switching"]),
+        node("Wi-Fi e Segurança Wireless", ["Wi-Fi", "WiFi", "Wireless"]),
+      ]),
+    ]),
+  ];
+}
+
+/* ---------- Bootstrap ---------- */
+async function load(): Promise<TopicsDB> {
+  const storage = getStorage();
+  let raw: string | null = null;
+  try {
+    raw = await storage.readDoc(TOPICS_COLLECTION, TOPICS_ID);
+    if (raw === null) {
+      const init: TopicsDB = { version: 1, updatedAt: new Date().toISOString(), themes: defaultTopics() };
+      await save(init);
+      return init;
+    }
+    const db = JSON.parse(raw) as TopicsDB;
+    if (!db || typeof db !== "object" || !Array.isArray(db.themes)) throw new Error("Invalid DB shape");
+    return db;
+  } catch {
+    try {
+      if (raw !== null && raw.trim() !== "") await storage.quarantineDoc(TOPICS_COLLECTION, TOPICS_ID);
+    } catch {}
+    const init: TopicsDB = { version: 1, updatedAt: new Date().toISOString(), themes: defaultTopics() };
+    await save(init);
+    return init;
+  }
+}
+
+async function save(db: TopicsDB) {
+  db.updatedAt = new Date().toISOString();
+  await gatedWrite(() => getStorage().writeDoc(TOPICS_COLLECTION, TOPICS_ID, JSON.stringify(db, null, 2)));
+}
+
+/**
+ * Escritas em série (como o `withUserLock` da store): duas edições de admin ao mesmo tempo não
+ * se perdem. Os eventos `topic.*` saem com o `userId` do admin (`actorId`), ou "system" nos scripts.
+ */
+const SYSTEM_ACTOR = "system";
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function withTopicsLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = writeQueue.then(fn, fn);
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+export async function getTopicTree(): Promise<TopicNode[]> {
+  return (await load()).themes;
+}
+
+/* ---------- Resolução (puro) ---------- */
+function matches(n: TopicNode, value: string) {
+  const v = foldText(value.trim());
+  return foldText(n.name) === v || n.slug === slugify(value) || n.aliases.some((a) => foldText(a) === v);
+}
+
+/** Nós a que o valor se parece (para sugerir no erro): mesmo prefixo ou contidos um no outro. */
+function suggest(nodes: TopicNode[], value: string) {
+  const v = foldText(value.trim());
+  return nodes
+    .filter((n) => {
+      const name = foldText(n.name);
+      return v.length >= 2 && (name.includes(v) || v.includes(name) || name.slice(0, 3) === v.slice(0, 3));
+    })
+    .map((n) => n.name)
+    .slice(0, 5);
+}
+
+/**
+ * Mapeia um TopicPath para os nomes canónicos do registo.
+ * Devolve também os nós encontrados (do tema para baixo). Lança UnknownTopicError no 1.º nível sem match.
+ */
+export function resolveTopic(themes: TopicNode[], topic: TopicPath): { topic: TopicPath; nodes: TopicNode[] } {
+  const nodes: TopicNode[] = [];
+  let level: TopicNode[] = themes;
+  for (const key of TOPIC_LEVELS) {
+    const value = topic[key];
+    if (!value?.trim()) break;
+    const found = level.find((n) => matches(n, value));
+    if (!found) throw new UnknownTopicError(key, value, suggest(level, value));
+    nodes.push(found);
+    level = found.children;
+  }
+  if (!nodes.length) throw new UnknownTopicError("theme", topic.theme ?? "");
+
+  const [theme, subtheme, subsubtheme] = nodes.map((n) => n.name);
+  return {
+    topic: { theme, ...(subtheme ? { subtheme } : {}), ...(subsubtheme ? { subsubtheme } : {}) },
+    nodes,
+  };
+}
+
+/** Normaliza `topic` pelo registo atual (upsert, import). */
+export async function normalizeTopic(topic: TopicPath): Promise<TopicPath> {
+  return resolveTopic(await getTopicTree(), topic).topic;
+}
+
+/* ---------- Árvore com contagens ---------- */
+export interface TopicTreeNode {
+  slug: string;
+  path: string;              // slugs desde o tema, p.ex. "it/ciberseguranca/hashing-e-assinaturas-digitais"
+  name: string;
+  aliases: string[];
+  deckCount: number;         // decks públicos neste nó e descendentes
+  children: TopicTreeNode[];
+}
+
+/** Árvore para `GET /topics`; decks cujo tópico não está no registo contam em `unmapped`. */
+export function topicTreeWithCounts(themes: TopicNode[], decks: Deck[]): { themes: TopicTreeNode[]; unmapped: number } {
+  const counts = new Map<TopicNode, number>();
+  let unmapped = 0;
+  for (const d of decks) {
+    try {
+      for (const n of resolveTopic(themes, d.topic).nodes) counts.set(n, (counts.get(n) ?? 0) + 1);
+    } catch {
+      unmapped += 1;
+    }
+  }
+  const walk = (n: TopicNode, parent: string): TopicTreeNode => {
+    const path = parent ? `${parent}/${n.slug}` : n.slug;
+    return {
+      slug: n.slug,
+      path,
+      name: n.name,
+      aliases: n.aliases,
+      deckCount: counts.get(n) ?? 0,
+      children: n.children.map((c) => walk(c, path)),
+    };
+  };
+  return { themes: themes.map((t) => walk(t, "")), unmapped };
+}
+
+/* ---------- Curadoria (admin) ---------- */
+export interface TopicInput {
+  name: string;
+  slug?: string;
+  aliases?: string[];
+}
+
+function findPath(themes: TopicNode[], path: string): { node: TopicNode; siblings: TopicNode[] } | null {
+  let level = themes;
+  let found: { node: TopicNode; siblings: TopicNode[] } | null = null;
+  for (const slug of path.split("/").filter(Boolean)) {
+    const node = level.find((n) => n.slug === slug);
+    if (!node) return null;
+    found = { node, siblings: level };
+    level = node.children;
+  }
+  return found;
+}
+
+/** Nome, slug ou alias já usado por outro irmão (os matches têm de ser inequívocos). */
+function assertNoClash(siblings: TopicNode[], self: TopicNode | null, names: string[], slug: string) {
+  for (const other of siblings) {
+    if (other === self) continue;
+    if (other.slug === slug || names.some((v) => matches(other, v))) throw new Error("TOPIC_EXISTS");
+  }
+}
+
+function cleanAliases(aliases: string[], name: string) {
+  const seen = new Set([foldText(name)]);
+  return aliases
+    .map((a) => a.trim())
+    .filter((a) => a && !seen.has(foldText(a)) && seen.add(foldText(a)));
+}
+
+/** Cria um nó; `parentPath` vazio cria um tema. */
+export async function createTopic(
+  parentPath: string | undefined,
+  input: TopicInput,
+  opts: { actorId?: string } = {}
+): Promise<TopicNode> {
+  return withTopicsLock(async () => {
+    const db = await load();
+    let siblings = db.themes;
+    if (parentPath) {
+      const parent = findPath(db.themes, parentPath);
+      if (!parent) throw new Error("TOPIC_NOT_FOUND");
+      if (parentPath.split("/").filter(Boolean).length >= TOPIC_LEVELS.length) throw new Error("TOPIC_TOO_DEEP");
+      siblings = parent.node.children;
+    }
+    const name = input.name.trim();
+    const slug = slugify(input.slug || name);
+    if (!name || !slug) throw new Error("INVALID_TOPIC");
+    const aliases = cleanAliases(input.aliases ?? [], name);
+    assertNoClash(siblings, null, [name, ...aliases], slug);
+
+    const created = node(name, aliases, [], slug);
+    siblings.push(created);
+    await save(db);
+    const path = parentPath ? `${parentPath.split("/").filter(Boolean).join("/")}/${slug}` : slug;
+    publishStoreEvent(opts.actorId ?? SYSTEM_ACTOR, { type: "topic.created", path, topic: structuredClone(created) });
+    return created;
+  });
+}
+
+/**
+ * Renomeia / troca aliases. O nome antigo passa a alias, por isso decks que ainda o usam
+ * continuam a resolver (e a migração `migrate-topics` atualiza-os para o nome novo).
+ */
+export async function updateTopic(
+  path: string,
+  patch: Partial<Pick<TopicInput, "name" | "aliases">>,
+  opts: { actorId?: string } = {}
+): Promise<TopicNode> {
+  return withTopicsLock(async () => {
+    const db = await load();
+    const found = findPath(db.themes, path);
+    if (!found) throw new Error("TOPIC_NOT_FOUND");
+    const { node: target, siblings } = found;
+
+    const name = patch.name?.trim() || target.name;
+    let aliases = patch.aliases ?? target.aliases;
+    if (name !== target.name) aliases = [...aliases, target.name];
+    aliases = cleanAliases(aliases, name);
+    assertNoClash(siblings, target, [name, ...aliases], target.slug);
+
+    target.name = name;
+    target.aliases = aliases;
+    await save(db);
+    publishStoreEvent(opts.actorId ?? SYSTEM_ACTOR, { type: "topic.updated", path, topic: structuredClone(target) });
+    return target;
+  });
+}
+
+/**
+ * Remove um nó. Se houver decks públicos nele (ou descendentes) é preciso `mergeInto`: o nome e
+ * aliases do nó removido passam a aliases do destino, para os decks continuarem a resolver.
+ */
+export async function deleteTopic(
+  path: string,
+  opts: { mergeInto?: string; publicDecks?: Deck[]; actorId?: string } = {}
+): Promise<void> {
+  return withTopicsLock(async () => {
+    const db = await load();
+    const found = findPath(db.themes, path);
+    if (!found) throw new Error("TOPIC_NOT_FOUND");
+
+    if (opts.mergeInto) {
+      const target = findPath(db.themes, opts.mergeInto);
+      if (!target || target.node === found.node || opts.mergeInto.startsWith(`${path}/`)) throw new Error("INVALID_MERGE_TARGET");
+      target.node.aliases = cleanAliases(
+        [...target.node.aliases, found.node.name, ...found.node.aliases],
+        target.node.name
+      );
+    } else {
+      const inUse = (opts.publicDecks ?? []).some((d) => {
+        try {
+          return resolveTopic(db.themes, d.topic).nodes.includes(found.node);
+        } catch {
+          return false;
+        }
+      });
+      if (inUse) throw new Error("TOPIC_IN_USE");
+    }
+
+    found.siblings.splice(found.siblings.indexOf(found.node), 1);
+    await save(db);
+    publishStoreEvent(opts.actorId ?? SYSTEM_ACTOR, { type: "topic.deleted", path, mergeInto: opts.mergeInto });
+  });
+}
+
+/* ---------- Migração dos decks existentes ---------- */
+export interface TopicMigrationReport {
+  decks: number;
+  remapped: Array<{ userId: string; deckId: string; from: TopicPath; to: TopicPath }>;
+  unmapped: Array<{ userId: string; deckId: string; topic: TopicPath; level: TopicLevel }>;
+  added: string[];           // caminhos criados com `addMissing`
+}
+
+const sameTopic = (a: TopicPath, b: TopicPath) =>
+  a.theme === b.theme && a.subtheme === b.subtheme && a.subsubtheme === b.subsubtheme;
+
+/**
+ * Reescreve `Deck.topic` de todos os decks com os nomes canónicos do registo (rev do deck +1).
+ * Tópicos desconhecidos ficam como estão e vão para `unmapped`, ou — com `addMissing` — são
+ * acrescentados ao registo tal como estão escritos.
+ */
+export async function migrateDeckTopics(opts: { dryRun?: boolean; addMissing?: boolean } = {}): Promise<TopicMigrationReport> {
+  const report: TopicMigrationReport = { decks: 0, remapped: [], unmapped: [], added: [] };
+
+  for (const userId of await listUserIds()) {
+    const user = await loadUser(userId);
+    if (!user) continue;
+
+    const changes = new Map<string, TopicPath>();
+    for (const deck of user.decks) {
+      report.decks += 1;
+      let themes = await getTopicTree();
+      let resolved: TopicPath | null = null;
+      for (;;) {
+        try {
+          resolved = resolveTopic(themes, deck.topic).topic;
+          break;
+        } catch (e) {
+          if (!(e instanceof UnknownTopicError)) throw e;
+          if (!opts.addMissing || opts.dryRun) {
+            report.unmapped.push({ userId, deckId: deck.id, topic: deck.topic, level: e.level });
+            break;
+          }
+          report.added.push(await addMissingLevel(themes, deck.topic, e.level));
+          themes = await getTopicTree();
+        }
+      }
+      if (resolved && !sameTopic(resolved, deck.topic)) {
+        report.remapped.push({ userId, deckId: deck.id, from: deck.topic, to: resolved });
+        changes.set(deck.id, resolved);
+      }
+    }
+
+    if (opts.dryRun || changes.size === 0) continue;
+    await updateUser(userId, (u, emit) => {
+      const at = new Date().toISOString();
+      for (const deck of u.decks) {
+        const topic = changes.get(deck.id);
+        if (!topic) continue;
+        deck.topic = topic;
+        deck.rev += 1;
+        deck.updatedAt = at;
+        emit({
+          type: "deck.upserted",
+          deck,
+          created: false,
+          diff: { added: [], changed: [], removed: [], unchanged: deck.cards.length },
+        });
+      }
+    });
+  }
+  return report;
+}
+
+/** Cria o nível em falta (e devolve o caminho criado) a partir do que o deck tem escrito. */
+async function addMissingLevel(themes: TopicNode[], topic: TopicPath, level: TopicLevel): Promise<string> {
+  const depth = TOPIC_LEVELS.indexOf(level);
+  const prefix: TopicPath = { theme: topic.theme, subtheme: depth > 1 ? topic.subtheme : undefined };
+  const parentPath = depth === 0 ? undefined : resolveTopic(themes, prefix).nodes.map((n) => n.slug).join("/");
+  const created = await createTopic(parentPath, { name: topic[level]!.trim() });
+  return parentPath ? `${parentPath}/${created.slug}` : created.slug;
+}
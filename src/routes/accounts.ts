@@ -8,10 +8,8 @@ import config from "../config";
 
 import {
   createUser,
+  deleteUser,
   addDeviceSecret,
-  loadUser,
-  saveUser,
-  setEmail,
 } from "../lib/store";
 import type { AccountEntry } from "../lib/accountStore";
 import {
@@ -92,19 +90,10 @@ accountsRouter.post(
       if (await findByUsername(usernameLower))
         return res.status(409).json({ error: "USERNAME_TAKEN" });
 
-      // 1) cria user.json
+      // 1) cria user.json (perfil, decks, wallet…)
       const user = await createUser(p.username);
-      await setEmail(user.id, p.email);
-
-      // sincroniza flag no user.json
-      const u = await loadUser(user.id);
-      if (u) {
-        u.auth = u.auth || { deviceSecrets: [] };
-        u.auth.emailVerified = false;
-        await saveUser(u);
-      }
 
-      // 2) cria a conta (email + hash) na accountStore
+      // 2) cria a conta (email + hash) na accountStore — única fonte das credenciais
       const hash = await bcrypt.hash(p.password, BCRYPT_COST);
       const verifyToken = nanoid(32);
       const acc: AccountEntry = {
@@ -122,7 +111,12 @@ accountsRouter.post(
         createdAt: nowISO(),
         updatedAt: nowISO(),
       };
-      await insertAccount(acc);
+      try {
+        await insertAccount(acc);
+      } catch (e) {
+        await deleteUser(user.id); // sem conta o user.json ficava órfão (e com o username ocupado)
+        throw e;
+      }
 
       // 3) envia link de verificação
       const verifyUrl = `${baseUrl(req)}/accounts/verify?uid=${encodeURIComponent(
@@ -142,6 +136,9 @@ accountsRouter.post(
       if (e instanceof z.ZodError) {
         return res.status(422).json({ error: "VALIDATION_ERROR", issues: e.issues });
       }
+      // outro registo com o mesmo email/username passou entre a verificação e a escrita
+      if (e?.message === "ACCOUNT_CONFLICT") return res.status(409).json({ error: "ACCOUNT_CONFLICT" });
+      if (e?.message === "USERNAME_TAKEN") return res.status(409).json({ error: "USERNAME_TAKEN" });
       return next(e);
     }
   }
@@ -162,15 +159,6 @@ accountsRouter.get("/verify", async (req, res) => {
     acc.updatedAt = nowISO();
     await updateAccount(acc);
 
-    // sincroniza no user.json
-    const u = await loadUser(acc.userId);
-    if (u) {
-      u.auth = u.auth || { deviceSecrets: [] };
-      u.auth.emailVerified = true;
-      u.auth.email = u.auth.email ?? acc.email;
-      await saveUser(u);
-    }
-
     res.send(
       `<html><body style="font-family:sans-serif"><h3>Conta verificada ✅</h3><p>Podes fechar esta página e fazer login.</p></body></html>`
     );
@@ -190,7 +178,8 @@ accountsRouter.post(
       const acc = await findByEmail(p.email.trim().toLowerCase());
       if (!acc) return res.status(400).json({ error: "INVALID_CREDENTIALS" });
 
-      const ok = await bcrypt.compare(p.password, acc.passwordHash);
+      // contas recuperadas pelo reconcile sem hash só entram depois de um reset
+      const ok = !!acc.passwordHash && (await bcrypt.compare(p.password, acc.passwordHash));
       if (!ok) return res.status(400).json({ error: "INVALID_CREDENTIALS" });
 
       if (!acc.verified) return res.status(403).json({ error: "EMAIL_NOT_VERIFIED" });
@@ -0,0 +1,179 @@
+import express from "express";
+import { z } from "zod";
+import { adminRequired } from "./auth";
+import type { AuthenticatedRequest } from "./auth";
+import {
+  createSnapshot,
+  listSnapshots,
+  verifySnapshot,
+  restoreSnapshot,
+} from "../lib/backup";
+import { collectMediaGarbage, listPublicDecks } from "../lib/store";
+import { createTopic, deleteTopic, migrateDeckTopics, updateTopic } from "../lib/topics";
+
+export const adminRouter = express.Router();
+
+/* ---- Body parser local + todas as rotas exigem admin ---- */
+adminRouter.use(express.json({ limit: "1mb" }));
+adminRouter.use(adminRequired);
+
+/* ---------------- schemas ---------------- */
+
+const CreateBackupSchema = z.object({
+  label: z.string().max(32).optional(),
+});
+
+const RestoreSchema = z.object({
+  userId: z.string().min(1).optional(),
+  confirm: z.literal(true), // evita restores acidentais
+});
+
+const TopicCreateSchema = z.object({
+  parent: z.string().optional(), // caminho de slugs do pai ("it/redes"); sem ele cria um tema
+  name: z.string().min(1).max(80),
+  slug: z.string().max(60).optional(),
+  aliases: z.array(z.string().max(80)).max(50).optional(),
+});
+
+const TopicPatchSchema = z.object({
+  name: z.string().min(1).max(80).optional(),
+  aliases: z.array(z.string().max(80)).max(50).optional(),
+});
+
+const TopicMigrateSchema = z.object({
+  dryRun: z.boolean().default(true),
+  addMissing: z.boolean().default(false),
+});
+
+const MediaGcSchema = z.object({
+  dryRun: z.boolean().default(true),
+  userId: z.string().min(1).optional(),
+});
+
+const errorStatus: Record<string, number> = {
+  INVALID_SNAPSHOT_ID: 400,
+  INVALID_TOPIC: 400,
+  TOPIC_TOO_DEEP: 400,
+  INVALID_MERGE_TARGET: 400,
+  TOPIC_NOT_FOUND: 404,
+  TOPIC_EXISTS: 409,
+  TOPIC_IN_USE: 409,
+  SNAPSHOT_NOT_FOUND: 404,
+  SNAPSHOT_INVALID: 422,
+  USER_NOT_IN_SNAPSHOT: 404,
+};
+
+function fail(res: express.Response, e: any) {
+  const msg = String(e?.message || e);
+  return res.status(errorStatus[msg] ?? 500).json({ error: msg });
+}
+
+/* ---------------- rotas ---------------- */
+
+/** GET /admin/backups — lista snapshots */
+adminRouter.get("/backups", async (_req, res) => {
+  try {
+    return res.json({ backups: await listSnapshots() });
+  } catch (e: any) {
+    return fail(res, e);
+  }
+});
+
+/** POST /admin/backups { label? } — snapshot on-demand */
+adminRouter.post("/backups", async (req, res) => {
+  try {
+    const parsed = CreateBackupSchema.safeParse(req.body ?? {});
+    if (!parsed.success)
+      return res.status(400).json({ error: "INVALID_BODY", issues: parsed.error.issues });
+    const snap = await createSnapshot({ label: parsed.data.label });
+    return res.status(201).json({ backup: snap });
+  } catch (e: any) {
+    return fail(res, e);
+  }
+});
+
+/** GET /admin/backups/:id/verify */
+adminRouter.get("/backups/:id/verify", async (req, res) => {
+  try {
+    const result = await verifySnapshot(req.params.id);
+    return res.status(result.ok ? 200 : 422).json({ verify: result });
+  } catch (e: any) {
+    return fail(res, e);
+  }
+});
+
+/** POST /admin/backups/:id/restore { confirm: true, userId? } */
+adminRouter.post("/backups/:id/restore", async (req, res) => {
+  try {
+    const parsed = RestoreSchema.safeParse(req.body ?? {});
+    if (!parsed.success)
+      return res.status(400).json({ error: "INVALID_BODY", issues: parsed.error.issues });
+    const result = await restoreSnapshot(req.params.id, { userId: parsed.data.userId });
+    return res.json({ ok: true, ...result });
+  } catch (e: any) {
+    return fail(res, e);
+  }
+});
+
+/* ---------------- tópicos ---------------- */
+
+/** POST /admin/topics { parent?, name, slug?, aliases? } */
+adminRouter.post("/topics", async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = TopicCreateSchema.safeParse(req.body ?? {});
+    if (!parsed.success)
+      return res.status(400).json({ error: "INVALID_BODY", issues: parsed.error.issues });
+    const { parent, ...input } = parsed.data;
+    return res.status(201).json({ topic: await createTopic(parent, input, { actorId: req.auth!.user.id }) });
+  } catch (e: any) {
+    return fail(res, e);
+  }
+});
+
+/** PATCH /admin/topics/<caminho> { name?, aliases? } — o nome antigo passa a alias */
+adminRouter.patch("/topics/:path(*)", async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = TopicPatchSchema.safeParse(req.body ?? {});
+    if (!parsed.success)
+      return res.status(400).json({ error: "INVALID_BODY", issues: parsed.error.issues });
+    return res.json({ topic: await updateTopic(req.params.path, parsed.data, { actorId: req.auth!.user.id }) });
+  } catch (e: any) {
+    return fail(res, e);
+  }
+});
+
+/** DELETE /admin/topics/<caminho>?mergeInto=<caminho> — sem mergeInto só se nenhum deck público o usar */
+adminRouter.delete("/topics/:path(*)", async (req: AuthenticatedRequest, res) => {
+  try {
+    const mergeInto = typeof req.query.mergeInto === "string" ? req.query.mergeInto : undefined;
+    const publicDecks = (await listPublicDecks()).map((e) => e.deck);
+    await deleteTopic(req.params.path, { mergeInto, publicDecks, actorId: req.auth!.user.id });
+    return res.json({ ok: true });
+  } catch (e: any) {
+    return fail(res, e);
+  }
+});
+
+/** POST /admin/topics/migrate { dryRun = true, addMissing = false } — ver `npm run migrate-topics` */
+adminRouter.post("/topics/migrate", async (req, res) => {
+  try {
+    const parsed = TopicMigrateSchema.safeParse(req.body ?? {});
+    if (!parsed.success)
+      return res.status(400).json({ error: "INVALID_BODY", issues: parsed.error.issues });
+    return res.json({ dryRun: parsed.data.dryRun, ...(await migrateDeckTopics(parsed.data)) });
+  } catch (e: any) {
+    return fail(res, e);
+  }
+});
+
+/** POST /admin/media/gc { dryRun = true, userId? } — apaga media sem referências; ver `npm run media-gc` */
+adminRouter.post("/media/gc", async (req, res) => {
+  try {
+    const parsed = MediaGcSchema.safeParse(req.body ?? {});
+    if (!parsed.success)
+      return res.status(400).json({ error: "INVALID_BODY", issues: parsed.error.issues });
+    return res.json({ dryRun: parsed.data.dryRun, ...(await collectMediaGarbage(parsed.data)) });
+  } catch (e: any) {
+    return fail(res, e);
+  }
+});
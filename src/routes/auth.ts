@@ -2,7 +2,8 @@
 import express from "express";
 import type { Request, Response, NextFunction } from "express";
 import { z } from "zod";
-import { createUser, addDeviceSecret, findUserByUsername, loadUser, saveUser } from "../lib/store";
+import config from "../config";
+import { createUser, addDeviceSecret, findUserByUsername, loadUser, updateUser, secretHash } from "../lib/store";
 import type { UserFile } from "../lib/store";
 
 export const authRouter = express.Router();
@@ -21,13 +22,9 @@ export interface AuthenticatedRequest extends Request {
   auth?: { user: UserFile; deviceSecret: string };
 }
 
-/* -------- Middleware: authRequired --------
-   Lê X-User-Id e X-Device-Secret dos headers (ou query como fallback). */
-export async function authRequired(
-  req: AuthenticatedRequest,
-  res: express.Response,
-  next: express.NextFunction
-) {
+/* -------- Credenciais --------
+   X-User-Id e X-Device-Secret dos headers (ou query como fallback, p.ex. links de download). */
+export function readCredentials(req: Request): { userId?: string; deviceSecret?: string } {
   const q = req.query as Record<string, unknown>;
 
   const userId =
@@ -40,20 +37,66 @@ export async function authRequired(
     (typeof q.deviceSecret === "string" ? q.deviceSecret : undefined) ??
     (typeof q.ds === "string" ? q.ds : undefined);
 
-  if (!userId || !deviceSecret) {
-    return res.status(401).json({ error: "NO_AUTH" });
-  }
+  return { userId, deviceSecret };
+}
+
+/** Valida as credenciais do pedido: null se não trouxer nenhumas, `error` se forem inválidas. */
+async function resolveAuth(
+  req: Request
+): Promise<{ user: UserFile; deviceSecret: string } | { error: string } | null> {
+  const { userId, deviceSecret } = readCredentials(req);
+  if (!userId || !deviceSecret) return null;
 
   const user = await loadUser(String(userId));
-  if (!user) return res.status(401).json({ error: "USER_NOT_FOUND" });
-  if (!user.auth.deviceSecrets.includes(String(deviceSecret))) {
-    return res.status(401).json({ error: "INVALID_DEVICE_SECRET" });
-  }
+  if (!user) return { error: "USER_NOT_FOUND" };
+  if (!user.auth.deviceSecrets.includes(String(deviceSecret))) return { error: "INVALID_DEVICE_SECRET" };
+  return { user, deviceSecret: String(deviceSecret) };
+}
 
-  req.auth = { user, deviceSecret: String(deviceSecret) };
+/* -------- Middleware: authRequired --------
+   Lê X-User-Id e X-Device-Secret (ver readCredentials). */
+export async function authRequired(
+  req: AuthenticatedRequest,
+  res: express.Response,
+  next: express.NextFunction
+) {
+  const auth = await resolveAuth(req);
+  if (!auth) return res.status(401).json({ error: "NO_AUTH" });
+  if ("error" in auth) return res.status(401).json({ error: auth.error });
+
+  req.auth = auth;
+  next();
+}
+
+/* -------- Middleware: optionalAuth --------
+   Rotas abertas que mostram mais a quem está autenticado (p.ex. decks privados ao dono).
+   Sem credenciais segue anónimo; credenciais inválidas dão 401 (um X-User-Id sozinho não autentica). */
+export async function optionalAuth(
+  req: AuthenticatedRequest,
+  res: express.Response,
+  next: express.NextFunction
+) {
+  const auth = await resolveAuth(req);
+  if (auth && "error" in auth) return res.status(401).json({ error: auth.error });
+  if (auth) req.auth = auth;
   next();
 }
 
+/* -------- Middleware: adminRequired --------
+   authRequired + userId tem de estar em ADMIN_USER_IDS. */
+export async function adminRequired(
+  req: AuthenticatedRequest,
+  res: express.Response,
+  next: express.NextFunction
+) {
+  await authRequired(req, res, () => {
+    if (!config.admin.userIds.includes(req.auth!.user.id)) {
+      return res.status(403).json({ error: "ADMIN_ONLY" });
+    }
+    next();
+  });
+}
+
 /* -------- Schemas -------- */
 const UsernameOnly = z.object({
   username: z.string().min(3, "username must be at least 3 chars"),
@@ -118,8 +161,10 @@ authRouter.get("/me", authRequired, async (req: AuthenticatedRequest, res) => {
 authRouter.post("/logout", authRequired, async (req: AuthenticatedRequest, res, next) => {
   try {
     const { user, deviceSecret } = req.auth!;
-    user.auth.deviceSecrets = user.auth.deviceSecrets.filter((s) => s !== deviceSecret);
-    await saveUser(user);
+    await updateUser(user.id, (u, emit) => {
+      u.auth.deviceSecrets = u.auth.deviceSecrets.filter((s) => s !== deviceSecret);
+      emit({ type: "auth.changed", action: "device_removed", secretHash: secretHash(deviceSecret) });
+    });
     return res.json({ ok: true });
   } catch (e: any) {
     return next(e);
@@ -43,6 +43,9 @@ function questionPayload(l: Lobby) {
       data_json: q.data_json,
       time_limit_sec: q.time_limit_sec,
       hint: q.hint,
+      media: q.media,
+      prompt_html: q.prompt_html,
+      hint_html: q.hint_html,
     },
   };
 }
@@ -53,6 +56,8 @@ const CreateLobbySchema = z.object({
   deckId: z.string().min(1),
   count: z.number().int().min(1).max(50),
   access: z.enum(["PUBLIC", "PRIVATE"]),
+  share: z.string().optional(), // share link de um deck PRIVATE de outro utilizador
+  html: z.boolean().optional(),  // perguntas (lobby:question) com prompt_html/hint_html
 });
 
 const JoinSchema = z.object({
@@ -85,13 +90,15 @@ battlesRouter.post(
       if (!parsed.success)
         return res.status(400).json({ error: "INVALID_BODY", issues: parsed.error.issues });
 
-      const { deckId, count, access } = parsed.data;
+      const { deckId, count, access, share, html } = parsed.data;
 
       const lobby = await battleHub.createLobby({
         hostId: req.auth!.user.id,
         deckId,
         count,
         access,
+        share,
+        html,
       });
 
       // anexa pin só para o host (se PRIVATE)
@@ -1,15 +1,62 @@
 import express from "express";
 import { z } from "zod";
 import {
-  listUserIds,
-  loadUser,
+  findDeck,
   upsertDeck,
+  upsertDeckWithDiff,
+  mergeDeckCards,
+  deleteDeck,
   listPublicDecks,
-  saveUser,
+  publicDeckStats,
+  rateDeck,
+  forkDeck,
+  deckUpstream,
+  pullUpstream,
+  listDeckRevisions,
+  getDeckRevision,
+  restoreDeckRevision,
+  deckAccess,
+  createDeckShare,
+  listDeckShares,
+  revokeDeckShare,
+  deckWriter,
+  setDeckCollaborator,
+  removeDeckCollaborator,
+  listSharedDecks,
+  collaboratorRole,
+  findUserByUsername,
+  readMedia,
+  addCard,
+  updateCard,
+  removeCard,
+  reorderCards,
+  transferCards,
 } from "../lib/store";
-import type { UserFile, Deck, DeckInput, CardInput } from "../lib/store";
-import { authRequired } from "./auth";
+import type { Deck, DeckInput, CardInput, DeckViewer } from "../lib/store";
+import { authRequired, optionalAuth } from "./auth";
 import type { AuthenticatedRequest } from "./auth";
+import { CardSchema, formatIssues } from "../lib/cardData";
+import type { CardIssue } from "../lib/cardData";
+import {
+  importAnki,
+  importCsv,
+  importJsonCards,
+  importQuizlet,
+  ImportFormatError,
+  resolveSeparator,
+} from "../lib/deckImport";
+import type { ImportReport } from "../lib/deckImport";
+import { searchDecks } from "../lib/deckSearch";
+import {
+  EXPORT_CONTENT_TYPES,
+  exportDeckCsv,
+  exportDeckJson,
+  exportDeckMarkdown,
+  exportFilename,
+} from "../lib/deckExport";
+import { normalizeTopic, UnknownTopicError } from "../lib/topics";
+import { cardMediaIds } from "../lib/media";
+import { renderCardHtml, sanitizeCardText } from "../lib/markdown";
 
 export const decksRouter = express.Router();
 
@@ -21,64 +68,84 @@ const TopicPath = z.object({
   subsubtheme: z.string().optional(),
 });
 
-const Card = z.object({
-  id: z.string().optional(), // se vier, ignoramos no upsert (servidor recria)
-  type: z.enum([
-    "MCQ_SINGLE",
-    "MCQ_MULTI",
-    "TRUE_FALSE",
-    "MATCH_LINES",
-    "MATCH_BUCKETS",
-    "TEXT",
-  ]),
-  prompt_md: z.string().min(1),
-  data_json: z.any(), // requerido no DeckInput -> garantimos abaixo (fallback {})
-  time_limit_sec: z.number().int().positive().optional(),
-  hint: z.string().optional(),
-});
+// contrato de data_json por tipo (união discriminada): ver src/lib/cardData.ts
+const Card = CardSchema;
 
 const DeckUpsert = z.object({
   id: z.string().optional(),
   title: z.string().min(1),
   topic: TopicPath,
-  visibility: z.enum(["PUBLIC", "PRIVATE"]),
+  visibility: z.enum(["PUBLIC", "UNLISTED", "PRIVATE"]),
   tags: z.array(z.string()).optional(),
   cards: z.array(Card).default([]),
 });
 
+const CardCreate = z.intersection(
+  Card,
+  z.object({ position: z.number().int().min(0).optional() }) // default: fim do deck
+);
+
+// campos parciais; o card resultante do merge é validado com `Card`
+const CardPatch = z.object({
+  type: z.enum(["MCQ_SINGLE", "MCQ_MULTI", "TRUE_FALSE", "MATCH_LINES", "MATCH_BUCKETS", "TEXT"]),
+  prompt_md: z.string(),
+  data_json: z.unknown(),
+  time_limit_sec: z.number().int().positive(),
+  hint: z.string(),
+  media: z.unknown(),
+}).partial();
+
+const CardReorder = z.object({
+  order: z.array(z.string().min(1)),
+});
+
+const CardTransfer = z.object({
+  cardIds: z.array(z.string().min(1)).min(1),
+  targetDeckId: z.string().min(1),
+  position: z.number().int().min(0).optional(),
+});
+
 type CardZ = z.infer<typeof Card>;
 type DeckUpsertZ = z.infer<typeof DeckUpsert>;
 
 /* ----------------- helpers ----------------- */
 
 function sanitizeDeck(d: Deck) {
-  // nada sensível no deck em si para o MVP
-  return d;
+  // share links e colaboradores só nas rotas próprias; de um fork só sai a atribuição (a ligação dos cards é interna)
+  const { shares: _shares, collaborators: _collaborators, ...deck } = d;
+  if (!deck.forkedFrom) return deck;
+  const { cards: _links, ...forkedFrom } = deck.forkedFrom;
+  return { ...deck, forkedFrom };
 }
 
-async function findDeckAcrossCommunity(deckId: string): Promise<{ deck: Deck; owner: UserFile } | null> {
-  const userIds = await listUserIds();
-  for (const uid of userIds) {
-    const u = await loadUser(uid);
-    if (!u) continue;
-    const deck = u.decks.find(d => d.id === deckId);
-    if (deck) return { deck, owner: u };
-  }
-  return null;
+/** `?html=1`: junta `prompt_html`/`hint_html` a cada card (o texto vai sempre sanitizado). */
+function withCardText<D extends { cards: Deck["cards"] }>(deck: D, html: boolean): D {
+  const cards = deck.cards.map((c) => {
+    const card = sanitizeCardText(c).card;
+    return html ? { ...card, ...renderCardHtml(card) } : card;
+  });
+  return { ...deck, cards };
+}
+
+function wantsHtml(req: express.Request) {
+  return req.query.html === "1" || req.query.html === "true";
+}
+
+/** Quem pede (com `optionalAuth`) + token de share link em `?share=`. */
+function viewerOf(req: AuthenticatedRequest): DeckViewer {
+  const share = typeof req.query.share === "string" ? req.query.share : undefined;
+  return { userId: req.auth?.user.id, share };
+}
+
+/** Card do Zod -> CardInput (data_json é requerido no store) */
+function toCardInput(c: CardZ): CardInput {
+  const { id, type, prompt_md, data_json, time_limit_sec, hint, media } = c;
+  return { id, type, prompt_md, data_json: data_json ?? {}, time_limit_sec, hint, media };
 }
 
 /** Converte payload do Zod -> DeckInput (o que o store/upsertDeck espera) */
 function toDeckInput(src: DeckUpsertZ): DeckInput {
-  const cards: CardInput[] = (src.cards ?? []).map((c: CardZ) => {
-    const { id: _omit, type, prompt_md, data_json, time_limit_sec, hint } = c;
-    return {
-      type,
-      prompt_md,
-      data_json: data_json ?? {}, // garantir requerido
-      time_limit_sec,
-      hint,
-    } as CardInput;
-  });
+  const cards: CardInput[] = (src.cards ?? []).map(toCardInput);
 
   return {
     id: src.id,
@@ -90,30 +157,209 @@ function toDeckInput(src: DeckUpsertZ): DeckInput {
   };
 }
 
+const errorStatus: Record<string, number> = {
+  INVALID_REV: 400,
+  INVALID_ORDER: 400,
+  SAME_DECK: 400,
+  DECK_NOT_FOUND: 404,
+  CARD_NOT_FOUND: 404,
+  REVISION_NOT_FOUND: 404,
+  SHARE_NOT_FOUND: 404,
+  COLLABORATOR_NOT_FOUND: 404,
+  USER_NOT_FOUND: 404,
+  CANNOT_ADD_OWNER: 400,
+  TOO_MANY_COLLABORATORS: 400,
+  UNKNOWN_MEDIA: 400,
+  INVALID_STARS: 400,
+  INVALID_CURSOR: 400,
+  CANNOT_RATE_OWN_DECK: 403,
+  DECK_PRIVATE: 403,
+  DECK_READ_ONLY: 403,
+  OWNER_ONLY: 403,
+  NOT_A_FORK: 400,
+  DECK_REV_MISMATCH: 409,
+  UPSTREAM_GONE: 410,
+};
+
+function fail(res: express.Response, e: any, fallback: string) {
+  if (e instanceof UnknownTopicError) return topicError(res, e);
+  if (e?.issues) return res.status(400).json({ error: "INVALID_CARD", issues: e.issues });
+  const msg = String(e?.message || e);
+  if (errorStatus[msg]) return res.status(errorStatus[msg]).json({ error: msg });
+  return res.status(500).json({ error: fallback, details: msg });
+}
+
+/** 400 com o nível do tópico desconhecido e sugestões do registo (ver GET /topics). */
+function topicError(res: express.Response, e: UnknownTopicError) {
+  return res.status(400).json({ error: e.message, level: e.level, value: e.value, suggestions: e.suggestions });
+}
+
+/**
+ * Revisão esperada do deck, via header `If-Match: <rev>` (opcional).
+ * Com ela, duas edições a partir da mesma versão não se sobrepõem: a 2.ª recebe 409.
+ */
+function expectedRev(req: express.Request): number | undefined {
+  const raw = req.header("if-match");
+  if (raw === undefined) return undefined;
+  const rev = Number(raw.replace(/^W\//, "").replace(/"/g, "").trim());
+  if (!Number.isInteger(rev) || rev < 1) throw new Error("INVALID_REV");
+  return rev;
+}
+
 /* ----------------- rotas ----------------- */
 
 /** POST /decks/upsert  (autenticado)
- * body: DeckUpsert -> cria/atualiza deck do próprio utilizador
+ * body: DeckUpsert -> cria/atualiza deck do próprio utilizador (ou de quem o tenha como EDITOR;
+ * o deck continua no ficheiro do dono e só o dono muda a visibilidade)
+ * Cards enviados com o id que já têm mantêm a identidade (e o progresso);
+ * a resposta inclui `diff` com os ids adicionados/alterados/removidos.
  */
 decksRouter.post("/upsert", authRequired, async (req: AuthenticatedRequest, res) => {
   try {
     const parsed = DeckUpsert.parse(req.body);
     const input: DeckInput = toDeckInput(parsed);
-    const deck = await upsertDeck(req.auth!.user.id, input);
-    return res.status(parsed.id ? 200 : 201).json({ deck: sanitizeDeck(deck) });
+    input.topic = await normalizeTopic(input.topic); // nomes canónicos do registo de tópicos
+    const { ownerId, actorId } = parsed.id
+      ? await deckWriter(req.auth!.user.id, parsed.id)
+      : { ownerId: req.auth!.user.id, actorId: undefined };
+    const { deck, diff } = await upsertDeckWithDiff(ownerId, input, {
+      expectedRev: parsed.id ? expectedRev(req) : undefined,
+      actorId,
+    });
+    return res.status(parsed.id ? 200 : 201).json({ deck: sanitizeDeck(deck), diff });
   } catch (e: any) {
     if (e?.issues) return res.status(400).json({ error: "INVALID_DECK", issues: e.issues });
-    return res.status(500).json({ error: "UPSERT_FAILED", details: String(e?.message || e) });
+    return fail(res, e, "UPSERT_FAILED");
   }
 });
 
-/** GET /decks/mine  (autenticado) */
+/** POST /decks/validate  (autenticado) — dry-run do upsert, nada é gravado
+ * body: DeckUpsert -> { ok, issues: [{ path, message, cardIndex? }], warnings, preview }
+ * `warnings` (mesmo formato) diz o que a sanitização do markdown vai tirar (HTML, links, imagens).
+ * `preview.diff` compara com o deck atual quando `id` é um deck do próprio (ou em que é EDITOR).
+ */
+decksRouter.post("/validate", authRequired, async (req: AuthenticatedRequest, res) => {
+  const parsed = DeckUpsert.safeParse(req.body);
+  if (!parsed.success) {
+    return res.json({ ok: false, issues: formatIssues(parsed.error.issues), preview: null });
+  }
+
+  try {
+    const input = toDeckInput(parsed.data);
+    const byType: Record<string, number> = {};
+    for (const c of input.cards) byType[c.type] = (byType[c.type] ?? 0) + 1;
+
+    const issues: CardIssue[] = [];
+    try {
+      input.topic = await normalizeTopic(input.topic);
+    } catch (e) {
+      if (!(e instanceof UnknownTopicError)) throw e;
+      const hint = e.suggestions.length ? ` (did you mean ${e.suggestions.join(", ")}?)` : "";
+      issues.push({ path: `topic.${e.level}`, message: `unknown topic "${e.value}"${hint}` });
+    }
+    let diff = null;
+    if (input.id) {
+      const me = req.auth!.user;
+      const found = await findDeck(input.id);
+      const current =
+        found && (found.owner.id === me.id || collaboratorRole(found.deck, me.id) === "EDITOR") ? found.deck : null;
+      if (!current) {
+        issues.push({ path: "id", message: "deck not found among your decks" });
+      } else {
+        const d = mergeDeckCards(current.cards, input.cards).diff;
+        diff = { added: d.added.length, changed: d.changed, removed: d.removed, unchanged: d.unchanged };
+      }
+    }
+
+    // o que a sanitização vai tirar do markdown não impede a gravação: só avisa
+    const warnings: CardIssue[] = [];
+    // os cards de `parsed` já vêm sanitizados (schema Markdown): compara-se o texto enviado, que passou
+    // na validação; sem `cards` no body o DeckUpsert assume `[]`
+    const sent: CardInput[] = Array.isArray(req.body.cards) ? req.body.cards : [];
+    for (const [i, card] of sent.entries()) {
+      for (const ch of sanitizeCardText(card).changes) {
+        warnings.push({
+          path: `cards.${i}.${ch.path}`,
+          message: `unsafe markdown removed (${ch.removed.join(", ")})`,
+          cardIndex: i,
+        });
+      }
+    }
+
+    return res.json({
+      ok: issues.length === 0,
+      issues,
+      warnings,
+      preview: {
+        deck: input,
+        counts: { total: input.cards.length, byType },
+        diff,
+      },
+    });
+  } catch (e: any) {
+    return fail(res, e, "VALIDATE_FAILED");
+  }
+});
+
+/** GET /decks/mine  (autenticado)
+ * -> { decks, shared: [{ deck, owner, role }] } — `shared` são decks de outros em que é colaborador.
+ */
 decksRouter.get("/mine", authRequired, async (req: AuthenticatedRequest, res) => {
   const user = req.auth!.user;
-  return res.json({ decks: user.decks.map(sanitizeDeck) });
+  const shared = await listSharedDecks(user.id);
+  return res.json({
+    decks: user.decks.map(sanitizeDeck),
+    shared: shared.map(s => ({ deck: sanitizeDeck(s.deck), owner: s.owner, role: s.role })),
+  });
+});
+
+/** GET /decks/search  (aberto) — catálogo público com filtros, ordenação e cursor
+ * query: q, theme, subtheme, subsubtheme, owner, types=MCQ_SINGLE,TEXT, battle=1|0,
+ *        sort=newest|plays|rating, limit (1..100, default 20), cursor (o `nextCursor` anterior)
+ * Devolve resumos (nº de cards, tipos, stats) em vez dos cards.
+ */
+const CARD_TYPES = ["MCQ_SINGLE", "MCQ_MULTI", "TRUE_FALSE", "MATCH_LINES", "MATCH_BUCKETS", "TEXT"] as const;
+
+const SearchQuery = z.object({
+  q: z.string().max(200).optional(),
+  theme: z.string().min(1).optional(),
+  subtheme: z.string().min(1).optional(),
+  subsubtheme: z.string().min(1).optional(),
+  owner: z.string().min(1).optional(),
+  types: z
+    .string()
+    .transform((v) => v.split(",").map((t) => t.trim().toUpperCase()).filter(Boolean))
+    .pipe(z.array(z.enum(CARD_TYPES)))
+    .optional(),
+  battle: z.enum(["1", "0", "true", "false"]).transform((v) => v === "1" || v === "true").optional(),
+  sort: z.enum(["newest", "plays", "rating"]).default("newest"),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().min(1).optional(),
+});
+
+decksRouter.get("/search", async (req, res) => {
+  const q = SearchQuery.safeParse(req.query);
+  if (!q.success) return res.status(400).json({ error: "INVALID_QUERY", issues: q.error.issues });
+  try {
+    const params = { ...q.data };
+    if (params.theme) {
+      // aliases ("Informática", "ti") -> nomes canónicos; tópicos fora do registo ficam como vieram
+      try {
+        const topic = await normalizeTopic({ theme: params.theme, subtheme: params.subtheme, subsubtheme: params.subsubtheme });
+        Object.assign(params, { theme: topic.theme, subtheme: topic.subtheme, subsubtheme: topic.subsubtheme });
+      } catch (e) {
+        if (!(e instanceof UnknownTopicError)) throw e;
+      }
+    }
+    const result = searchDecks(await listPublicDecks(), await publicDeckStats(), params);
+    return res.json(result);
+  } catch (e: any) {
+    return fail(res, e, "SEARCH_FAILED");
+  }
 });
 
-/** GET /decks/public  (aberto) — lista decks públicos com autor */
+/** GET /decks/public  (aberto) — lista decks públicos com autor e todos os cards
+ * (para listas/pesquisa usar /decks/search, que devolve resumos paginados) */
 decksRouter.get("/public", async (_req, res) => {
   const rows = await listPublicDecks();
   return res.json({
@@ -124,98 +370,490 @@ decksRouter.get("/public", async (_req, res) => {
   });
 });
 
-/** GET /decks/:deckId  (aberto) — procura em toda a comunidade (se público) */
-decksRouter.get("/:deckId", async (req, res) => {
+/** GET /decks/:deckId[?share=<token>][&html=1]  (autenticação opcional)
+ * PUBLIC/UNLISTED: qualquer um; PRIVATE: o dono, colaboradores ou quem tiver um share link válido.
+ * `access` diz com que direito se está a ver ("owner" | "editor" | "read").
+ * Com `html=1` cada card traz também `prompt_html` (e `hint_html`) já renderizados e seguros.
+ */
+decksRouter.get("/:deckId", optionalAuth, async (req: AuthenticatedRequest, res) => {
   const { deckId } = req.params;
-  const found = await findDeckAcrossCommunity(deckId);
+  const found = await findDeck(deckId);
   if (!found) return res.status(404).json({ error: "DECK_NOT_FOUND" });
-  if (found.deck.visibility !== "PUBLIC") {
-    // só expomos deck privado ao próprio (via header opcional)
-    const uid = String(req.header("x-user-id") || "");
-    if (uid !== found.owner.id) return res.status(403).json({ error: "DECK_PRIVATE" });
+  const access = deckAccess(found, viewerOf(req));
+  if (!access) return res.status(403).json({ error: "DECK_PRIVATE" });
+  return res.json({
+    deck: withCardText(sanitizeDeck(found.deck), wantsHtml(req)),
+    owner: { userId: found.owner.id, username: found.owner.username },
+    access,
+  });
+});
+
+/** GET /decks/:deckId/export?format=json|csv|md
+ * PUBLIC/UNLISTED: qualquer um. PRIVATE: o dono autenticado (headers ou `?uid=&ds=` para links de
+ * download) ou `?share=<token>`.
+ * json/csv voltam a entrar por POST /decks/import (json como `jsonDeck`, csv como `text`).
+ */
+const ExportQuery = z.object({
+  format: z.enum(["json", "csv", "md"]).default("json"),
+});
+
+decksRouter.get("/:deckId/export", optionalAuth, async (req: AuthenticatedRequest, res) => {
+  const q = ExportQuery.safeParse(req.query);
+  if (!q.success) return res.status(400).json({ error: "INVALID_FORMAT", allowed: ["json", "csv", "md"] });
+
+  const found = await findDeck(req.params.deckId);
+  if (!found) return res.status(404).json({ error: "DECK_NOT_FOUND" });
+  if (!deckAccess(found, viewerOf(req))) return res.status(403).json({ error: "DECK_PRIVATE" });
+
+  const { format } = q.data;
+  const deck = found.deck;
+  const owner = { userId: found.owner.id, username: found.owner.username };
+  const body =
+    format === "json"
+      ? JSON.stringify(exportDeckJson(deck, owner), null, 2)
+      : format === "csv"
+        ? exportDeckCsv(deck)
+        : exportDeckMarkdown(deck, owner);
+
+  res.attachment(exportFilename(deck, format)); // antes do type: attachment() também define o Content-Type
+  res.type(EXPORT_CONTENT_TYPES[format]);
+  return res.send(body);
+});
+
+/** GET /decks/:deckId/media/:mediaId[?share=<token>]  (autenticação opcional, como GET /decks/:deckId)
+ * Serve uma imagem/áudio referido pelos cards atuais do deck (`media` do card ou das opções).
+ * Para <img>/<audio> de decks privados: `?uid=&ds=` ou `?share=`.
+ */
+decksRouter.get("/:deckId/media/:mediaId", optionalAuth, async (req: AuthenticatedRequest, res) => {
+  const found = await findDeck(req.params.deckId);
+  if (!found) return res.status(404).json({ error: "DECK_NOT_FOUND" });
+  if (!deckAccess(found, viewerOf(req))) return res.status(403).json({ error: "DECK_PRIVATE" });
+
+  const { mediaId } = req.params;
+  const file = cardMediaIds(found.deck.cards).has(mediaId) ? await readMedia(found.owner.id, mediaId) : null;
+  if (!file) return res.status(404).json({ error: "MEDIA_NOT_FOUND" });
+
+  // o id é o sha256 do conteúdo: nunca muda; só decks públicos podem ficar em caches partilhadas
+  const etag = `"${mediaId}"`;
+  res.set({
+    ETag: etag,
+    "Cache-Control": `${found.deck.visibility === "PUBLIC" ? "public" : "private"}, max-age=31536000, immutable`,
+  });
+  if (req.header("if-none-match") === etag) return res.status(304).end();
+  res.type(file.media.mime);
+  return res.send(file.data);
+});
+
+/** PUT /decks/:deckId/rating  (autenticado)  body: { stars: 1..5 }
+ *  DELETE /decks/:deckId/rating  — remove a avaliação
+ * Só decks públicos de outros utilizadores; conta para `sort=rating` na pesquisa.
+ */
+const RatingBody = z.object({ stars: z.number().int().min(1).max(5) });
+
+decksRouter.put("/:deckId/rating", authRequired, async (req: AuthenticatedRequest, res) => {
+  const parsed = RatingBody.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: "INVALID_STARS" });
+  try {
+    const rating = await rateDeck(req.auth!.user.id, req.params.deckId, parsed.data.stars);
+    const stats = (await publicDeckStats()).get(req.params.deckId);
+    return res.json({ rating, stats });
+  } catch (e: any) {
+    return fail(res, e, "RATING_FAILED");
+  }
+});
+
+decksRouter.delete("/:deckId/rating", authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    await rateDeck(req.auth!.user.id, req.params.deckId, null);
+    return res.json({ ok: true });
+  } catch (e: any) {
+    return fail(res, e, "RATING_FAILED");
+  }
+});
+
+/* ----------------- share links (só o dono do deck) ----------------- */
+
+/** POST /decks/:deckId/shares  body: { label?, expiresInDays? }
+ * -> 201 { share, token, path } — o token só aparece nesta resposta; quem o tiver pode ver,
+ * exportar, estudar (`share` em /solo) e usar o deck em battles, mesmo que seja PRIVATE.
+ */
+const ShareBody = z.object({
+  label: z.string().max(60).optional(),
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+});
+
+decksRouter.post("/:deckId/shares", authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { label, expiresInDays } = ShareBody.parse(req.body ?? {});
+    const expiresAt = expiresInDays ? new Date(Date.now() + expiresInDays * 86400_000).toISOString() : undefined;
+    const { share, token } = await createDeckShare(req.auth!.user.id, req.params.deckId, { label, expiresAt });
+    return res.status(201).json({ share, token, path: `/decks/${req.params.deckId}?share=${token}` });
+  } catch (e: any) {
+    if (e?.issues) return res.status(400).json({ error: "INVALID_BODY", issues: e.issues });
+    return fail(res, e, "SHARE_FAILED");
+  }
+});
+
+/** GET /decks/:deckId/shares -> { shares: [{ id, label?, createdAt, expiresAt? }] } (sem tokens) */
+decksRouter.get("/:deckId/shares", authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    return res.json({ shares: await listDeckShares(req.auth!.user.id, req.params.deckId) });
+  } catch (e: any) {
+    return fail(res, e, "SHARE_FAILED");
+  }
+});
+
+/** DELETE /decks/:deckId/shares/:shareId — revoga o link */
+decksRouter.delete("/:deckId/shares/:shareId", authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    await revokeDeckShare(req.auth!.user.id, req.params.deckId, req.params.shareId);
+    return res.json({ ok: true });
+  } catch (e: any) {
+    return fail(res, e, "SHARE_FAILED");
+  }
+});
+
+/* ----------------- colaboradores -----------------
+ * O deck continua no ficheiro do dono; EDITOR pode editar (upsert e rotas de cards), VIEWER só
+ * ver/estudar mesmo que seja PRIVATE. Quem fez cada alteração fica no histórico (`by`).
+ */
+
+/** GET /decks/:deckId/collaborators  (dono ou colaborador)
+ * -> { owner, collaborators: [{ userId, username, role, addedAt }] }
+ */
+decksRouter.get("/:deckId/collaborators", authRequired, async (req: AuthenticatedRequest, res) => {
+  const me = req.auth!.user.id;
+  const found = await findDeck(req.params.deckId);
+  if (!found || (found.owner.id !== me && !collaboratorRole(found.deck, me))) {
+    return res.status(404).json({ error: "DECK_NOT_FOUND" });
   }
   return res.json({
-    deck: sanitizeDeck(found.deck),
     owner: { userId: found.owner.id, username: found.owner.username },
+    collaborators: found.deck.collaborators ?? [],
   });
 });
 
+/** PUT /decks/:deckId/collaborators  (só o dono)  body: { username, role: EDITOR|VIEWER }
+ * Convida um utilizador ou muda o papel de um colaborador -> { collaborator }
+ */
+const CollaboratorBody = z.object({
+  username: z.string().min(1),
+  role: z.enum(["EDITOR", "VIEWER"]),
+});
+
+decksRouter.put("/:deckId/collaborators", authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { username, role } = CollaboratorBody.parse(req.body ?? {});
+    const target = await findUserByUsername(username);
+    if (!target) throw new Error("USER_NOT_FOUND");
+    const collaborator = await setDeckCollaborator(
+      req.auth!.user.id,
+      req.params.deckId,
+      { userId: target.id, username: target.username },
+      role
+    );
+    return res.json({ collaborator });
+  } catch (e: any) {
+    if (e?.issues) return res.status(400).json({ error: "INVALID_BODY", issues: e.issues });
+    return fail(res, e, "COLLABORATOR_FAILED");
+  }
+});
+
+/** DELETE /decks/:deckId/collaborators/:userId — o dono remove qualquer um; um colaborador pode sair */
+decksRouter.delete("/:deckId/collaborators/:userId", authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const me = req.auth!.user.id;
+    const found = await findDeck(req.params.deckId);
+    if (!found || (found.owner.id !== me && req.params.userId !== me)) throw new Error("DECK_NOT_FOUND");
+    await removeDeckCollaborator(found.owner.id, req.params.deckId, req.params.userId);
+    return res.json({ ok: true });
+  } catch (e: any) {
+    return fail(res, e, "COLLABORATOR_FAILED");
+  }
+});
+
+/* ----------------- forks ----------------- */
+
+/** POST /decks/:deckId/fork  (autenticado)  body: { title?, visibility? = PRIVATE }
+ * Copia um deck público (ou do próprio) para os decks do utilizador, com `forkedFrom`
+ * (deck, autor e rev da origem). O autor original continua creditado na vista pública.
+ */
+const ForkBody = z.object({
+  title: z.string().min(1).optional(),
+  visibility: z.enum(["PUBLIC", "UNLISTED", "PRIVATE"]).optional(),
+});
+
+decksRouter.post("/:deckId/fork", authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const body = ForkBody.parse(req.body ?? {});
+    const deck = await forkDeck(req.auth!.user.id, req.params.deckId, body);
+    return res.status(201).json({ deck: sanitizeDeck(deck) });
+  } catch (e: any) {
+    if (e?.issues) return res.status(400).json({ error: "INVALID_BODY", issues: e.issues });
+    return fail(res, e, "FORK_FAILED");
+  }
+});
+
+/** GET /decks/:deckId/upstream  (autenticado, dono do fork)
+ * -> { source: { deckId, owner, title, rev, syncedRev }, changes: [{ sourceCardId, kind, cardId, localModified, upstream?, local? }] }
+ * `kind`: added | changed | removed na origem desde o fork / último pull.
+ */
+decksRouter.get("/:deckId/upstream", authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    return res.json(await deckUpstream(req.auth!.user.id, req.params.deckId));
+  } catch (e: any) {
+    return fail(res, e, "UPSTREAM_FAILED");
+  }
+});
+
+/** POST /decks/:deckId/upstream/pull  body: { cardIds?, dismiss? } (ids de cards da origem)
+ * Sem `cardIds` puxa todas as alterações (menos as de `dismiss`, que ficam marcadas como vistas).
+ * Aceita If-Match. -> { deck, diff, pulled, dismissed }
+ */
+const PullBody = z.object({
+  cardIds: z.array(z.string().min(1)).optional(),
+  dismiss: z.array(z.string().min(1)).optional(),
+});
+
+decksRouter.post("/:deckId/upstream/pull", authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const body = PullBody.parse(req.body ?? {});
+    const { deck, ...result } = await pullUpstream(req.auth!.user.id, req.params.deckId, body, {
+      expectedRev: expectedRev(req),
+    });
+    return res.json({ deck: sanitizeDeck(deck), ...result });
+  } catch (e: any) {
+    if (e?.issues) return res.status(400).json({ error: "INVALID_BODY", issues: e.issues });
+    return fail(res, e, "PULL_FAILED");
+  }
+});
+
+/* ----------------- revisões -----------------
+ * Cada gravação do deck fica no histórico (máx. DECK_REVISIONS_KEEP por deck; ver docs/json-storage.md).
+ * Dono e colaboradores podem consultar; restaurar é só para o dono.
+ */
+
+function revParam(req: express.Request): number {
+  const rev = Number(req.params.rev);
+  if (!Number.isInteger(rev) || rev < 1) throw new Error("INVALID_REV");
+  return rev;
+}
+
+/** GET /decks/:deckId/revisions -> { deckId, rev, keep, revisions: [{ rev, at, by, changes, title, cardCount }] } */
+decksRouter.get("/:deckId/revisions", authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    return res.json(await listDeckRevisions(req.auth!.user.id, req.params.deckId));
+  } catch (e: any) {
+    return fail(res, e, "REVISIONS_FAILED");
+  }
+});
+
+/** GET /decks/:deckId/revisions/:rev -> { revision (com o deck completo), diff (face à revisão anterior) } */
+decksRouter.get("/:deckId/revisions/:rev", authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    return res.json(await getDeckRevision(req.auth!.user.id, req.params.deckId, revParam(req)));
+  } catch (e: any) {
+    return fail(res, e, "REVISIONS_FAILED");
+  }
+});
+
+/** POST /decks/:deckId/revisions/:rev/restore  (aceita If-Match) -> { deck, diff, restoredFrom }
+ * O restore é uma gravação nova (rev + 1), por isso também pode ser desfeito.
+ */
+decksRouter.post("/:deckId/revisions/:rev/restore", authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { deck, ...result } = await restoreDeckRevision(req.auth!.user.id, req.params.deckId, revParam(req), {
+      expectedRev: expectedRev(req),
+    });
+    return res.json({ deck: sanitizeDeck(deck), ...result });
+  } catch (e: any) {
+    return fail(res, e, "RESTORE_FAILED");
+  }
+});
+
 /** DELETE /decks/:deckId  (autenticado) — remove deck do próprio */
 decksRouter.delete("/:deckId", authRequired, async (req: AuthenticatedRequest, res) => {
   try {
     const { deckId } = req.params;
-    const user = req.auth!.user;
-    const before = user.decks.length;
-    user.decks = user.decks.filter(d => d.id !== deckId);
-    if (user.decks.length === before) return res.status(404).json({ error: "DECK_NOT_FOUND" });
-    await saveUser(user);
+    const removed = await deleteDeck(req.auth!.user.id, deckId);
+    if (!removed) return res.status(404).json({ error: "DECK_NOT_FOUND" });
     return res.json({ ok: true });
   } catch (e: any) {
     return res.status(500).json({ error: "DELETE_FAILED", details: String(e?.message || e) });
   }
 });
 
+/* ----------------- cards (dono do deck ou EDITOR) -----------------
+ * Todas aceitam `If-Match: <rev do deck>` e devolvem o `rev` novo do deck.
+ * move/copy entre decks é só para o dono (os dois decks têm de ser dele).
+ */
+
+/** POST /decks/:deckId/cards  body: Card + { position? } -> 201 { card, rev } */
+decksRouter.post("/:deckId/cards", authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { position, ...card } = CardCreate.parse(req.body);
+    const { ownerId, actorId } = await deckWriter(req.auth!.user.id, req.params.deckId);
+    const result = await addCard(ownerId, req.params.deckId, toCardInput(card), {
+      position,
+      expectedRev: expectedRev(req),
+      actorId,
+    });
+    return res.status(201).json(result);
+  } catch (e: any) {
+    return fail(res, e, "CARD_CREATE_FAILED");
+  }
+});
+
+/** PATCH /decks/:deckId/cards/:cardId  body: campos parciais do Card -> { card, rev } */
+decksRouter.patch("/:deckId/cards/:cardId", authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const patch = CardPatch.parse(req.body ?? {});
+    const { ownerId, actorId } = await deckWriter(req.auth!.user.id, req.params.deckId);
+    const { card, rev } = await updateCard(
+      ownerId,
+      req.params.deckId,
+      req.params.cardId,
+      (current) => toCardInput(Card.parse({ ...current, ...patch })), // o resultado tem de ser um Card válido
+      { expectedRev: expectedRev(req), actorId }
+    );
+    return res.json({ card, rev });
+  } catch (e: any) {
+    return fail(res, e, "CARD_UPDATE_FAILED");
+  }
+});
+
+/** DELETE /decks/:deckId/cards/:cardId -> { ok, rev } (progresso do card é arquivado) */
+decksRouter.delete("/:deckId/cards/:cardId", authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { ownerId, actorId } = await deckWriter(req.auth!.user.id, req.params.deckId);
+    const { rev } = await removeCard(ownerId, req.params.deckId, req.params.cardId, {
+      expectedRev: expectedRev(req),
+      actorId,
+    });
+    return res.json({ ok: true, rev });
+  } catch (e: any) {
+    return fail(res, e, "CARD_DELETE_FAILED");
+  }
+});
+
+/** POST /decks/:deckId/cards/reorder  body: { order: cardId[] } (todos os ids do deck) */
+decksRouter.post("/:deckId/cards/reorder", authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { order } = CardReorder.parse(req.body);
+    const { ownerId, actorId } = await deckWriter(req.auth!.user.id, req.params.deckId);
+    const result = await reorderCards(ownerId, req.params.deckId, order, {
+      expectedRev: expectedRev(req),
+      actorId,
+    });
+    return res.json(result);
+  } catch (e: any) {
+    return fail(res, e, "CARD_REORDER_FAILED");
+  }
+});
+
+/** POST /decks/:deckId/cards/move|copy  body: { cardIds, targetDeckId, position? }
+ * move mantém os ids (e o progresso); copy cria cards novos. If-Match refere-se ao deck de origem.
+ */
+for (const mode of ["move", "copy"] as const) {
+  decksRouter.post(`/:deckId/cards/${mode}`, authRequired, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { cardIds, targetDeckId, position } = CardTransfer.parse(req.body);
+      const result = await transferCards(
+        req.auth!.user.id,
+        req.params.deckId,
+        { toDeckId: targetDeckId, cardIds, mode, position },
+        { expectedRev: expectedRev(req) }
+      );
+      return res.json(result);
+    } catch (e: any) {
+      return fail(res, e, `CARD_${mode.toUpperCase()}_FAILED`);
+    }
+  });
+}
+
 /** POST /decks/import  (autenticado)
  * Aceita:
  *  - body.jsonDeck: objeto DeckUpsert (sem id)  OU
- *  - body.text: CSV/TSV com colunas: type,prompt_md,data_json,time_limit_sec,hint
+ *  - body.text + format:
+ *     - "csv" (default): CSV/TSV/`;` (RFC 4180) com colunas prompt_md, type?, data_json? ou
+ *       option1..N + correct, time_limit_sec?, hint? (ver src/lib/deckImport.ts)
+ *     - "anki": export "Notes in Plain Text" (campos HTML, tags -> Deck.tags)
+ *     - "quizlet": export termo/definição (`delimiter` entre termo e definição, `rowSeparator` entre cartões)
+ *    Anki/Quizlet dão cards TEXT (ou MCQ com `answerAs: "mcq"`) e TRUE_FALSE para respostas verdadeiro/falso.
+ * Rows inválidas não abortam: o deck é criado com as válidas e `report.errors` lista as outras
+ * (com `strict: true` nada é gravado se houver erros). `dryRun: true` (ou `?dryRun=1`) só devolve
+ * o relatório e um preview.
  */
+const ImportBody = z.object({
+  jsonDeck: z.record(z.unknown()).optional(),
+  text: z.string().optional(),
+  format: z.enum(["csv", "anki", "quizlet"]).default("csv"),
+  delimiter: z.string().min(1).max(10).optional(),
+  rowSeparator: z.string().min(1).max(10).optional(),
+  html: z.boolean().optional(),
+  answerAs: z.enum(["text", "mcq"]).optional(),
+  choices: z.number().int().min(2).max(6).optional(),
+  dryRun: z.boolean().optional(),
+  strict: z.boolean().default(false),
+  title: z.string().min(1).optional(),
+  topic: TopicPath.optional(),
+  visibility: z.enum(["PUBLIC", "UNLISTED", "PRIVATE"]).optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+const PREVIEW_CARDS = 20;
+
 decksRouter.post("/import", authRequired, async (req: AuthenticatedRequest, res) => {
   try {
-    const { jsonDeck, text, title, topic, visibility = "PRIVATE", tags = [] } = req.body || {};
-    let cards: Array<CardZ> = [];
-
-    if (jsonDeck) {
-      const parsedDeck = DeckUpsert.parse(jsonDeck);
-      cards = parsedDeck.cards ?? [];
-    } else if (typeof text === "string") {
-      const lines = text.split(/\r?\n/).filter(l => l.trim().length > 0);
-      if (lines.length === 0) return res.status(400).json({ error: "EMPTY_TEXT" });
-      const sep = lines[0].includes("\t") ? "\t" : ","; // TSV ou CSV
-      const header = lines[0].split(sep).map(h => h.trim().toLowerCase());
-      const idx = (k: string) => header.indexOf(k);
-
-      const reqCols = ["type", "prompt_md", "data_json"];
-      for (const c of reqCols) if (idx(c) === -1) {
-        return res.status(400).json({ error: "MISSING_COLUMN", column: c });
-      }
+    const body = ImportBody.parse(req.body ?? {});
+    const dryRun = body.dryRun ?? ["1", "true"].includes(String(req.query.dryRun ?? ""));
+    const src = (body.jsonDeck ?? {}) as Record<string, any>;
 
-      for (const line of lines.slice(1)) {
-        const cols = line.split(sep);
-        const type = cols[idx("type")]?.trim();
-        const prompt_md = cols[idx("prompt_md")]?.trim();
-        const dataStr = cols[idx("data_json")]?.trim();
-        const timeStr = idx("time_limit_sec") !== -1 ? cols[idx("time_limit_sec")]?.trim() : undefined;
-        const hint = idx("hint") !== -1 ? cols[idx("hint")]?.trim() : undefined;
-
-        let data_json: any = undefined;
-        try { data_json = dataStr ? JSON.parse(dataStr) : {}; } catch {
-          return res.status(400).json({ error: "INVALID_DATA_JSON", line });
-        }
-        const time_limit_sec = timeStr ? Number(timeStr) : undefined;
-
-        const cParse = Card.safeParse({ type, prompt_md, data_json, time_limit_sec, hint });
-        if (!cParse.success) {
-          return res.status(400).json({ error: "INVALID_CARD", line, issues: cParse.error.issues });
-        }
-        cards.push(cParse.data);
+    let report: ImportReport;
+    if (body.jsonDeck) {
+      report = importJsonCards(src.cards ?? []);
+    } else if (typeof body.text === "string") {
+      const delimiter = body.delimiter ? resolveSeparator(body.delimiter) : undefined;
+      const qa = { answerAs: body.answerAs, choices: body.choices };
+      if (body.format === "anki") {
+        report = importAnki(body.text, { ...qa, delimiter, html: body.html });
+      } else if (body.format === "quizlet") {
+        const rowSeparator = body.rowSeparator ? resolveSeparator(body.rowSeparator) : undefined;
+        report = importQuizlet(body.text, { ...qa, termSeparator: delimiter, rowSeparator });
+      } else {
+        report = importCsv(body.text, { delimiter });
       }
     } else {
       return res.status(400).json({ error: "NO_IMPORT_PAYLOAD" });
     }
 
-    const baseParsed = DeckUpsert.parse({
-      title: title ?? "Imported Deck",
-      topic: topic ?? { theme: "IT" },
-      visibility,
-      tags,
-      cards,
+    const meta = DeckUpsert.omit({ id: true, cards: true }).parse({
+      title: body.title ?? src.title ?? report.title ?? "Imported Deck",
+      topic: body.topic ?? src.topic ?? report.topic ?? { theme: "IT" },
+      visibility: body.visibility ?? src.visibility ?? "PRIVATE",
+      tags: body.tags ?? src.tags ?? report.tags ?? [],
     });
+    meta.topic = await normalizeTopic(meta.topic);
+    const { cards, title: _title, topic: _topic, tags: _tags, ...summary } = report;
 
-    const input: DeckInput = toDeckInput(baseParsed);
-    const deck = await upsertDeck(req.auth!.user.id, input);
-    return res.status(201).json({ deck: sanitizeDeck(deck) });
+    if (dryRun) {
+      return res.json({
+        dryRun: true,
+        ok: report.invalid === 0 && report.valid > 0,
+        report: summary,
+        preview: { deck: { ...meta, cards: cards.slice(0, PREVIEW_CARDS) }, cardCount: cards.length },
+      });
+    }
+    if (report.valid === 0) return res.status(422).json({ error: "NO_VALID_CARDS", report: summary });
+    if (body.strict && report.invalid > 0) {
+      return res.status(422).json({ error: "IMPORT_HAS_ERRORS", report: summary });
+    }
+
+    const deck = await upsertDeck(req.auth!.user.id, { ...meta, tags: meta.tags ?? [], cards });
+    return res.status(201).json({ deck: sanitizeDeck(deck), report: summary });
   } catch (e: any) {
+    if (e instanceof ImportFormatError) return res.status(400).json({ error: e.code, ...e.details });
+    if (e instanceof UnknownTopicError) return topicError(res, e);
     if (e?.issues) return res.status(400).json({ error: "INVALID_IMPORT", issues: e.issues });
     return res.status(500).json({ error: "IMPORT_FAILED", details: String(e?.message || e) });
   }
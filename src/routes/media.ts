@@ -0,0 +1,93 @@
+import express from "express";
+import { z } from "zod";
+import config from "../config";
+import { addMedia, deckWriter, deleteMedia, listMedia } from "../lib/store";
+import { normalizeMime } from "../lib/media";
+import { authRequired } from "./auth";
+import type { AuthenticatedRequest } from "./auth";
+
+/**
+ * Ficheiros de media dos cards (imagens/áudio). Ficam em `data/media/<userId>/` com o sha256 como
+ * id; os cards referem-nos em `media: { image?, audio? }` (também nas opções de MCQ) e são servidos
+ * por `GET /decks/:deckId/media/:mediaId`, com as regras de acesso do deck.
+ */
+export const mediaRouter = express.Router();
+
+const errorStatus: Record<string, number> = {
+  DECK_NOT_FOUND: 404,
+  DECK_READ_ONLY: 403,
+  MEDIA_NOT_FOUND: 404,
+  MEDIA_IN_USE: 409,
+  MEDIA_TOO_LARGE: 413,
+  MEDIA_QUOTA_EXCEEDED: 413,
+  UNSUPPORTED_MEDIA_TYPE: 415,
+  MEDIA_TYPE_MISMATCH: 415,
+};
+
+function fail(res: express.Response, e: any, fallback: string) {
+  const msg = String(e?.message || e);
+  if (errorStatus[msg]) return res.status(errorStatus[msg]).json({ error: msg });
+  return res.status(500).json({ error: fallback, details: msg });
+}
+
+// corpo em bruto (qualquer Content-Type); acima do limite responde 413 antes de ler tudo
+const rawBody = express.raw({ type: () => true, limit: config.media.maxBytes });
+
+function readRaw(req: express.Request, res: express.Response, next: express.NextFunction) {
+  rawBody(req, res, (err?: any) => {
+    if (!err) return next();
+    if (err.type === "entity.too.large") {
+      return res.status(413).json({ error: "MEDIA_TOO_LARGE", maxBytes: config.media.maxBytes });
+    }
+    return res.status(400).json({ error: "INVALID_BODY" });
+  });
+}
+
+const UploadQuery = z.object({
+  name: z.string().trim().min(1).max(120).optional(),
+  deckId: z.string().min(1).optional(),
+});
+
+/** POST /media[?name=foto.png][&deckId=]  (autenticado)  body: o ficheiro (Content-Type image/* ou audio/*)
+ * -> 201 { media: { id, mime, size, name?, createdAt } } (200 se o mesmo ficheiro já existia)
+ * Com `deckId` de um deck em que é EDITOR, o ficheiro fica com o dono do deck (os cards só
+ * podem referir media do dono). Tipos: PNG, JPEG, GIF, WebP, MP3, OGG, WAV, M4A.
+ */
+mediaRouter.post("/", authRequired, readRaw, async (req: AuthenticatedRequest, res) => {
+  try {
+    const q = UploadQuery.safeParse(req.query);
+    if (!q.success) return res.status(400).json({ error: "INVALID_QUERY", issues: q.error.issues });
+    const data = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    if (!data.length) return res.status(400).json({ error: "EMPTY_BODY" });
+
+    const ownerId = q.data.deckId ? (await deckWriter(req.auth!.user.id, q.data.deckId)).ownerId : req.auth!.user.id;
+    const { media, created } = await addMedia(ownerId, data, {
+      name: q.data.name,
+      declaredMime: normalizeMime(req.header("content-type")),
+    });
+    return res.status(created ? 201 : 200).json({ media });
+  } catch (e: any) {
+    return fail(res, e, "MEDIA_UPLOAD_FAILED");
+  }
+});
+
+/** GET /media -> { media: [{ ...entry, decks: deckId[] }], usedBytes, quotaBytes } */
+mediaRouter.get("/", authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    return res.json(await listMedia(req.auth!.user.id));
+  } catch (e: any) {
+    return fail(res, e, "MEDIA_LIST_FAILED");
+  }
+});
+
+/** DELETE /media/:mediaId — só se nenhum deck (nem revisão guardada) o referir (409 MEDIA_IN_USE) */
+mediaRouter.delete("/:mediaId", authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    await deleteMedia(req.auth!.user.id, req.params.mediaId);
+    return res.json({ ok: true });
+  } catch (e: any) {
+    return fail(res, e, "MEDIA_DELETE_FAILED");
+  }
+});
+
+export default mediaRouter;
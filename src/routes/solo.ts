@@ -1,8 +1,14 @@
 import express from "express";
 import { z } from "zod";
 import { nanoid } from "nanoid";
-import { loadUser, saveUser, appendTransaction, listUserIds } from "../lib/store";
-import type { UserFile, Deck } from "../lib/store";
+import { findDeck, updateUser, applyTransaction, deckAccess, listStudyDecks } from "../lib/store";
+import type { UserFile, Deck, Card } from "../lib/store";
+import { renderCardHtml, sanitizeCardText } from "../lib/markdown";
+import { gradeAnswer } from "../lib/grading";
+import { previewReviews, scheduleReview } from "../lib/scheduler";
+import { buildStudyPlan, countStudyAnswer } from "../lib/studyPlan";
+import type { StudyOptions } from "../lib/studyPlan";
+import { normalizeTopic, UnknownTopicError } from "../lib/topics";
 import { authRequired } from "./auth";
 import type { AuthenticatedRequest } from "./auth";
 
@@ -10,17 +16,6 @@ export const soloRouter = express.Router();
 
 /* ---------- helpers ---------- */
 
-async function findDeckAnywhere(deckId: string): Promise<{ deck: Deck; owner: UserFile } | null> {
-  const userIds = await listUserIds();
-  for (const uid of userIds) {
-    const u = await loadUser(uid);
-    if (!u) continue;
-    const d = u.decks.find((x) => x.id === deckId);
-    if (d) return { deck: d, owner: u };
-  }
-  return null;
-}
-
 function dueCards(user: UserFile, deck: Deck, now: Date) {
   return deck.cards.filter((c) => {
     const p = user.progress[c.id];
@@ -31,118 +26,126 @@ function dueCards(user: UserFile, deck: Deck, now: Date) {
   });
 }
 
-function gradeAnswer(deck: Deck, cardId: string, payload: any): boolean {
-  const card = deck.cards.find((c) => c.id === cardId);
-  if (!card) return false;
-
-  const t = card.type;
-  const data: any = card.data_json ?? {};
-
-  if (t === "TRUE_FALSE") {
-    // payload: { answer: true|false }
-    return Boolean(payload?.answer) === Boolean(data?.correct);
-  }
-
-  if (t === "MCQ_SINGLE") {
-    // payload: { index: number }
-    const options: any[] = Array.isArray(data?.options) ? data.options : [];
-    const correctIndex = options.findIndex((o) => o?.correct === true);
-    return Number(payload?.index) === correctIndex;
-  }
-
-if (t === "MCQ_MULTI") {
-  // payload: { indices: number[] }
-  const options: any[] = Array.isArray(data?.options) ? data.options : [];
-
-  // conjunto de índices corretos (numéricos)
-  const correct = new Set<number>(
-    options
-      .map((o: any, i: number) => (o?.correct ? i : -1))
-      .filter((i: number) => i >= 0)
-  );
-
-  // normaliza respostas do cliente para number[]
-  const indices: number[] = Array.isArray(payload?.indices)
-    ? (payload.indices as any[]).map((n: any) => Number(n))
-    : [];
-
-  const ans = new Set<number>(indices);
+const Rating = z.enum(["VERY_HARD", "HARD", "MEDIUM", "EASY"]);
+type RatingType = z.infer<typeof Rating>;
 
-  if (ans.size !== correct.size) return false;
-  for (const i of ans.values()) {
-    if (!correct.has(i)) return false;
-  }
-  return true;
-}
+/* ---------- rotas ---------- */
 
-  // Outros tipos (MATCH/TEXT) não são avaliados no MVP
-  return false;
+/** Card como vai para o cliente (sem os campos internos); `html` junta `prompt_html`/`hint_html`. */
+function cardPayload(raw: Card, html: boolean) {
+  const c = sanitizeCardText(raw).card; // decks gravados antes da sanitização do markdown
+  return {
+    id: c.id,
+    type: c.type,
+    prompt_md: c.prompt_md,
+    data_json: c.data_json,
+    time_limit_sec: c.time_limit_sec,
+    hint: c.hint,
+    media: c.media, // ficheiros em GET /decks/:deckId/media/:mediaId
+    ...(html ? renderCardHtml(c) : {}),
+  };
 }
 
-const Rating = z.enum(["VERY_HARD", "HARD", "MEDIUM", "EASY"]);
-type RatingType = z.infer<typeof Rating>;
+const StudyQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  theme: z.string().min(1).optional(),
+  subtheme: z.string().min(1).optional(),
+  tags: z.string().optional(), // separadas por vírgula
+  interleave: z.enum(["0", "1", "true", "false"]).optional(),
+});
 
-/** devolve o intervalo (segundos) para um dado rating, 100% tipado */
-function intervalFor(user: UserFile, rating: RatingType): number {
-  const ints = user.prefs.solo.intervals;
-  switch (rating) {
-    case "VERY_HARD": return ints.VERY_HARD;
-    case "HARD":      return ints.HARD;
-    case "MEDIUM":    return ints.MEDIUM;
-    case "EASY":      return ints.EASY;
-    default: {
-      const _never: never = rating;
-      return ints.EASY;
+/** Plano do dia para os decks em estudo; filtros de tópico normalizados como na pesquisa. */
+async function studyPlanFor(user: UserFile, q: z.infer<typeof StudyQuery>, now: Date) {
+  const opts: StudyOptions = {
+    theme: q.theme,
+    subtheme: q.subtheme,
+    interleave: q.interleave === "1" || q.interleave === "true",
+  };
+  if (q.theme) {
+    try {
+      const topic = await normalizeTopic({ theme: q.theme, subtheme: q.subtheme });
+      Object.assign(opts, { theme: topic.theme, subtheme: topic.subtheme });
+    } catch (e) {
+      if (!(e instanceof UnknownTopicError)) throw e;
     }
   }
+  const tags = q.tags?.split(",").map((t) => t.trim()).filter(Boolean);
+  if (tags?.length) opts.tags = tags;
+  // listStudyDecks só traz decks ainda acessíveis: um público que passou a privado sai da fila
+  return buildStudyPlan(user, await listStudyDecks(user.id), now, opts);
 }
 
-/* ---------- rotas ---------- */
-
-/** GET /solo/queue?deckId=...&limit=10
+/** GET /solo/queue?deckId=...&limit=10[&share=<token>][&html=1]
  * Devolve as próximas cartas (vencidas + sem progress).
+ * Com `html=1` cada card traz também `prompt_html` (e `hint_html`) já renderizados.
+ *
+ * Sem `deckId`: fila global de todos os decks em estudo (próprios, partilhados e públicos com progress),
+ * `?limit=20&theme=&subtheme=&tags=a,b&interleave=1&html=1`. Primeiro as revisões vencidas (mais
+ * atrasadas primeiro), depois os cards novos, cada fase cortada pelo que falta dos limites diários:
+ * -> { items: [{ deckId, deckTitle, kind: "review"|"new", dueAt?, overdueSec?, card }], plan }
+ * Com `interleave=1` cada fase alterna entre decks em vez de esgotar um de cada vez.
  */
 soloRouter.get("/queue", authRequired, async (req: AuthenticatedRequest, res) => {
   // req.query é ParsedQs; vamos ler de forma segura/typada
   const q = req.query as Record<string, unknown>;
   const deckId = typeof q.deckId === "string" ? q.deckId : "";
+  const html = q.html === "1" || q.html === "true";
+
+  if (!deckId) {
+    const parsed = StudyQuery.safeParse(q);
+    if (!parsed.success) return res.status(400).json({ error: "INVALID_QUERY", issues: parsed.error.issues });
+    try {
+      const { plan, reviews, fresh } = await studyPlanFor(req.auth!.user, parsed.data, new Date());
+      const items = [...reviews, ...fresh]
+        .slice(0, parsed.data.limit)
+        .map(({ card, ...it }) => ({ ...it, card: cardPayload(card, html) }));
+      return res.json({ items, plan });
+    } catch (e: any) {
+      return res.status(500).json({ error: "QUEUE_FAILED", details: String(e?.message || e) });
+    }
+  }
+
   const limitRaw = typeof q.limit === "string" ? q.limit : undefined;
   const limitNum = Number(limitRaw ?? "10");
   const limit = Math.max(1, Math.min(100, isNaN(limitNum) ? 10 : limitNum));
 
-  if (!deckId) return res.status(400).json({ error: "DECK_ID_REQUIRED" });
-
-  const found = await findDeckAnywhere(deckId);
+  const found = await findDeck(deckId);
   if (!found) return res.status(404).json({ error: "DECK_NOT_FOUND" });
 
-  // se o deck for PRIVADO e não for do próprio, bloqueia
-  if (found.deck.visibility !== "PUBLIC" && found.owner.id !== req.auth!.user.id) {
+  // deck PRIVADO de outro utilizador só com share link
+  const share = typeof q.share === "string" ? q.share : undefined;
+  if (!deckAccess(found, { userId: req.auth!.user.id, share })) {
     return res.status(403).json({ error: "DECK_PRIVATE" });
   }
 
   const now = new Date();
   const items = dueCards(req.auth!.user, found.deck, now)
     .slice(0, limit)
-    .map((c) => ({
-      deckId: found.deck.id,
-      card: {
-        id: c.id,
-        type: c.type,
-        prompt_md: c.prompt_md,
-        data_json: c.data_json,
-        time_limit_sec: c.time_limit_sec,
-        hint: c.hint,
-      },
-    }));
+    .map((c) => ({ deckId: found.deck.id, card: cardPayload(c, html) }));
 
   return res.json({ deck: { id: found.deck.id, title: found.deck.title }, items });
 });
 
+/** GET /solo/plan[?theme=&subtheme=&tags=a,b]
+ * Resumo do dia sem os cards: limites, feitos hoje, o que falta e quantos vencidos/novos há por deck.
+ */
+soloRouter.get("/plan", authRequired, async (req: AuthenticatedRequest, res) => {
+  const parsed = StudyQuery.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json({ error: "INVALID_QUERY", issues: parsed.error.issues });
+  try {
+    const { plan } = await studyPlanFor(req.auth!.user, parsed.data, new Date());
+    return res.json({ plan });
+  } catch (e: any) {
+    return res.status(500).json({ error: "PLAN_FAILED", details: String(e?.message || e) });
+  }
+});
+
 /** POST /solo/answer
- * body: { deckId, cardId, rating: Rating, answer: any }
- * - calcula corretude no servidor
- * - agenda próxima revisão (manual, com base nas prefs do user)
- * - atribui ZAPPs se acertar
+ * body: { deckId, cardId, rating: Rating, answer: any, share? }
+ * - calcula corretude no servidor (`grade`: { correct, score, feedback }, ver lib/grading.ts)
+ * - agenda próxima revisão com o agendador de prefs.solo.scheduler (manual, sm2 ou fsrs)
+ * - atribui ZAPPs se acertar (proporcionais a `score` com crédito parcial)
+ * - conta a resposta em `stats.today` (card novo ou revisão)
  */
 soloRouter.post("/answer", authRequired, async (req: AuthenticatedRequest, res) => {
   try {
@@ -164,34 +167,17 @@ soloRouter.post("/answer", authRequired, async (req: AuthenticatedRequest, res)
     if (!r.success) return res.status(400).json({ error: "INVALID_RATING" });
     const ratingVal: RatingType = r.data;
 
-    const found = await findDeckAnywhere(deckId);
+    const found = await findDeck(deckId);
     if (!found) return res.status(404).json({ error: "DECK_NOT_FOUND" });
 
-    if (found.deck.visibility !== "PUBLIC" && found.owner.id !== req.auth!.user.id) {
+    const share = typeof body.share === "string" ? body.share : typeof q.share === "string" ? q.share : undefined;
+    if (!deckAccess(found, { userId: req.auth!.user.id, share })) {
       return res.status(403).json({ error: "DECK_PRIVATE" });
     }
 
-    const user = req.auth!.user;
-    const correct = gradeAnswer(found.deck, cardId, answer as any);
-
-    // progresso
-    const now = new Date();
-    const secs: number = intervalFor(user, ratingVal);
-    const nowMs: number = now.getTime();
-    const nextAtMs: number = nowMs + secs * 1000;
-    const next = new Date(nextAtMs);
-
-    const p = user.progress[cardId] ?? { timesAnswered: 0, timesCorrect: 0 };
-    p.timesAnswered += 1;
-    if (correct) p.timesCorrect += 1;
-    p.lastAnswerAt = now.toISOString();
-    p.nextReviewAt = next.toISOString();
-    p.lastRating = ratingVal;
-    user.progress[cardId] = p;
-
-    // stats
-    user.stats.answersTotal += 1;
-    if (correct) user.stats.correctTotal += 1;
+    const card = found.deck.cards.find((c) => c.id === cardId);
+    const grade = gradeAnswer(card?.type ?? "", card?.data_json, answer);
+    const correct = grade.correct;
 
     // ZAPPs (simples para MVP)
     const rewardMap: Record<RatingType, number> = {
@@ -200,26 +186,50 @@ soloRouter.post("/answer", authRequired, async (req: AuthenticatedRequest, res)
       MEDIUM: 8,
       EASY: 5,
     };
-    const zapps = correct ? rewardMap[ratingVal] : 0;
-
-    if (zapps > 0) {
-      await appendTransaction(user.id, {
-        id: nanoid(12),
-        ts: now.toISOString(),
-        type: "EARN",
-        amount: zapps,
-        reason: "solo_correct",
-        ref: `${deckId}:${cardId}`,
-      });
-    }
+    const zapps = Math.round(rewardMap[ratingVal] * grade.score);
 
-    await saveUser(user);
+    // progresso + stats + wallet numa única mutação (sem sobrescrever escritas concorrentes)
+    const now = new Date();
+    const { p, stats } = await updateUser(req.auth!.user.id, (user, emit) => {
+      const wasNew = !user.progress[cardId];
+      const p = user.progress[cardId] ?? { timesAnswered: 0, timesCorrect: 0 };
+      // antes de mexer em lastAnswerAt: o fsrs usa o tempo desde a última resposta
+      const next = scheduleReview(user.prefs.solo, p, { rating: ratingVal, correct, now });
+
+      p.timesAnswered += 1;
+      if (correct) p.timesCorrect += 1;
+      p.lastAnswerAt = now.toISOString();
+      p.nextReviewAt = next.nextReviewAt;
+      p.lastRating = ratingVal;
+      if (next.srs) p.srs = next.srs;
+      user.progress[cardId] = p;
+
+      // stats
+      user.stats.answersTotal += 1;
+      if (correct) user.stats.correctTotal += 1;
+      countStudyAnswer(user, wasNew, now); // limites diários da fila global
+      emit({ type: "progress.updated", deckId, cardId, progress: p, stats: user.stats });
+
+      if (zapps > 0) {
+        applyTransaction(user, {
+          id: nanoid(12),
+          ts: now.toISOString(),
+          type: "EARN",
+          amount: zapps,
+          reason: "solo_correct",
+          ref: `${deckId}:${cardId}`,
+        }, emit);
+      }
+
+      return { p, stats: user.stats };
+    });
 
     return res.json({
       correct,
+      grade,
       zappsEarned: zapps,
       nextReviewAt: p.nextReviewAt,
-      stats: user.stats,
+      stats,
       progress: p,
     });
   } catch (e: any) {
@@ -227,14 +237,87 @@ soloRouter.post("/answer", authRequired, async (req: AuthenticatedRequest, res)
   }
 });
 
-/** GET /solo/progress?deckId=...  (para UI) */
+/** GET /solo/preview?deckId=...&cardId=...[&share=<token>]
+ * Próxima revisão que cada rating daria agora, certo e errado, com o agendador atual:
+ * -> { scheduler, progress, ratings: { EASY: { correct: { nextReviewAt, intervalSec }, incorrect }, ... } }
+ */
+soloRouter.get("/preview", authRequired, async (req: AuthenticatedRequest, res) => {
+  const q = req.query as Record<string, unknown>;
+  const deckId = typeof q.deckId === "string" ? q.deckId : "";
+  const cardId = typeof q.cardId === "string" ? q.cardId : "";
+  if (!deckId || !cardId) return res.status(400).json({ error: "DECK_AND_CARD_REQUIRED" });
+
+  const found = await findDeck(deckId);
+  if (!found) return res.status(404).json({ error: "DECK_NOT_FOUND" });
+  const share = typeof q.share === "string" ? q.share : undefined;
+  if (!deckAccess(found, { userId: req.auth!.user.id, share })) {
+    return res.status(403).json({ error: "DECK_PRIVATE" });
+  }
+  if (!found.deck.cards.some((c) => c.id === cardId)) return res.status(404).json({ error: "CARD_NOT_FOUND" });
+
+  const user = req.auth!.user;
+  const progress = user.progress[cardId] ?? null;
+  return res.json({
+    scheduler: user.prefs.solo.scheduler,
+    progress,
+    ratings: previewReviews(user.prefs.solo, progress ?? undefined, new Date()),
+  });
+});
+
+const Seconds = z.number().int().min(1).max(365 * 24 * 60 * 60);
+const SoloPrefsPatch = z.object({
+  scheduler: z.enum(["manual", "sm2", "fsrs"]).optional(),
+  daily: z.object({
+    newCards: z.number().int().min(0).max(1000).optional(),
+    reviews: z.number().int().min(0).max(10000).optional(),
+  }).strict().optional(),
+  intervals: z.object({
+    VERY_HARD: Seconds.optional(),
+    HARD: Seconds.optional(),
+    MEDIUM: Seconds.optional(),
+    EASY: Seconds.optional(),
+  }).strict().optional(),
+}).strict();
+
+/** GET /solo/prefs -> { solo: { scheduler, intervals, daily } } */
+soloRouter.get("/prefs", authRequired, (req: AuthenticatedRequest, res) => {
+  return res.json({ solo: req.auth!.user.prefs.solo });
+});
+
+/** PUT /solo/prefs  body: { scheduler?, intervals?: { VERY_HARD?, HARD?, MEDIUM?, EASY? } (segundos),
+ *                          daily?: { newCards?, reviews? } (por dia, na fila global) }
+ * Mudar de agendador não apaga o estado guardado: voltar ao sm2/fsrs continua de onde estava.
+ */
+soloRouter.put("/prefs", authRequired, async (req: AuthenticatedRequest, res) => {
+  const parsed = SoloPrefsPatch.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "INVALID_BODY", issues: parsed.error.issues });
+  try {
+    const solo = await updateUser(req.auth!.user.id, (user, emit) => {
+      const { scheduler, intervals, daily } = parsed.data;
+      if (scheduler) user.prefs.solo.scheduler = scheduler;
+      if (intervals) user.prefs.solo.intervals = { ...user.prefs.solo.intervals, ...intervals };
+      if (daily) user.prefs.solo.daily = { ...user.prefs.solo.daily, ...daily };
+      emit({ type: "prefs.updated", prefs: user.prefs });
+      return user.prefs.solo;
+    });
+    return res.json({ solo });
+  } catch (e: any) {
+    return res.status(500).json({ error: "PREFS_UPDATE_FAILED", details: String(e?.message || e) });
+  }
+});
+
+/** GET /solo/progress?deckId=...[&share=<token>]  (para UI) */
 soloRouter.get("/progress", authRequired, async (req: AuthenticatedRequest, res) => {
   const q = req.query as Record<string, unknown>;
   const deckId = typeof q.deckId === "string" ? q.deckId : "";
   if (!deckId) return res.status(400).json({ error: "DECK_ID_REQUIRED" });
 
-  const found = await findDeckAnywhere(deckId);
-  if (!found) return res.status(404).json({ error: "DECK_NOT_FOUND" });
+  // os títulos saem dos enunciados: deck PRIVADO sem acesso responde como se não existisse
+  const found = await findDeck(deckId);
+  const share = typeof q.share === "string" ? q.share : undefined;
+  if (!found || !deckAccess(found, { userId: req.auth!.user.id, share })) {
+    return res.status(404).json({ error: "DECK_NOT_FOUND" });
+  }
 
   const user = req.auth!.user;
   const items = found.deck.cards.map((c) => ({
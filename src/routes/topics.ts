@@ -0,0 +1,20 @@
+import express from "express";
+import { listPublicDecks } from "../lib/store";
+import { getTopicTree, topicTreeWithCounts } from "../lib/topics";
+
+export const topicsRouter = express.Router();
+
+/** GET /topics  (aberto)
+ * Árvore Tema → Subtema → Sub-subtema do registo, com `deckCount` (decks públicos no nó e
+ * descendentes). `unmapped` conta decks públicos com tópicos fora do registo (ver migrate-topics).
+ */
+topicsRouter.get("/", async (_req, res) => {
+  try {
+    const decks = (await listPublicDecks()).map((e) => e.deck);
+    return res.json(topicTreeWithCounts(await getTopicTree(), decks));
+  } catch (e: any) {
+    return res.status(500).json({ error: "TOPICS_FAILED", details: String(e?.message || e) });
+  }
+});
+
+export default topicsRouter;
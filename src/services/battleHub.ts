@@ -1,14 +1,10 @@
 import { Server as SocketIOServer } from "socket.io";
 import { nanoid } from "nanoid";
-import { loadUser, saveUser, appendTransaction, listUserIds } from "../lib/store";
-import type { Deck, UserFile } from "../lib/store";
-
-/** Tipos suportados em battles */
-const ELIGIBLE_TYPES = new Set<Deck["cards"][number]["type"]>([
-  "TRUE_FALSE",
-  "MCQ_SINGLE",
-  "MCQ_MULTI",
-]);
+import { findDeck, appendTransaction, deckAccess } from "../lib/store";
+import type { CardMedia } from "../lib/store";
+import { BATTLE_CARD_TYPES } from "../lib/cardData";
+import { renderCardHtml, sanitizeCardText } from "../lib/markdown";
+import { gradeAnswer } from "../lib/grading";
 
 export type AccessMode = "PUBLIC" | "PRIVATE";
 
@@ -19,6 +15,9 @@ export type QuestionSnapshot = {
   data_json: any;           // snapshot de opções/correto (imutável durante a battle)
   time_limit_sec?: number;
   hint?: string;
+  media?: CardMedia;        // ficheiros em GET /decks/:deckId/media/:mediaId
+  prompt_html?: string;     // só em lobbies criados com `html`
+  hint_html?: string;
 };
 
 export type PlayerState = {
@@ -58,47 +57,6 @@ function pick<T>(arr: T[], n: number): T[] {
   return a.slice(0, n);
 }
 
-/** Procura deck por todos os utilizadores (público ou owner) */
-export async function findDeckAnywhere(deckId: string): Promise<{ deck: Deck; owner: UserFile } | null> {
-  const userIds = await listUserIds();
-  for (const uid of userIds) {
-    const u = await loadUser(uid);
-    if (!u) continue;
-    const d = u.decks.find(x => x.id === deckId);
-    if (d) return { deck: d, owner: u };
-  }
-  return null;
-}
-
-/** Avaliação server-side (igual ao solo) */
-function gradeAnswer(snapshot: QuestionSnapshot, payload: any): boolean {
-  const t = snapshot.type;
-  const data: any = snapshot.data_json ?? {};
-
-  if (t === "TRUE_FALSE") {
-    return Boolean(payload?.answer) === Boolean(data?.correct);
-  }
-  if (t === "MCQ_SINGLE") {
-    const options: any[] = Array.isArray(data?.options) ? data.options : [];
-    const correctIndex = options.findIndex(o => o?.correct === true);
-    return Number(payload?.index) === correctIndex;
-  }
-  if (t === "MCQ_MULTI") {
-    const options: any[] = Array.isArray(data?.options) ? data.options : [];
-    const correct = new Set<number>(
-      options.map((o: any, i: number) => (o?.correct ? i : -1)).filter((i: number) => i >= 0)
-    );
-    const indices: number[] = Array.isArray(payload?.indices)
-      ? (payload.indices as any[]).map((n: any) => Number(n))
-      : [];
-    const ans = new Set<number>(indices);
-    if (ans.size !== correct.size) return false;
-    for (const i of ans.values()) if (!correct.has(i)) return false;
-    return true;
-  }
-  return false;
-}
-
 export class BattleHub {
   private io?: SocketIOServer;
   private lobbies = new Map<string, Lobby>();
@@ -112,26 +70,33 @@ export class BattleHub {
     deckId: string;
     count: number;
     access: AccessMode;
+    share?: string;            // share link de um deck PRIVATE de outro utilizador
+    html?: boolean;            // perguntas com `prompt_html`/`hint_html` já renderizados
   }): Promise<Lobby> {
-    const found = await findDeckAnywhere(opts.deckId);
+    const found = await findDeck(opts.deckId);
     if (!found) throw new Error("DECK_NOT_FOUND");
-    const { deck, owner } = found;
+    const { deck } = found;
 
-    if (deck.visibility !== "PUBLIC" && owner.id !== opts.hostId) {
+    if (!deckAccess(found, { userId: opts.hostId, share: opts.share })) {
       throw new Error("DECK_PRIVATE");
     }
 
-    const eligibles = deck.cards.filter(c => ELIGIBLE_TYPES.has(c.type as any));
+    const eligibles = deck.cards.filter(c => BATTLE_CARD_TYPES.has(c.type));
     if (eligibles.length === 0) throw new Error("NO_ELIGIBLE_CARDS");
 
-    const shots: QuestionSnapshot[] = pick(eligibles, Math.min(opts.count, eligibles.length)).map(c => ({
-      id: c.id,
-      type: c.type as QuestionSnapshot["type"],
-      prompt_md: c.prompt_md,
-      data_json: c.data_json,
-      time_limit_sec: c.time_limit_sec,
-      hint: c.hint,
-    }));
+    const shots: QuestionSnapshot[] = pick(eligibles, Math.min(opts.count, eligibles.length)).map(raw => {
+      const c = sanitizeCardText(raw).card; // decks gravados antes da sanitização do markdown
+      return {
+        id: c.id,
+        type: c.type as QuestionSnapshot["type"],
+        prompt_md: c.prompt_md,
+        data_json: c.data_json,
+        time_limit_sec: c.time_limit_sec,
+        hint: c.hint,
+        media: c.media,
+        ...(opts.html ? renderCardHtml(c) : {}),
+      };
+    });
 
     const lobbyId = nanoid(8);
     const pin = opts.access === "PRIVATE" ? String(Math.floor(100000 + Math.random() * 900000)) : undefined;
@@ -206,13 +171,13 @@ export class BattleHub {
 
     const q = lobby.snapshots[lobby.qIndex];
     const elapsed = Math.max(0, nowMs() - (lobby.qShownAt ?? nowMs())); // ms
-    const correct = gradeAnswer(q, opts.payload);
+    const { correct, score } = gradeAnswer(q.type, q.data_json, opts.payload);
 
-    // scoring simples: 100 se correto, + bónus de velocidade (até 50) nos primeiros 5s
+    // scoring simples: 100 se correto, + bónus de velocidade (até 50) nos primeiros 5s; × score
     let delta = 0;
-    if (correct) {
+    if (score > 0) {
       const speedBonus = Math.max(0, 5000 - elapsed); // 0..5000
-      delta = 100 + Math.round(50 * (speedBonus / 5000));
+      delta = Math.round((100 + 50 * (speedBonus / 5000)) * score);
     }
 
     const player = lobby.players[opts.userId];
@@ -248,17 +213,18 @@ export class BattleHub {
     const awards = ranking.slice(0, 3).map((r, i) => ({ ...r, zapps: prizes[i] }));
 
     for (const a of awards) {
-      const u = await loadUser(a.userId);
-      if (!u) continue;
-      await appendTransaction(u.id, {
-        id: nanoid(12),
-        ts: nowISO(),
-        type: "EARN",
-        amount: a.zapps,
-        reason: "battle_prize",
-        ref: lobby.id,
-      });
-      await saveUser(u);
+      try {
+        await appendTransaction(a.userId, {
+          id: nanoid(12),
+          ts: nowISO(),
+          type: "EARN",
+          amount: a.zapps,
+          reason: "battle_prize",
+          ref: lobby.id,
+        });
+      } catch (e: any) {
+        if (e?.message !== "USER_NOT_FOUND") throw e;
+      }
     }
 
     this.io?.to(lobby.id).emit("lobby:finished", { lobbyId: lobby.id, ranking });
@@ -308,6 +274,9 @@ export class BattleHub {
         data_json: q.data_json,
         time_limit_sec: q.time_limit_sec,
         hint: q.hint,
+        media: q.media,
+        prompt_html: q.prompt_html,
+        hint_html: q.hint_html,
       },
     });
   }
@@ -2,15 +2,13 @@ import { describe, it, before, after, beforeEach } from "node:test";
 import assert from "node:assert/strict";
 import request from "supertest";
 import express from "express";
-import path from "path";
-import os from "os";
-import fs from "fs";
 
 // --- ambiente de teste ---
 process.env.NODE_ENV = "test";
 process.env.VERIFY_TTL_SEC = process.env.VERIFY_TTL_SEC || "86400";
 process.env.RESET_TTL_SEC = process.env.RESET_TTL_SEC || "1800";
 process.env.BCRYPT_COST = process.env.BCRYPT_COST || "10";
+process.env.STORAGE_DRIVER = "memory"; // não toca no data/ real
 
 let app;
 let mails = [];
@@ -44,13 +42,9 @@ function extractFirstUrl(s) {
 }
 
 before(async () => {
-  // criar diretório temporário e forçar CWD para isolar o data/
-  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "mindzapp-test-"));
-  process.chdir(tmp);
-
   hookMailerLogs();
 
-  // importa routers *depois* de mudar cwd/env
+  // importa routers *depois* de definir env
   const { accountsRouter } = await import("../src/routes/accounts.ts");
   ({ default: config } = await import("../src/config.ts"));
   defaultBaseUrl = config?.baseUrl;
@@ -221,4 +215,112 @@ describe("Accounts API flow", () => {
     const resetParsed = new URL(resetUrl);
     assert.strictEqual(resetParsed.pathname, "/app/accounts/reset");
   });
-});
\ No newline at end of file
+});
+
+describe("Accounts store", () => {
+  it("should serialize concurrent writes and keep email/username unique", async () => {
+    const { insertAccount, updateAccount, findByUserId, listAccounts } = await import("../src/lib/accountStore.ts");
+    const rnd = Math.random().toString(36).slice(2, 8);
+    const now = new Date().toISOString();
+    const entry = (i, name = `conc_${rnd}_${i}`) => ({
+      userId: `conc_${rnd}_${i}`,
+      email: `${name}@example.com`,
+      emailLower: `${name}@example.com`,
+      username: name,
+      usernameLower: name,
+      passwordHash: "$2b$10$hash",
+      verified: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await Promise.all([0, 1, 2, 3, 4].map((i) => insertAccount(entry(i))));
+    const mine = (await listAccounts()).filter((a) => a.userId.startsWith(`conc_${rnd}_`));
+    assert.strictEqual(mine.length, 5);
+
+    // duas contas novas com o mesmo email ao mesmo tempo: só uma entra
+    const same = await Promise.allSettled([insertAccount(entry(5, `same_${rnd}`)), insertAccount(entry(6, `same_${rnd}`))]);
+    assert.deepStrictEqual(same.map((r) => r.status).sort(), ["fulfilled", "rejected"]);
+    assert.strictEqual(same.find((r) => r.status === "rejected").reason.message, "ACCOUNT_CONFLICT");
+
+    // alterações concorrentes a contas diferentes não se perdem
+    await Promise.all([0, 1, 2].map(async (i) => updateAccount({ ...(await findByUserId(`conc_${rnd}_${i}`)), verified: true })));
+    for (const i of [0, 1, 2]) assert.strictEqual((await findByUserId(`conc_${rnd}_${i}`)).verified, true);
+    await assert.rejects(updateAccount({ ...entry(3), emailLower: `conc_${rnd}_4@example.com` }), /ACCOUNT_CONFLICT/);
+  });
+});
+
+describe("Accounts reconciliation", () => {
+  it("should detect and fix drift between accounts.json and user files", async () => {
+    const { reconcileAccounts } = await import("../src/lib/reconcile.ts");
+    const { createUser, updateUser } = await import("../src/lib/store.ts");
+    const { insertAccount, findByUserId, findByEmail } = await import("../src/lib/accountStore.ts");
+    const rnd = Math.random().toString(36).slice(2, 8);
+    const now = new Date().toISOString();
+    const entry = (userId, name, verified) => ({
+      userId,
+      email: `${name}@example.com`,
+      emailLower: `${name}@example.com`,
+      username: name,
+      usernameLower: name,
+      passwordHash: "$2b$10$hash",
+      verified,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    // conta sem user.json
+    await insertAccount(entry(`ghost_${rnd}`, `ghost_${rnd}`, true));
+    // user com credenciais legadas e sem conta
+    const legacyUser = await createUser(`legacy_${rnd}`);
+    await updateUser(legacyUser.id, (u) => {
+      u.auth.legacyCredentials = { email: `Legacy_${rnd}@example.com`, passwordHash: "$2b$10$old", emailVerified: true };
+    });
+    // conta por verificar mas legado verificado
+    const flagUser = await createUser(`flag_${rnd}`);
+    await insertAccount(entry(flagUser.id, `flag_${rnd}`, false));
+    await updateUser(flagUser.id, (u) => {
+      u.auth.legacyCredentials = { emailVerified: true };
+    });
+
+    const dry = await reconcileAccounts();
+    assert.ok(dry.orphanAccounts.some(a => a.userId === `ghost_${rnd}`));
+    assert.ok(dry.missingAccounts.some(a => a.userId === legacyUser.id));
+    assert.ok(dry.verifiedMismatch.some(a => a.userId === flagUser.id));
+    assert.strictEqual(await findByUserId(legacyUser.id), undefined, "dry run must not write");
+
+    await reconcileAccounts({ fix: true });
+    assert.strictEqual(await findByUserId(`ghost_${rnd}`), undefined);
+    const recovered = await findByEmail(`legacy_${rnd}@example.com`);
+    assert.strictEqual(recovered?.userId, legacyUser.id);
+    assert.strictEqual(recovered?.verified, true);
+    assert.strictEqual((await findByUserId(flagUser.id))?.verified, true);
+
+    const again = await reconcileAccounts();
+    assert.ok(!again.legacyCleared.includes(legacyUser.id));
+    assert.ok(!again.missingAccounts.some(a => a.userId === legacyUser.id));
+  });
+
+  it("should keep legacy credentials when no account can be created", async () => {
+    const { reconcileAccounts } = await import("../src/lib/reconcile.ts");
+    const { createUser, updateUser, loadUser } = await import("../src/lib/store.ts");
+    const { findByUserId } = await import("../src/lib/accountStore.ts");
+    const rnd = Math.random().toString(36).slice(2, 8);
+
+    // hash legado sem email: não há conta a criar, e sem o legado não haveria forma de entrar
+    const noEmail = await createUser(`noemail_${rnd}`);
+    await updateUser(noEmail.id, (u) => {
+      u.auth.legacyCredentials = { passwordHash: "$2b$10$old" };
+    });
+
+    const dry = await reconcileAccounts();
+    assert.ok(dry.unreconciled.some(a => a.userId === noEmail.id));
+    assert.ok(!dry.legacyCleared.includes(noEmail.id));
+
+    const fixed = await reconcileAccounts({ fix: true });
+    assert.ok(fixed.unreconciled.some(a => a.userId === noEmail.id));
+    assert.ok(!fixed.legacyCleared.includes(noEmail.id));
+    assert.strictEqual(await findByUserId(noEmail.id), undefined);
+    assert.strictEqual((await loadUser(noEmail.id)).auth.legacyCredentials?.passwordHash, "$2b$10$old");
+  });
+});
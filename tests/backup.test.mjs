@@ -0,0 +1,206 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import zlib from "node:zlib";
+import crypto from "node:crypto";
+import request from "supertest";
+import express from "express";
+
+process.env.NODE_ENV = "test";
+process.env.STORAGE_DRIVER = "memory"; // não toca no data/ real
+const backupDir = fs.mkdtempSync(path.join(os.tmpdir(), "mindzapp-backup-"));
+process.env.BACKUP_DIR = backupDir;
+
+let app;
+let store;
+let topics;
+let storage;
+let withWritesPaused;
+let admin;
+
+const PNG_SIG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const sha256 = (s) => crypto.createHash("sha256").update(s).digest("hex");
+const png = (seed) => Buffer.concat([Buffer.from(PNG_SIG), Buffer.from(`IHDR-${seed}-${Math.random()}`)]);
+
+async function login(name) {
+  const user = await store.createUser(`${name}_${Math.random().toString(36).slice(2, 6)}`);
+  const secret = await store.addDeviceSecret(user.id);
+  return { user, headers: { "x-user-id": user.id, "x-device-secret": secret } };
+}
+
+/** Cópia de um snapshot com `data` alterado pelo `edit` (checksum original), com outro id. */
+function tamper(id, label, edit) {
+  const file = JSON.parse(zlib.gunzipSync(fs.readFileSync(path.join(backupDir, id))).toString("utf8"));
+  edit(file);
+  const copy = id.replace(/(-[a-z0-9_-]+)?\.json\.gz$/, `-${label}.json.gz`);
+  fs.writeFileSync(path.join(backupDir, copy), zlib.gzipSync(JSON.stringify(file)));
+  return copy;
+}
+
+before(async () => {
+  store = await import("../src/lib/store.ts");
+  topics = await import("../src/lib/topics.ts");
+  const storageLib = await import("../src/lib/storage.ts");
+  storage = storageLib.getStorage();
+  withWritesPaused = storageLib.withWritesPaused;
+  const { default: config } = await import("../src/config.ts");
+  const { adminRouter } = await import("../src/routes/admin.ts");
+  app = express();
+  app.use("/admin", adminRouter);
+
+  admin = await login("admin");
+  config.admin.userIds.push(admin.user.id);
+});
+
+after(() => {
+  fs.rmSync(backupDir, { recursive: true, force: true });
+});
+
+describe("backups", () => {
+  it("should snapshot users, topics and media and restore them", async () => {
+    const ana = await login("ana");
+    const { media } = await store.addMedia(ana.user.id, png("a"));
+    const deck = await store.upsertDeck(ana.user.id, {
+      title: "Antes",
+      topic: { theme: "IT" },
+      visibility: "PRIVATE",
+      cards: [{ type: "TRUE_FALSE", prompt_md: "?", data_json: { correct: true }, media: { image: media.id } }],
+    });
+    await topics.createTopic(undefined, { name: "Geografia" });
+
+    assert.strictEqual((await request(app).post("/admin/backups").set(ana.headers).send({})).status, 403);
+    const created = await request(app).post("/admin/backups").set(admin.headers).send({ label: "teste" });
+    assert.strictEqual(created.status, 201);
+    const id = created.body.backup.id;
+    assert.match(id, /-teste\.json\.gz$/);
+    assert.ok((await request(app).get("/admin/backups").set(admin.headers)).body.backups.some((b) => b.id === id));
+
+    const verify = await request(app).get(`/admin/backups/${id}/verify`).set(admin.headers);
+    assert.strictEqual(verify.status, 200);
+    assert.strictEqual(verify.body.verify.ok, true);
+    assert.strictEqual(verify.body.verify.topics, true);
+    assert.ok(verify.body.verify.media >= 1);
+
+    // depois do snapshot: deck mudado, media apagada, tópico novo
+    await store.upsertDeck(ana.user.id, { ...deck, title: "Depois", cards: [] });
+    await storage.deleteBlob(`media/${ana.user.id}`, media.id);
+    await topics.createTopic(undefined, { name: "Astronomia" });
+
+    assert.strictEqual((await request(app).post(`/admin/backups/${id}/restore`).set(admin.headers).send({})).status, 400);
+    const restored = await request(app).post(`/admin/backups/${id}/restore`).set(admin.headers).send({ confirm: true });
+    assert.strictEqual(restored.status, 200, JSON.stringify(restored.body));
+    assert.match(restored.body.safetySnapshot, /-pre-restore\.json\.gz$/);
+    assert.strictEqual(restored.body.topics, true);
+
+    assert.strictEqual((await store.loadUser(ana.user.id)).decks[0].title, "Antes");
+    assert.ok(await storage.readBlob(`media/${ana.user.id}`, media.id));
+    const themes = (await topics.getTopicTree()).map((t) => t.name);
+    assert.ok(themes.includes("Geografia"));
+    assert.ok(!themes.includes("Astronomia"));
+  });
+
+  it("should restore a single user with their media", async () => {
+    const bia = await login("bia");
+    const { media } = await store.addMedia(bia.user.id, png("b"));
+    await store.upsertDeck(bia.user.id, { title: "Só meu", topic: { theme: "IT" }, visibility: "PRIVATE", cards: [] });
+    const { body } = await request(app).post("/admin/backups").set(admin.headers).send({ label: "bia" });
+
+    await store.updateUser(bia.user.id, (u) => {
+      u.decks = [];
+    });
+    await storage.deleteBlob(`media/${bia.user.id}`, media.id);
+    const res = await request(app)
+      .post(`/admin/backups/${body.backup.id}/restore`)
+      .set(admin.headers)
+      .send({ confirm: true, userId: bia.user.id });
+    assert.strictEqual(res.status, 200, JSON.stringify(res.body));
+    assert.deepStrictEqual(res.body.restoredUsers, [bia.user.id]);
+    assert.strictEqual(res.body.media, 1);
+    assert.strictEqual((await store.loadUser(bia.user.id)).decks[0].title, "Só meu");
+    assert.ok(await storage.readBlob(`media/${bia.user.id}`, media.id));
+
+    const missing = await request(app)
+      .post(`/admin/backups/${body.backup.id}/restore`)
+      .set(admin.headers)
+      .send({ confirm: true, userId: "nobody" });
+    assert.strictEqual(missing.status, 404);
+  });
+
+  it("should not let a write queued behind a restore overwrite it", async () => {
+    const cai = await login("cai");
+    await store.upsertDeck(cai.user.id, { title: "Antes", topic: { theme: "IT" }, visibility: "PRIVATE", cards: [] });
+
+    let loaded;
+    const mutatorReady = new Promise((r) => (loaded = r));
+    let resume;
+    const resumed = new Promise((r) => (resume = r));
+    let calls = 0;
+    // lê o user antes do restore e só tenta gravar com as escritas suspensas
+    const update = store.updateUser(cai.user.id, async (u) => {
+      calls += 1;
+      loaded();
+      await resumed;
+      u.decks[0].title += "!";
+    });
+    await mutatorReady;
+    await withWritesPaused(async () => {
+      resume();
+      await new Promise((r) => setTimeout(r, 10)); // a escrita fica à espera na barreira
+      const doc = JSON.parse(await storage.readDoc("users", cai.user.id));
+      doc.decks[0].title = "Restaurado";
+      doc.rev += 1;
+      await storage.writeDoc("users", cai.user.id, JSON.stringify(doc));
+    });
+    await update;
+
+    assert.strictEqual(calls, 2); // USER_CONFLICT: o mutator volta a correr sobre o restaurado
+    assert.strictEqual((await store.loadUser(cai.user.id)).decks[0].title, "Restaurado!");
+  });
+
+  it("should refuse tampered, missing and malformed snapshots", async () => {
+    const { body } = await request(app).post("/admin/backups").set(admin.headers).send({ label: "base" });
+    const id = body.backup.id;
+
+    const edited = tamper(id, "edited", (f) => {
+      f.data.users[admin.user.id].username = "mallory";
+    });
+    const check = await request(app).get(`/admin/backups/${edited}/verify`).set(admin.headers);
+    assert.strictEqual(check.status, 422);
+    assert.deepStrictEqual(check.body.verify.errors, ["checksum mismatch"]);
+    const refused = await request(app).post(`/admin/backups/${edited}/restore`).set(admin.headers).send({ confirm: true });
+    assert.strictEqual(refused.status, 422);
+    assert.strictEqual(refused.body.error, "SNAPSHOT_INVALID");
+
+    // o manifesto só tem os ids; o conteúdo fica em BACKUP_DIR/media/<sha256>
+    const file = JSON.parse(zlib.gunzipSync(fs.readFileSync(path.join(backupDir, id))).toString("utf8"));
+    const name = Object.values(file.data.media).flat()[0];
+    assert.match(name, /^[a-f0-9]{64}$/);
+    const blobFile = path.join(backupDir, "media", name);
+    const original = fs.readFileSync(blobFile);
+    assert.strictEqual(sha256(original), name);
+
+    fs.writeFileSync(blobFile, "outra coisa");
+    const swapped = await request(app).get(`/admin/backups/${id}/verify`).set(admin.headers);
+    assert.strictEqual(swapped.status, 422);
+    assert.match(swapped.body.verify.errors[0], /does not match its hash/);
+    fs.rmSync(blobFile);
+    const lost = await request(app).get(`/admin/backups/${id}/verify`).set(admin.headers);
+    assert.match(lost.body.verify.errors[0], /is missing/);
+    fs.writeFileSync(blobFile, original);
+    assert.strictEqual((await request(app).get(`/admin/backups/${id}/verify`).set(admin.headers)).status, 200);
+
+    const none = "mindzapp-20000101T000000000Z.json.gz";
+    assert.strictEqual((await request(app).get(`/admin/backups/${none}/verify`).set(admin.headers)).status, 404);
+    const gone = await request(app).post(`/admin/backups/${none}/restore`).set(admin.headers).send({ confirm: true });
+    assert.strictEqual(gone.status, 404);
+    assert.strictEqual(gone.body.error, "SNAPSHOT_NOT_FOUND");
+    assert.strictEqual((await request(app).get("/admin/backups/..%2Fetc/verify").set(admin.headers)).status, 400);
+
+    // sem snapshots que a referenciem, a media copiada também sai
+    const { pruneSnapshots } = await import("../src/lib/backup.ts");
+    await pruneSnapshots(0);
+    assert.deepStrictEqual(fs.readdirSync(path.join(backupDir, "media")), []);
+  });
+});
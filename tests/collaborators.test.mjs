@@ -0,0 +1,161 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import express from "express";
+
+process.env.NODE_ENV = "test";
+process.env.STORAGE_DRIVER = "memory"; // não toca no data/ real
+
+let app;
+let store;
+
+before(async () => {
+  store = await import("../src/lib/store.ts");
+  const { decksRouter } = await import("../src/routes/decks.ts");
+  app = express();
+  app.use(express.json());
+  app.use("/decks", decksRouter);
+});
+
+const tf = (prompt) => ({ type: "TRUE_FALSE", prompt_md: prompt, data_json: { correct: true } });
+
+async function login() {
+  const user = await store.createUser(`collab_${Math.random().toString(36).slice(2, 8)}`);
+  const secret = await store.addDeviceSecret(user.id);
+  return { user, headers: { "x-user-id": user.id, "x-device-secret": secret } };
+}
+
+async function setup() {
+  const owner = await login();
+  const editor = await login();
+  const viewer = await login();
+  const deck = await store.upsertDeck(owner.user.id, {
+    title: "Grupo de estudo",
+    topic: { theme: "IT" },
+    visibility: "PRIVATE",
+    cards: [tf("A"), tf("B")],
+  });
+  const invite = (u, role) =>
+    request(app).put(`/decks/${deck.id}/collaborators`).set(owner.headers).send({ username: u.user.username, role });
+  assert.strictEqual((await invite(editor, "EDITOR")).status, 200);
+  assert.strictEqual((await invite(viewer, "VIEWER")).status, 200);
+  return { owner, editor, viewer, deck };
+}
+
+describe("deck collaborators", () => {
+  it("should list shared decks in /decks/mine and give viewers read access", async () => {
+    const { owner, editor, viewer, deck } = await setup();
+
+    const mine = await request(app).get("/decks/mine").set(viewer.headers);
+    assert.strictEqual(mine.status, 200);
+    assert.deepStrictEqual(mine.body.decks, []);
+    assert.deepStrictEqual(
+      mine.body.shared.map((s) => ({ id: s.deck.id, owner: s.owner.userId, role: s.role })),
+      [{ id: deck.id, owner: owner.user.id, role: "VIEWER" }]
+    );
+    assert.strictEqual(mine.body.shared[0].deck.collaborators, undefined);
+
+    const read = await request(app).get(`/decks/${deck.id}`).set(viewer.headers);
+    assert.strictEqual(read.status, 200);
+    assert.strictEqual(read.body.access, "read");
+    assert.strictEqual((await request(app).get(`/decks/${deck.id}`).set(editor.headers)).body.access, "editor");
+
+    const list = await request(app).get(`/decks/${deck.id}/collaborators`).set(viewer.headers);
+    assert.deepStrictEqual(list.body.collaborators.map((c) => c.role), ["EDITOR", "VIEWER"]);
+    const stranger = await login();
+    assert.strictEqual((await request(app).get(`/decks/${deck.id}/collaborators`).set(stranger.headers)).status, 404);
+  });
+
+  it("should not let viewers fork a private deck", async () => {
+    const { editor, viewer, deck } = await setup();
+    const denied = await request(app).post(`/decks/${deck.id}/fork`).set(viewer.headers).send({});
+    assert.strictEqual(denied.status, 403);
+    assert.deepStrictEqual((await store.loadUser(viewer.user.id)).decks, []);
+    await assert.rejects(store.forkDeck(viewer.user.id, deck.id), /DECK_PRIVATE/);
+
+    const fork = await request(app).post(`/decks/${deck.id}/fork`).set(editor.headers).send({});
+    assert.strictEqual(fork.status, 201, JSON.stringify(fork.body));
+  });
+
+  it("should let editors change cards and upsert while keeping the deck under the owner", async () => {
+    const { owner, editor, viewer, deck } = await setup();
+
+    const added = await request(app).post(`/decks/${deck.id}/cards`).set(editor.headers).send(tf("C"));
+    assert.strictEqual(added.status, 201, JSON.stringify(added.body));
+    const patched = await request(app)
+      .patch(`/decks/${deck.id}/cards/${deck.cards[0].id}`)
+      .set(editor.headers)
+      .send({ prompt_md: "A2" });
+    assert.strictEqual(patched.status, 200);
+
+    const upsert = (u, extra = {}) =>
+      request(app).post("/decks/upsert").set(u.headers).send({
+        id: deck.id,
+        title: "Grupo (v2)",
+        topic: { theme: "IT" },
+        visibility: "PRIVATE",
+        cards: [{ id: deck.cards[1].id, ...tf("B") }],
+        ...extra,
+      });
+    const up = await upsert(editor);
+    assert.strictEqual(up.status, 200, JSON.stringify(up.body));
+    assert.strictEqual((await upsert(editor, { visibility: "PUBLIC" })).body.error, "OWNER_ONLY");
+
+    const ownerFile = await store.loadUser(owner.user.id);
+    assert.strictEqual(ownerFile.decks.find((d) => d.id === deck.id).title, "Grupo (v2)");
+    assert.deepStrictEqual((await store.loadUser(editor.user.id)).decks, []);
+
+    const revs = await request(app).get(`/decks/${deck.id}/revisions`).set(editor.headers);
+    assert.strictEqual(revs.status, 200);
+    assert.deepStrictEqual(
+      revs.body.revisions.map((r) => r.by),
+      [editor.user.id, editor.user.id, editor.user.id, owner.user.id]
+    );
+
+    // escritas na store em nome de um EDITOR ficam atribuídas a ele (evento `deck.upserted` com `by`)
+    await store.restoreDeckRevision(owner.user.id, deck.id, 1, { actorId: editor.user.id });
+    await store.transferCards(
+      owner.user.id,
+      deck.id,
+      { toDeckId: deck.id, cardIds: [deck.cards[1].id], mode: "copy" },
+      { actorId: editor.user.id }
+    );
+    const latest = await request(app).get(`/decks/${deck.id}/revisions`).set(owner.headers);
+    assert.deepStrictEqual(latest.body.revisions.slice(0, 2).map((r) => r.by), [editor.user.id, editor.user.id]);
+
+    const denied = await request(app).post(`/decks/${deck.id}/cards`).set(viewer.headers).send(tf("D"));
+    assert.strictEqual(denied.status, 403);
+    assert.strictEqual(denied.body.error, "DECK_READ_ONLY");
+    const stranger = await login();
+    assert.strictEqual((await request(app).post(`/decks/${deck.id}/cards`).set(stranger.headers).send(tf("D"))).status, 404);
+  });
+
+  it("should let only the owner invite, and collaborators leave", async () => {
+    const { owner, editor, viewer, deck } = await setup();
+
+    const byEditor = await request(app)
+      .put(`/decks/${deck.id}/collaborators`)
+      .set(editor.headers)
+      .send({ username: viewer.user.username, role: "EDITOR" });
+    assert.strictEqual(byEditor.status, 404);
+    const self = await request(app)
+      .put(`/decks/${deck.id}/collaborators`)
+      .set(owner.headers)
+      .send({ username: owner.user.username, role: "VIEWER" });
+    assert.strictEqual(self.body.error, "CANNOT_ADD_OWNER");
+    const unknown = await request(app)
+      .put(`/decks/${deck.id}/collaborators`)
+      .set(owner.headers)
+      .send({ username: "ninguem_xyz", role: "VIEWER" });
+    assert.strictEqual(unknown.status, 404);
+
+    assert.strictEqual((await request(app).delete(`/decks/${deck.id}/collaborators/${viewer.user.id}`).set(editor.headers)).status, 404);
+    assert.strictEqual((await request(app).delete(`/decks/${deck.id}/collaborators/${viewer.user.id}`).set(viewer.headers)).status, 200);
+    assert.strictEqual((await request(app).get(`/decks/${deck.id}`).set(viewer.headers)).status, 403);
+    assert.deepStrictEqual((await request(app).get("/decks/mine").set(viewer.headers)).body.shared, []);
+
+    assert.strictEqual((await request(app).delete(`/decks/${deck.id}/collaborators/${editor.user.id}`).set(owner.headers)).status, 200);
+    const after = await request(app).post(`/decks/${deck.id}/cards`).set(editor.headers).send(tf("E"));
+    assert.strictEqual(after.status, 404);
+  });
+});
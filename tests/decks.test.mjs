@@ -0,0 +1,335 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import express from "express";
+
+process.env.NODE_ENV = "test";
+process.env.STORAGE_DRIVER = "memory"; // não toca no data/ real
+
+let app;
+let store;
+
+before(async () => {
+  store = await import("../src/lib/store.ts");
+  const { decksRouter } = await import("../src/routes/decks.ts");
+  app = express();
+  app.use(express.json());
+  app.use("/decks", decksRouter);
+});
+
+const tf = (prompt) => ({ type: "TRUE_FALSE", prompt_md: prompt, data_json: { answer: true } });
+
+async function login() {
+  const user = await store.createUser(`cards_${Math.random().toString(36).slice(2, 8)}`);
+  const secret = await store.addDeviceSecret(user.id);
+  const headers = { "x-user-id": user.id, "x-device-secret": secret };
+  const deck = await store.upsertDeck(user.id, {
+    title: "Cards",
+    topic: { theme: "IT" },
+    visibility: "PRIVATE",
+    cards: [tf("A"), tf("B"), tf("C")],
+  });
+  return { user, headers, deck };
+}
+
+describe("deck card endpoints", () => {
+  it("should add, patch and delete single cards", async () => {
+    const { user, headers, deck } = await login();
+
+    const add = await request(app).post(`/decks/${deck.id}/cards`).set(headers).send({ ...tf("Z"), position: 0 });
+    assert.strictEqual(add.status, 201);
+    assert.strictEqual(add.body.rev, deck.rev + 1);
+
+    const patch = await request(app)
+      .patch(`/decks/${deck.id}/cards/${add.body.card.id}`)
+      .set(headers)
+      .send({ prompt_md: "Z2" });
+    assert.strictEqual(patch.status, 200);
+    assert.strictEqual(patch.body.card.prompt_md, "Z2");
+    assert.strictEqual(patch.body.card.id, add.body.card.id);
+
+    const bad = await request(app).patch(`/decks/${deck.id}/cards/${add.body.card.id}`).set(headers).send({ prompt_md: "" });
+    assert.strictEqual(bad.status, 400);
+    assert.strictEqual(bad.body.error, "INVALID_CARD");
+
+    const del = await request(app).delete(`/decks/${deck.id}/cards/${deck.cards[1].id}`).set(headers);
+    assert.strictEqual(del.status, 200);
+    assert.strictEqual(del.body.rev, deck.rev + 3);
+
+    const fresh = (await store.loadUser(user.id)).decks[0];
+    assert.deepStrictEqual(fresh.cards.map(c => c.prompt_md), ["Z2", "A", "C"]);
+
+    const missing = await request(app).delete(`/decks/${deck.id}/cards/nope`).set(headers);
+    assert.strictEqual(missing.status, 404);
+    assert.strictEqual(missing.body.error, "CARD_NOT_FOUND");
+  });
+
+  it("should reject stale writes via If-Match", async () => {
+    const { headers, deck } = await login();
+    const first = await request(app)
+      .post(`/decks/${deck.id}/cards`)
+      .set({ ...headers, "If-Match": String(deck.rev) })
+      .send(tf("D1"));
+    assert.strictEqual(first.status, 201);
+
+    const second = await request(app)
+      .post(`/decks/${deck.id}/cards`)
+      .set({ ...headers, "If-Match": String(deck.rev) })
+      .send(tf("D2"));
+    assert.strictEqual(second.status, 409);
+    assert.strictEqual(second.body.error, "DECK_REV_MISMATCH");
+  });
+
+  it("should reorder only with the full set of card ids", async () => {
+    const { headers, deck } = await login();
+    const [a, b, c] = deck.cards.map(x => x.id);
+
+    const partial = await request(app).post(`/decks/${deck.id}/cards/reorder`).set(headers).send({ order: [c, a] });
+    assert.strictEqual(partial.status, 400);
+    assert.strictEqual(partial.body.error, "INVALID_ORDER");
+
+    const ok = await request(app).post(`/decks/${deck.id}/cards/reorder`).set(headers).send({ order: [c, a, b] });
+    assert.strictEqual(ok.status, 200);
+    assert.deepStrictEqual(ok.body.order, [c, a, b]);
+  });
+
+  it("should move cards keeping ids and copy them with new ids", async () => {
+    const { user, headers, deck } = await login();
+    const target = await store.upsertDeck(user.id, { title: "T", topic: { theme: "IT" }, visibility: "PRIVATE", cards: [] });
+    const [a, b] = deck.cards.map(x => x.id);
+
+    const move = await request(app)
+      .post(`/decks/${deck.id}/cards/move`)
+      .set(headers)
+      .send({ cardIds: [a], targetDeckId: target.id });
+    assert.strictEqual(move.status, 200);
+    assert.deepStrictEqual(move.body.cards.map(c => c.id), [a]);
+
+    const copy = await request(app)
+      .post(`/decks/${deck.id}/cards/copy`)
+      .set(headers)
+      .send({ cardIds: [b], targetDeckId: target.id, position: 0 });
+    assert.strictEqual(copy.status, 200);
+    assert.notStrictEqual(copy.body.cards[0].id, b);
+
+    const fresh = await store.loadUser(user.id);
+    const src = fresh.decks.find(d => d.id === deck.id);
+    const dst = fresh.decks.find(d => d.id === target.id);
+    assert.deepStrictEqual(src.cards.map(c => c.id), [b, deck.cards[2].id]);
+    assert.deepStrictEqual(dst.cards.map(c => c.id), [copy.body.cards[0].id, a]);
+
+    const same = await request(app)
+      .post(`/decks/${deck.id}/cards/move`)
+      .set(headers)
+      .send({ cardIds: [b], targetDeckId: deck.id });
+    assert.strictEqual(same.status, 400);
+  });
+});
+
+describe("card data validation", () => {
+  const valid = {
+    MCQ_SINGLE: { options: [{ text: "a", correct: true }, { text: "b" }] },
+    MCQ_MULTI: { options: [{ text: "a", correct: true }, { text: "b", correct: true }, { text: "c" }] },
+    TRUE_FALSE: { correct: false },
+    MATCH_LINES: { pairs: [{ left: "HTTP", right: "80" }, { left: "HTTPS", right: "443" }] },
+    MATCH_BUCKETS: { buckets: ["TCP", "UDP"], items: [{ text: "HTTP", bucket: 0 }, { text: "DNS", bucket: 1 }] },
+    TEXT: { accepted: ["sha256"] },
+  };
+  const deckOf = (cards) => ({ title: "V", topic: { theme: "IT" }, visibility: "PRIVATE", cards });
+
+  it("should accept every card type with its data contract", async () => {
+    const { headers } = await login();
+    const cards = Object.entries(valid).map(([type, data_json]) => ({ type, prompt_md: type, data_json }));
+    const res = await request(app).post("/decks/upsert").set(headers).send(deckOf(cards));
+    assert.strictEqual(res.status, 201);
+    assert.strictEqual(res.body.deck.cards.length, 6);
+  });
+
+  it("should reject invalid data_json with a per-card path", async () => {
+    const { headers } = await login();
+    const res = await request(app).post("/decks/upsert").set(headers).send(deckOf([
+      { type: "TRUE_FALSE", prompt_md: "ok", data_json: valid.TRUE_FALSE },
+      { type: "MCQ_SINGLE", prompt_md: "two right", data_json: valid.MCQ_MULTI },
+      { type: "MATCH_BUCKETS", prompt_md: "bucket", data_json: { buckets: ["a", "b"], items: [{ text: "x", bucket: 5 }] } },
+    ]));
+    assert.strictEqual(res.status, 400);
+    const paths = res.body.issues.map(i => i.path.join("."));
+    assert.ok(paths.includes("cards.1.data_json.options"));
+    assert.ok(paths.includes("cards.2.data_json.items.0.bucket"));
+  });
+
+  it("should normalize legacy MCQ options", async () => {
+    const { headers } = await login();
+    const res = await request(app).post("/decks/upsert").set(headers).send(deckOf([
+      { type: "MCQ_SINGLE", prompt_md: "hash?", data_json: { options: ["Integridade", "Compressão"], correct: [0] } },
+    ]));
+    assert.strictEqual(res.status, 201);
+    assert.deepStrictEqual(res.body.deck.cards[0].data_json, {
+      options: [{ text: "Integridade", correct: true }, { text: "Compressão", correct: false }],
+    });
+  });
+
+  it("should dry-run with /decks/validate without writing", async () => {
+    const { user, headers, deck } = await login();
+
+    const bad = await request(app).post("/decks/validate").set(headers).send(deckOf([{ type: "TEXT", prompt_md: "?", data_json: {} }]));
+    assert.strictEqual(bad.status, 200);
+    assert.strictEqual(bad.body.ok, false);
+    assert.deepStrictEqual(bad.body.issues.map(i => [i.path, i.cardIndex]), [["cards.0.data_json.accepted", 0]]);
+
+    const good = await request(app).post("/decks/validate").set(headers).send({
+      ...deckOf([{ ...deck.cards[0] }, { type: "TEXT", prompt_md: "?", data_json: valid.TEXT }]),
+      id: deck.id,
+    });
+    assert.strictEqual(good.body.ok, true);
+    assert.deepStrictEqual(good.body.preview.counts, { total: 2, byType: { TRUE_FALSE: 1, TEXT: 1 } });
+    assert.strictEqual(good.body.preview.diff.added, 1);
+    assert.deepStrictEqual(good.body.preview.diff.removed, [deck.cards[1].id, deck.cards[2].id]);
+
+    const fresh = await store.loadUser(user.id);
+    assert.strictEqual(fresh.decks[0].rev, deck.rev);
+  });
+});
+
+describe("deck forks", () => {
+  async function publicDeck() {
+    const author = await login();
+    const deck = await store.upsertDeck(author.user.id, {
+      id: author.deck.id,
+      title: "Original",
+      topic: { theme: "IT" },
+      visibility: "PUBLIC",
+      cards: author.deck.cards,
+    });
+    return { ...author, deck };
+  }
+
+  it("should fork a public deck with attribution and refuse private ones", async () => {
+    const author = await publicDeck();
+    const me = await login();
+
+    const res = await request(app).post(`/decks/${author.deck.id}/fork`).set(me.headers).send({});
+    assert.strictEqual(res.status, 201);
+    const fork = res.body.deck;
+    assert.strictEqual(fork.visibility, "PRIVATE");
+    assert.deepStrictEqual(fork.cards.map(c => c.prompt_md), ["A", "B", "C"]);
+    assert.ok(fork.cards.every((c, i) => c.id !== author.deck.cards[i].id));
+    assert.deepStrictEqual(fork.forkedFrom.owner, { userId: author.user.id, username: author.user.username });
+    assert.strictEqual(fork.forkedFrom.rev, author.deck.rev);
+    assert.strictEqual(fork.forkedFrom.cards, undefined); // ligação dos cards não sai
+
+    // fork de um fork mantém o 1.º autor em `origin`
+    await request(app).post("/decks/upsert").set(me.headers).send({ ...fork, visibility: "PUBLIC" });
+    const third = await login();
+    const again = await request(app).post(`/decks/${fork.id}/fork`).set(third.headers).send({ title: "Meu" });
+    assert.strictEqual(again.body.deck.title, "Meu");
+    assert.deepStrictEqual(again.body.deck.forkedFrom.origin, { deckId: author.deck.id, owner: fork.forkedFrom.owner });
+    const pub = await request(app).get(`/decks/${fork.id}`);
+    assert.strictEqual(pub.body.deck.forkedFrom.owner.username, author.user.username);
+
+    const priv = await login();
+    assert.strictEqual((await request(app).post(`/decks/${priv.deck.id}/fork`).set(me.headers)).status, 403);
+    assert.strictEqual((await request(app).get(`/decks/${priv.deck.id}/upstream`).set(priv.headers)).status, 400);
+  });
+
+  it("should list upstream changes and pull them selectively", async () => {
+    const author = await publicDeck();
+    const me = await login();
+    const fork = (await request(app).post(`/decks/${author.deck.id}/fork`).set(me.headers)).body.deck;
+    const [a, b, c] = author.deck.cards;
+
+    // origem: altera A, remove B, acrescenta D; o fork também editou o seu A
+    await store.upsertDeck(author.user.id, {
+      ...author.deck,
+      cards: [{ ...a, prompt_md: "A2" }, c, tf("D")],
+    });
+    await store.updateCard(me.user.id, fork.id, fork.cards[0].id, (cur) => ({ ...cur, hint: "minha" }));
+
+    const up = await request(app).get(`/decks/${fork.id}/upstream`).set(me.headers);
+    assert.strictEqual(up.status, 200);
+    assert.strictEqual(up.body.source.syncedRev, author.deck.rev);
+    const kinds = Object.fromEntries(up.body.changes.map(ch => [ch.kind, ch]));
+    assert.deepStrictEqual(Object.keys(kinds).sort(), ["added", "changed", "removed"]);
+    assert.strictEqual(kinds.changed.sourceCardId, a.id);
+    assert.strictEqual(kinds.changed.localModified, true);
+    assert.strictEqual(kinds.removed.sourceCardId, b.id);
+    assert.strictEqual(kinds.added.upstream.prompt_md, "D");
+
+    const pull = await request(app).post(`/decks/${fork.id}/upstream/pull`).set(me.headers)
+      .send({ cardIds: [kinds.added.sourceCardId, a.id], dismiss: [b.id] });
+    assert.strictEqual(pull.status, 200, JSON.stringify(pull.body));
+    assert.deepStrictEqual(pull.body.deck.cards.map(x => x.prompt_md), ["A2", "B", "C", "D"]);
+    assert.strictEqual(pull.body.deck.cards[0].id, fork.cards[0].id); // mantém o id (e o progresso)
+    assert.deepStrictEqual(pull.body.diff.changed, [fork.cards[0].id]);
+
+    const after = await request(app).get(`/decks/${fork.id}/upstream`).set(me.headers);
+    assert.deepStrictEqual(after.body.changes, []);
+    assert.strictEqual(
+      (await request(app).post(`/decks/${fork.id}/upstream/pull`).set(me.headers).send({ cardIds: ["nope"] })).status,
+      404
+    );
+
+    await store.deleteDeck(author.user.id, author.deck.id);
+    assert.strictEqual((await request(app).get(`/decks/${fork.id}/upstream`).set(me.headers)).status, 410);
+  });
+});
+
+describe("deck revisions", () => {
+  it("should record each save with its changes and show per-revision diffs", async () => {
+    const { user, headers, deck } = await login();
+    const [a, b, c] = deck.cards;
+    await store.upsertDeck(user.id, { ...deck, title: "Renamed", cards: [{ ...a, prompt_md: "A2" }, c, tf("D")] });
+    await store.reorderCards(user.id, deck.id, [deck.cards[2].id, a.id, (await store.loadUser(user.id)).decks[0].cards[2].id]);
+
+    const list = await request(app).get(`/decks/${deck.id}/revisions`).set(headers);
+    assert.strictEqual(list.status, 200);
+    assert.deepStrictEqual(list.body.revisions.map(r => r.rev), [3, 2, 1]);
+    const [third, second] = list.body.revisions;
+    assert.strictEqual(third.changes.reordered, true);
+    assert.strictEqual(second.by, user.id);
+    assert.deepStrictEqual(second.changes.fields, ["title"]);
+    assert.deepStrictEqual(second.changes.changed, [a.id]);
+    assert.deepStrictEqual(second.changes.removed, [b.id]);
+    assert.strictEqual(second.deck, undefined);
+
+    const detail = await request(app).get(`/decks/${deck.id}/revisions/2`).set(headers);
+    assert.strictEqual(detail.body.diff.base, 1);
+    assert.deepStrictEqual(detail.body.diff.fields, [{ field: "title", from: "Cards", to: "Renamed" }]);
+    assert.deepStrictEqual(detail.body.diff.changed.map(ch => [ch.before.prompt_md, ch.after.prompt_md]), [["A", "A2"]]);
+    assert.deepStrictEqual(detail.body.diff.removed.map(x => x.prompt_md), ["B"]);
+    assert.deepStrictEqual(detail.body.diff.added.map(x => x.prompt_md), ["D"]);
+    assert.strictEqual((await request(app).get(`/decks/${deck.id}/revisions/9`).set(headers)).status, 404);
+
+    const other = await login();
+    assert.strictEqual((await request(app).get(`/decks/${deck.id}/revisions`).set(other.headers)).status, 404);
+  });
+
+  it("should restore a revision as a new save, keeping card ids", async () => {
+    const { user, headers, deck } = await login();
+    await store.upsertDeck(user.id, { ...deck, title: "Outro", cards: [deck.cards[0]] });
+
+    const stale = await request(app).post(`/decks/${deck.id}/revisions/1/restore`).set(headers).set("If-Match", "1");
+    assert.strictEqual(stale.status, 409);
+    const res = await request(app).post(`/decks/${deck.id}/revisions/1/restore`).set(headers).set("If-Match", "2");
+    assert.strictEqual(res.status, 200, JSON.stringify(res.body));
+    assert.strictEqual(res.body.deck.rev, 3);
+    assert.strictEqual(res.body.deck.title, "Cards");
+    assert.deepStrictEqual(res.body.deck.cards.map(c => c.id), deck.cards.map(c => c.id));
+    assert.deepStrictEqual(res.body.diff.added, [deck.cards[1].id, deck.cards[2].id]);
+
+    const list = await request(app).get(`/decks/${deck.id}/revisions`).set(headers);
+    assert.deepStrictEqual(list.body.revisions.map(r => r.rev), [3, 2, 1]);
+  });
+
+  it("should keep only the most recent revisions and drop them with the deck", async () => {
+    const u = store.defaultUser("cap");
+    const deck = { id: "d1", title: "T", topic: { theme: "IT" }, visibility: "PRIVATE", tags: [], rev: 1, createdAt: "", updatedAt: "", cards: [] };
+    const none = { added: [], changed: [], removed: [], unchanged: 0 };
+    for (let rev = 1; rev <= 5; rev++) store.recordDeckRevision(u, { ...deck, rev }, none, undefined, undefined, 3);
+    assert.deepStrictEqual(u.deckRevisions.d1.map(r => r.rev), [3, 4, 5]);
+
+    const { user, deck: real } = await login();
+    await store.deleteDeck(user.id, real.id);
+    assert.strictEqual((await store.loadUser(user.id)).deckRevisions[real.id], undefined);
+  });
+});
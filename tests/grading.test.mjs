@@ -0,0 +1,174 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import express from "express";
+
+process.env.NODE_ENV = "test";
+process.env.STORAGE_DRIVER = "memory"; // não toca no data/ real
+
+let app;
+let store;
+let gradeAnswer;
+let isSafePattern;
+let BattleHub;
+
+before(async () => {
+  store = await import("../src/lib/store.ts");
+  ({ gradeAnswer } = await import("../src/lib/grading.ts"));
+  ({ isSafePattern } = await import("../src/lib/cardData.ts"));
+  ({ BattleHub } = await import("../src/services/battleHub.ts"));
+  const { soloRouter } = await import("../src/routes/solo.ts");
+  app = express();
+  app.use(express.json());
+  app.use("/solo", soloRouter);
+});
+
+const tf = { correct: false };
+const single = { options: [{ text: "a", correct: true }, { text: "b" }, { text: "c" }] };
+const multi = { options: [{ text: "a", correct: true }, { text: "b" }, { text: "c", correct: true }] };
+const pairs = { pairs: [{ left: "TCP", right: "fiável" }, { left: "UDP", right: "sem ligação" }, { left: "QUIC", right: "fiável" }] };
+const buckets = {
+  buckets: ["camada 3", "camada 4"],
+  items: [{ text: "IP", bucket: 0 }, { text: "TCP", bucket: 1 }, { text: "UDP", bucket: 1 }, { text: "ICMP", bucket: 0 }],
+};
+const text = { accepted: ["Função hash", "hash"] };
+const regex = { accepted: [], patterns: ["sha-?(256|512)"] };
+
+// [tipo, data_json, payload, correct, score]
+const CASES = [
+  ["TRUE_FALSE", tf, { answer: false }, true, 1],
+  ["TRUE_FALSE", tf, { answer: true }, false, 0],
+  ["TRUE_FALSE", tf, {}, false, 0],
+  ["TRUE_FALSE", tf, { answer: "false" }, false, 0],
+  ["TRUE_FALSE", tf, null, false, 0],
+
+  ["MCQ_SINGLE", single, { index: 0 }, true, 1],
+  ["MCQ_SINGLE", single, { index: "0" }, true, 1],
+  ["MCQ_SINGLE", single, { index: 2 }, false, 0],
+  ["MCQ_SINGLE", single, { index: null }, false, 0],
+  ["MCQ_SINGLE", single, { index: "" }, false, 0],
+  ["MCQ_SINGLE", single, { index: -3 }, false, 0],
+  ["MCQ_SINGLE", { options: ["a", "b"], correct: [1] }, { index: 1 }, true, 1], // MCQ antigo
+
+  ["MCQ_MULTI", multi, { indices: [2, 0] }, true, 1],
+  ["MCQ_MULTI", multi, { indices: [0] }, false, 0],
+  ["MCQ_MULTI", multi, { indices: [0, 1, 2] }, false, 0],
+  ["MCQ_MULTI", multi, { indices: [0, 2, null] }, false, 0],
+  ["MCQ_MULTI", multi, { indices: "0,2" }, false, 0],
+  ["MCQ_MULTI", multi, { indices: [0, 2, -1] }, false, 0],
+
+  ["MATCH_LINES", pairs, { matches: [0, 1, 2] }, true, 1],
+  ["MATCH_LINES", pairs, { matches: [2, 1, 0] }, true, 1], // direitas iguais são intercambiáveis
+  ["MATCH_LINES", pairs, { matches: [1, 0, 2] }, false, 0],
+  ["MATCH_LINES", pairs, { matches: [0, 1] }, false, 0],
+  ["MATCH_LINES", pairs, { matches: [0, 1, 9] }, false, 0],
+  ["MATCH_LINES", pairs, { matches: [-1, 1, 2] }, false, 0],
+  ["MATCH_LINES", pairs, { matches: [0, 1, "-1"] }, false, 0],
+  ["MATCH_LINES", pairs, { matches: [0, 1, 3] }, false, 0],
+  ["MATCH_LINES", pairs, "lixo", false, 0],
+
+  ["MATCH_BUCKETS", buckets, { assignments: [0, 1, 1, 0] }, true, 1],
+  ["MATCH_BUCKETS", buckets, { assignments: [0, 1, 0, 0] }, false, 0],
+  ["MATCH_BUCKETS", { ...buckets, partialCredit: true }, { assignments: [0, 1, 0, 0] }, false, 0.75],
+  ["MATCH_BUCKETS", { ...buckets, partialCredit: true }, { assignments: [0, "1"] }, false, 0.5],
+  ["MATCH_BUCKETS", { ...buckets, partialCredit: true }, {}, false, 0],
+  ["MATCH_BUCKETS", { ...buckets, partialCredit: true }, { assignments: [-1, 1, 5, 0] }, false, 0.5],
+
+  ["TEXT", text, { text: "  funcao   HASH " }, true, 1],
+  ["TEXT", { ...text, accentSensitive: true }, { text: "funcao hash" }, false, 0],
+  ["TEXT", { ...text, caseSensitive: true }, { text: "HASH" }, false, 0],
+  ["TEXT", text, { text: "funcao hsah" }, false, 0],
+  ["TEXT", { ...text, maxTypos: 2 }, { text: "funcao hsah" }, true, 1],
+  ["TEXT", text, { text: "" }, false, 0],
+  ["TEXT", text, { text: 42 }, false, 0],
+  ["TEXT", text, { text: `hash${" ".repeat(600)}` }, false, 0],
+  ["TEXT", regex, { text: "SHA512" }, true, 1],
+  ["TEXT", regex, { text: "sha-384" }, false, 0],
+  ["TEXT", regex, { text: "x sha256" }, false, 0], // o padrão tem de cobrir a resposta toda
+  // padrões com backtracking catastrófico gravados antes da validação nunca chegam a correr
+  ["TEXT", { accepted: [], patterns: ["(a+)+b"] }, { text: `${"a".repeat(40)}c` }, false, 0],
+
+  // data_json fora do contrato e tipos desconhecidos nunca acertam
+  ["TRUE_FALSE", {}, { answer: false }, false, 0],
+  ["MCQ_SINGLE", { options: [{ text: "a", correct: true }, { text: "b", correct: true }] }, { index: 0 }, false, 0],
+  ["TEXT", { accepted: "hash" }, { text: "hash" }, false, 0],
+  ["ESSAY", {}, { text: "x" }, false, 0],
+];
+
+describe("grading", () => {
+  for (const [type, data, payload, correct, score] of CASES) {
+    it(`${type} ${JSON.stringify(payload)} -> ${correct ? "correct" : `wrong (${score})`}`, () => {
+      const r = gradeAnswer(type, data, payload);
+      assert.deepStrictEqual({ correct: r.correct, score: r.score }, { correct, score });
+    });
+  }
+
+  it("should reject TEXT patterns that backtrack catastrophically", () => {
+    for (const p of ["(a+)+b", "(a|aa)*", "(?:\\w*)+x", "(\\w+) \\1", "(?<w>a)\\k<w>", "a*b*c*d*"]) {
+      assert.strictEqual(isSafePattern(p), false, p);
+    }
+    for (const p of ["sha-?(256|512)", "colou?r", "[a-z]+( [a-z]+)?", "\\p{L}+", "(ab){1,3}"]) {
+      assert.strictEqual(isSafePattern(p), true, p);
+    }
+  });
+
+  it("should explain the expected answer in the feedback", () => {
+    assert.deepStrictEqual(gradeAnswer("MCQ_MULTI", multi, { indices: [0] }).feedback, { expected: [0, 2] });
+    assert.deepStrictEqual(gradeAnswer("TEXT", regex, { text: "md5" }).feedback, { expected: ["sha-?(256|512)"] });
+    assert.deepStrictEqual(gradeAnswer("TEXT", { accepted: "hash" }, { text: "hash" }).feedback, {});
+
+    const lines = gradeAnswer("MATCH_LINES", pairs, { matches: [1, 0] }).feedback;
+    assert.deepStrictEqual(
+      lines.parts.map((p) => [p.correct, p.given, p.expected]),
+      [[false, "sem ligação", "fiável"], [false, "fiável", "sem ligação"], [false, null, "fiável"]]
+    );
+    assert.deepStrictEqual(gradeAnswer("MATCH_BUCKETS", buckets, {}).feedback.expected, [0, 1, 1, 0]);
+  });
+
+  it("should score /solo/answer with the shared grader and pay ZAPPs by score", async () => {
+    const user = await store.createUser(`grade_${Math.random().toString(36).slice(2, 8)}`);
+    const secret = await store.addDeviceSecret(user.id);
+    const headers = { "x-user-id": user.id, "x-device-secret": secret };
+    const deck = await store.upsertDeck(user.id, {
+      title: "Redes",
+      topic: { theme: "IT" },
+      visibility: "PRIVATE",
+      cards: [
+        { type: "MATCH_BUCKETS", prompt_md: "Camadas", data_json: { ...buckets, partialCredit: true } },
+        { type: "TEXT", prompt_md: "Protocolo fiável?", data_json: { accepted: ["TCP"] } },
+      ],
+    });
+    const answer = (cardId, payload) =>
+      request(app).post("/solo/answer").set(headers).send({ deckId: deck.id, cardId, rating: "HARD", answer: payload });
+
+    const partial = await answer(deck.cards[0].id, { assignments: [0, 1, 0, 0] });
+    assert.strictEqual(partial.status, 200, JSON.stringify(partial.body));
+    assert.strictEqual(partial.body.correct, false);
+    assert.strictEqual(partial.body.grade.score, 0.75);
+    assert.strictEqual(partial.body.grade.feedback.parts[2].correct, false);
+    assert.strictEqual(partial.body.zappsEarned, 9);
+
+    const right = await answer(deck.cards[1].id, { text: "tcp" });
+    assert.strictEqual(right.body.correct, true);
+    assert.strictEqual(right.body.zappsEarned, 12);
+    assert.strictEqual(right.body.progress.timesCorrect, 1);
+  });
+
+  it("should score battle answers with the shared grader", async () => {
+    const host = await store.createUser(`battle_${Math.random().toString(36).slice(2, 8)}`);
+    const deck = await store.upsertDeck(host.id, {
+      title: "Battle",
+      topic: { theme: "IT" },
+      visibility: "PRIVATE",
+      cards: [{ type: "MCQ_MULTI", prompt_md: "Quais?", data_json: multi }],
+    });
+    const hub = new BattleHub();
+    const lobby = await hub.createLobby({ hostId: host.id, deckId: deck.id, count: 1, access: "PUBLIC" });
+    await hub.join({ lobbyId: lobby.id, userId: host.id, username: host.username });
+    hub.start(lobby.id);
+
+    const r = hub.submitAnswer({ lobbyId: lobby.id, userId: host.id, payload: { indices: ["2", 0] } });
+    assert.strictEqual(r.correct, true);
+    assert.ok(r.delta >= 100 && r.delta <= 150);
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import express from "express";
+
+process.env.NODE_ENV = "test";
+process.env.STORAGE_DRIVER = "memory"; // não toca no data/ real
+
+let app;
+let store;
+let csv;
+
+before(async () => {
+  store = await import("../src/lib/store.ts");
+  csv = await import("../src/lib/csv.ts");
+  const { decksRouter } = await import("../src/routes/decks.ts");
+  app = express();
+  app.use(express.json());
+  app.use("/decks", decksRouter);
+});
+
+async function login() {
+  const user = await store.createUser(`imp_${Math.random().toString(36).slice(2, 8)}`);
+  const secret = await store.addDeviceSecret(user.id);
+  return { user, headers: { "x-user-id": user.id, "x-device-secret": secret } };
+}
+
+describe("csv parser", () => {
+  it("should handle quotes, escaped quotes, multiline fields and BOM", () => {
+    const text = '\uFEFFa,b,c\r\n"x, y","say ""hi""","line1\nline2"\r\n\r\nlast,,\n';
+    const t = csv.parseDelimited(text);
+    assert.strictEqual(t.delimiter, ",");
+    assert.deepStrictEqual(t.rows, [
+      ["a", "b", "c"],
+      ["x, y", 'say "hi"', "line1\nline2"],
+      ["last", "", ""],
+    ]);
+    assert.deepStrictEqual(t.lines, [1, 2, 5]);
+  });
+
+  it("should detect tab and semicolon delimiters", () => {
+    assert.strictEqual(csv.detectDelimiter("a\tb\tc\n1,2\t3"), "\t");
+    assert.strictEqual(csv.detectDelimiter('prompt;"x,y";z'), ";");
+  });
+
+  it("should round-trip through toDelimited", () => {
+    const rows = [["prompt", "data_json"], ["Q, 1", '{"correct":true}'], [" padded ", "multi\nline"]];
+    assert.deepStrictEqual(csv.parseDelimited(csv.toDelimited(rows)).rows, rows);
+  });
+});
+
+describe("POST /decks/import (csv)", () => {
+  const text = [
+    "question;option1;option2;option3;correct;hint",
+    "Porta do HTTPS?;80;443;22;2;",
+    '"Protocolos sem ligação; escolhe";UDP;TCP;QUIC;1|3;"pensa em ""datagramas"""',
+    "Terra é plana?;;;;falso;",
+    "Hash seguro?;;;;sha256|SHA-256;",
+    "Sem resposta;a;b;;9;",
+  ].join("\n");
+
+  it("should preview per-row errors in dry-run without writing", async () => {
+    const { user, headers } = await login();
+    const res = await request(app).post("/decks/import?dryRun=1").set(headers).send({ text, title: "Redes" });
+    assert.strictEqual(res.status, 200);
+    assert.strictEqual(res.body.dryRun, true);
+    assert.strictEqual(res.body.ok, false);
+    assert.deepStrictEqual(
+      { total: res.body.report.total, valid: res.body.report.valid, invalid: res.body.report.invalid },
+      { total: 5, valid: 4, invalid: 1 }
+    );
+    assert.strictEqual(res.body.report.delimiter, ";");
+    assert.deepStrictEqual(res.body.report.errors.map(e => [e.row, e.errors[0].path]), [[6, "correct"]]);
+
+    const cards = res.body.preview.deck.cards;
+    assert.deepStrictEqual(cards.map(c => c.type), ["MCQ_SINGLE", "MCQ_MULTI", "TRUE_FALSE", "TEXT"]);
+    assert.deepStrictEqual(cards[1].data_json.options.map(o => o.correct), [true, false, true]);
+    assert.strictEqual(cards[1].hint, 'pensa em "datagramas"');
+    assert.deepStrictEqual(cards[2].data_json, { correct: false });
+    assert.deepStrictEqual(cards[3].data_json.accepted, ["sha256", "SHA-256"]);
+
+    assert.strictEqual((await store.loadUser(user.id)).decks.length, 0);
+  });
+
+  it("should import valid rows and report the rest", async () => {
+    const { headers } = await login();
+    const res = await request(app).post("/decks/import").set(headers).send({ text, title: "Redes" });
+    assert.strictEqual(res.status, 201);
+    assert.strictEqual(res.body.deck.cards.length, 4);
+    assert.strictEqual(res.body.report.invalid, 1);
+
+    const strict = await request(app).post("/decks/import").set(headers).send({ text, strict: true });
+    assert.strictEqual(strict.status, 422);
+    assert.strictEqual(strict.body.error, "IMPORT_HAS_ERRORS");
+  });
+
+  it("should accept data_json columns containing commas", async () => {
+    const { headers } = await login();
+    const body = 'type,prompt_md,data_json\nMATCH_LINES,Liga,"{""pairs"":[{""left"":""a"",""right"":""1""},{""left"":""b"",""right"":""2""}]}"\n';
+    const res = await request(app).post("/decks/import").set(headers).send({ text: body });
+    assert.strictEqual(res.status, 201);
+    assert.strictEqual(res.body.deck.cards[0].data_json.pairs.length, 2);
+  });
+
+  it("should reject files without a prompt column", async () => {
+    const { headers } = await login();
+    const res = await request(app).post("/decks/import").set(headers).send({ text: "foo,bar\n1,2\n" });
+    assert.strictEqual(res.status, 400);
+    assert.deepStrictEqual(res.body, { error: "MISSING_COLUMN", column: "prompt_md" });
+  });
+});
+
+describe("html to markdown", () => {
+  it("should keep basic formatting and drop the rest", async () => {
+    const { htmlToMarkdown, htmlToText } = await import("../src/lib/html.ts");
+    const html = '<div><b>TCP</b> &amp; <i>UDP</i><br>porta <code>443</code></div><ul><li>a</li><li><a href="https://x.pt">b</a></li></ul>[sound:x.mp3]';
+    assert.strictEqual(htmlToMarkdown(html), "**TCP** & *UDP*\nporta `443`\n\n- a\n- [b](https://x.pt)");
+    assert.strictEqual(htmlToText("<b>Três</b>&nbsp;vias<br>handshake"), "Três vias handshake");
+  });
+});
+
+describe("POST /decks/import (anki, quizlet)", () => {
+  const anki = [
+    "#separator:tab",
+    "#html:true",
+    "#deck:Informática::Redes",
+    "#tags column:3",
+    "Porta do <b>HTTPS</b>?\t443\tredes portas",
+    '"Camadas\tdo OSI?"\t<div>sete</div>\tredes osi',
+    "O UDP tem ligação?\tfalso\t",
+    "{{c1::TCP}} usa o {{c2::three-way::aperto}} handshake\t<i>RFC 793</i>\tredes",
+    "Sem verso\t\t",
+  ].join("\n");
+
+  it("should map Anki notes, tags, clozes and the deck name", async () => {
+    const { headers } = await login();
+    const res = await request(app).post("/decks/import").set(headers).send({ text: anki, format: "anki" });
+    assert.strictEqual(res.status, 201);
+    const { deck, report } = res.body;
+    assert.strictEqual(deck.title, "Redes");
+    assert.deepStrictEqual(deck.tags, ["redes", "portas", "osi"]);
+    assert.deepStrictEqual(
+      deck.cards.map(c => [c.type, c.prompt_md]),
+      [
+        ["TEXT", "Porta do **HTTPS**?"],
+        ["TEXT", "Camadas\tdo OSI?"],
+        ["TRUE_FALSE", "O UDP tem ligação?"],
+        ["TEXT", "[...] usa o three-way handshake"],
+        ["TEXT", "TCP usa o [aperto] handshake"],
+      ]
+    );
+    assert.deepStrictEqual(deck.cards[1].data_json.accepted, ["sete"]);
+    assert.deepStrictEqual(deck.cards[3].data_json.accepted, ["TCP"]);
+    assert.strictEqual(deck.cards[4].hint, "RFC 793");
+    assert.deepStrictEqual(report.errors, [{ row: 5, line: 9, errors: [{ path: "back", message: "note has no answer field" }] }]);
+  });
+
+  it("should import Quizlet exports with custom separators as MCQ", async () => {
+    const { headers } = await login();
+    const text = "HTTP - 80;;HTTPS - 443;;SSH - 22;;DNS - 53;;TLS é cifra? - verdadeiro;;sem separador";
+    const res = await request(app).post("/decks/import?dryRun=1").set(headers).send({
+      text, format: "quizlet", delimiter: " - ", rowSeparator: ";;", answerAs: "mcq", choices: 3,
+    });
+    assert.strictEqual(res.status, 200);
+    const cards = res.body.preview.deck.cards;
+    assert.deepStrictEqual(cards.map(c => c.type), ["MCQ_SINGLE", "MCQ_SINGLE", "MCQ_SINGLE", "MCQ_SINGLE", "TRUE_FALSE"]);
+    assert.deepStrictEqual(cards[1].data_json.options, [
+      { text: "22", correct: false },
+      { text: "443", correct: true },
+      { text: "53", correct: false },
+    ]);
+    assert.deepStrictEqual(res.body.report.errors.map(e => [e.row, e.errors[0].path]), [[6, "definition"]]);
+  });
+
+  it("should default Quizlet to tab and new line", async () => {
+    const { headers } = await login();
+    const res = await request(app).post("/decks/import").set(headers).send({
+      text: "router\tencaminha pacotes\r\nswitch\tcomuta tramas\r\n", format: "quizlet",
+    });
+    assert.strictEqual(res.status, 201);
+    assert.deepStrictEqual(res.body.deck.cards.map(c => c.data_json.accepted[0]), ["encaminha pacotes", "comuta tramas"]);
+  });
+});
+
+describe("GET /decks/:deckId/export", () => {
+  const cards = [
+    { type: "MCQ_SINGLE", prompt_md: "Porta, do **HTTPS**?", data_json: { options: [{ text: "80", correct: false }, { text: "443", correct: true }] }, hint: "TLS" },
+    { type: "TRUE_FALSE", prompt_md: "UDP tem\nligação?", data_json: { correct: false }, time_limit_sec: 20 },
+    { type: "MATCH_BUCKETS", prompt_md: "Camadas", data_json: { buckets: ["L4", "L7"], items: [{ text: "TCP", bucket: 0 }, { text: "HTTP", bucket: 1 }] } },
+    { type: "TEXT", prompt_md: "Hash?", data_json: { accepted: ["sha256", "SHA-256"], caseSensitive: false } },
+  ];
+
+  async function seed(visibility) {
+    const { user, headers } = await login();
+    const deck = await store.upsertDeck(user.id, {
+      title: "Redes & Protocolos", topic: { theme: "IT", subtheme: "Redes" }, visibility, tags: ["redes", "tcp/ip"], cards,
+    });
+    return { deck, headers };
+  }
+
+  // sem ids nem campos undefined
+  const strip = (d) => JSON.parse(JSON.stringify({ ...d, cards: d.cards.map(({ id, ...c }) => c) }));
+
+  it("should round-trip json and csv through /decks/import", async () => {
+    const { deck, headers } = await seed("PUBLIC");
+    const json = await request(app).get(`/decks/${deck.id}/export`);
+    assert.strictEqual(json.status, 200);
+    assert.match(json.headers["content-disposition"], /redes-protocolos\.json/);
+    const back = await request(app).post("/decks/import").set(headers).send({ jsonDeck: json.body });
+    assert.strictEqual(back.status, 201);
+
+    const csvRes = await request(app).get(`/decks/${deck.id}/export?format=csv`);
+    assert.match(csvRes.headers["content-type"], /^text\/csv/);
+    const fromCsv = await request(app).post("/decks/import").set(headers).send({ text: csvRes.text });
+    assert.strictEqual(fromCsv.status, 201);
+    assert.strictEqual(fromCsv.body.report.invalid, 0);
+
+    const pick = (d) => strip({ title: d.title, topic: d.topic, tags: d.tags, cards: d.cards });
+    assert.deepStrictEqual(pick(back.body.deck), pick(deck));
+    assert.deepStrictEqual(pick(fromCsv.body.deck), pick(deck));
+  });
+
+  it("should render markdown with answers, tags and hints", async () => {
+    const { deck } = await seed("PUBLIC");
+    const res = await request(app).get(`/decks/${deck.id}/export?format=md`);
+    assert.strictEqual(res.status, 200);
+    assert.match(res.headers["content-type"], /^text\/markdown/);
+    for (const line of ["# Redes & Protocolos", "- **Topic:** IT > Redes", "- **Tags:** redes, tcp/ip", "- [x] 443", "> **Hint:** TLS", "**Answer:** False", "- **L7:** HTTP", "**Answer:** sha256 / SHA-256", "_Time limit: 20s_"]) {
+      assert.ok(res.text.includes(line), `missing: ${line}`);
+    }
+  });
+
+  it("should only export private decks to their owner", async () => {
+    const { deck, headers } = await seed("PRIVATE");
+    assert.strictEqual((await request(app).get(`/decks/${deck.id}/export`)).status, 403);
+    assert.strictEqual((await request(app).get(`/decks/${deck.id}/export`).set({ "x-user-id": headers["x-user-id"] })).status, 403);
+    assert.strictEqual((await request(app).get(`/decks/${deck.id}/export?format=csv`).set(headers)).status, 200);
+    const qs = `uid=${headers["x-user-id"]}&ds=${headers["x-device-secret"]}`;
+    assert.strictEqual((await request(app).get(`/decks/${deck.id}/export?format=md&${qs}`)).status, 200);
+    assert.strictEqual((await request(app).get(`/decks/${deck.id}/export?format=pdf`).set(headers)).status, 400);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+process.env.NODE_ENV = "test";
+process.env.STORAGE_DRIVER = "memory"; // não toca no data/ real
+const journalDir = fs.mkdtempSync(path.join(os.tmpdir(), "mindzapp-journal-"));
+process.env.JOURNAL_ENABLED = "1";
+process.env.JOURNAL_DIR = journalDir;
+process.env.JOURNAL_MAX_BYTES = "4096";
+
+let store;
+let events;
+let journal;
+let replay;
+
+before(async () => {
+  store = await import("../src/lib/store.ts");
+  events = await import("../src/lib/events.ts");
+  journal = await import("../src/lib/journal.ts");
+  replay = await import("../src/lib/replay.ts");
+});
+
+after(() => {
+  fs.rmSync(journalDir, { recursive: true, force: true });
+});
+
+function trx(amount) {
+  return { id: Math.random().toString(36).slice(2), ts: new Date().toISOString(), type: "EARN", amount };
+}
+
+async function eventsFor(userId) {
+  const out = [];
+  for await (const e of journal.readJournal({ userId })) out.push(e);
+  return out;
+}
+
+describe("store events", () => {
+  it("should publish typed events after each mutation", async () => {
+    const seen = [];
+    const off = events.storeEvents.on("*", (e) => seen.push(e));
+    const user = await store.createUser(`evt_${Date.now()}`);
+    const deck = await store.upsertDeck(user.id, { title: "A", topic: { theme: "IT" }, visibility: "PRIVATE", cards: [] });
+    await store.appendTransaction(user.id, trx(7));
+    await store.deleteDeck(user.id, deck.id);
+    off();
+
+    const mine = seen.filter((e) => e.userId === user.id);
+    assert.deepStrictEqual(mine.map((e) => e.type), ["user.created", "deck.upserted", "wallet.transaction", "deck.deleted"]);
+    assert.strictEqual(mine[2].balance, 7);
+    assert.ok(mine.every((e, i) => i === 0 || e.rev > mine[i - 1].rev));
+  });
+
+  it("should not journal device secrets", async () => {
+    const user = await store.createUser(`sec_${Date.now()}`);
+    const secret = await store.addDeviceSecret(user.id);
+    await journal.flushJournal();
+
+    const raw = fs.readdirSync(journalDir).map((f) => fs.readFileSync(path.join(journalDir, f), "utf8")).join("");
+    assert.ok(!raw.includes(secret));
+    const evts = await eventsFor(user.id);
+    assert.strictEqual(evts.at(-1).secretHash, store.secretHash(secret));
+  });
+});
+
+describe("journal replay", () => {
+  it("should rebuild a user file from its events", async () => {
+    const user = await store.createUser(`rep_${Date.now()}`);
+    const d1 = await store.upsertDeck(user.id, {
+      title: "Redes",
+      topic: { theme: "IT" },
+      visibility: "PUBLIC",
+      cards: [{ type: "TRUE_FALSE", prompt_md: "TCP?", data_json: { answer: true } }],
+    });
+    const d2 = await store.upsertDeck(user.id, { title: "Tmp", topic: { theme: "IT" }, visibility: "PRIVATE", cards: [] });
+    await store.upsertDeck(user.id, { ...d1, title: "Redes 2" });
+    await store.deleteDeck(user.id, d2.id);
+    for (let i = 0; i < 5; i++) await store.appendTransaction(user.id, trx(3));
+
+    const live = await store.loadUser(user.id);
+    const { user: rebuilt, base, applied } = await replay.replayUser(user.id);
+
+    assert.strictEqual(base, "journal");
+    assert.strictEqual(applied, 9);
+    assert.deepStrictEqual(rebuilt.decks, live.decks);
+    assert.deepStrictEqual(rebuilt.wallet, live.wallet);
+    assert.strictEqual(rebuilt.rev, live.rev);
+  });
+
+  it("should restore a corrupted user file and keep a rotated journal readable", async () => {
+    const user = await store.createUser(`cor_${Date.now()}`);
+    for (let i = 0; i < 30; i++) await store.appendTransaction(user.id, trx(1));
+    await journal.flushJournal();
+    assert.ok((await journal.listJournalFiles()).length > 1, "expected rotation at 4 KB");
+
+    const { getStorage } = await import("../src/lib/storage.ts");
+    await getStorage().writeDoc("users", user.id, "{ not json");
+    assert.strictEqual(await store.loadUser(user.id), null);
+
+    await replay.restoreUserFromJournal(user.id);
+    const fresh = await store.loadUser(user.id);
+    assert.strictEqual(fresh.wallet.balance, 30);
+    assert.strictEqual(fresh.wallet.transactions.length, 30);
+
+    const last = (await eventsFor(user.id)).at(-1);
+    assert.strictEqual(last.type, "user.snapshot");
+    assert.strictEqual(last.reason, "journal-replay");
+  });
+
+  it("should fail without a base event", async () => {
+    await assert.rejects(() => replay.replayUser("nobody"), /JOURNAL_NO_BASE/);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import express from "express";
+
+process.env.NODE_ENV = "test";
+process.env.STORAGE_DRIVER = "memory"; // não toca no data/ real
+
+let app;
+let store;
+let md;
+
+before(async () => {
+  store = await import("../src/lib/store.ts");
+  md = await import("../src/lib/markdown.ts");
+  const { decksRouter } = await import("../src/routes/decks.ts");
+  const { soloRouter } = await import("../src/routes/solo.ts");
+  app = express();
+  app.use(express.json());
+  app.use("/decks", decksRouter);
+  app.use("/solo", soloRouter);
+});
+
+async function login() {
+  const user = await store.createUser(`md_${Math.random().toString(36).slice(2, 8)}`);
+  const secret = await store.addDeviceSecret(user.id);
+  return { user, headers: { "x-user-id": user.id, "x-device-secret": secret } };
+}
+
+const deckBody = (cards) => ({ title: "Markdown", topic: { theme: "IT" }, visibility: "PUBLIC", cards });
+
+describe("markdown sanitization", () => {
+  it("should strip html, unsafe links and remote images but keep code", () => {
+    const r = md.sanitizeMarkdown(
+      'Olá <script>fetch("//x")</script><b>mundo</b> [aqui](javascript:alert(1)) ![px](https://t.example/p.gif) `<i>`'
+    );
+    assert.strictEqual(r.text, "Olá mundo aqui px `<i>`");
+    assert.deepStrictEqual(r.removed.sort(), ["html", "image", "link"]);
+
+    assert.deepStrictEqual(md.sanitizeMarkdown("[docs](https://example.com) e <https://example.com>").removed, []);
+    assert.strictEqual(md.sanitizeMarkdown("[x](jav&#x61;script:alert(1))").text, "x");
+    assert.strictEqual(md.sanitizeMarkdown("[x]: \tjavascript:alert(1)\ntexto").text, "\ntexto");
+    assert.strictEqual(md.isSafeUrl("java\tscript:alert(1)"), false);
+    assert.strictEqual(md.isSafeUrl("/decks/abc"), true);
+  });
+
+  it("should render a safe subset of markdown to html", () => {
+    assert.strictEqual(
+      md.renderMarkdown("# Título\n\n**forte** e _leve_ <img src=x onerror=alert(1)>\n- [a](https://e.com/x_y_z)\n- `b*c*`"),
+      [
+        "<h1>Título</h1>",
+        "<p><strong>forte</strong> e <em>leve</em> &lt;img src=x onerror=alert(1)&gt;</p>",
+        '<ul><li><a href="https://e.com/x_y_z" rel="nofollow noopener noreferrer" target="_blank">a</a></li><li><code>b*c*</code></li></ul>',
+      ].join("\n")
+    );
+    assert.strictEqual(md.renderMarkdown("[x](javascript:alert(1))"), "<p>x</p>");
+    assert.strictEqual(
+      md.renderMarkdown("[_docs_](https://e.com) e snake_case ou _leve_"),
+      '<p><a href="https://e.com" rel="nofollow noopener noreferrer" target="_blank"><em>docs</em></a> e snake_case ou <em>leve</em></p>'
+    );
+    assert.strictEqual(md.renderMarkdown("```\n<b>\n```"), "<pre><code>&lt;b&gt;</code></pre>");
+  });
+
+  it("should sanitize cards on upsert and warn about it in validate", async () => {
+    const ana = await login();
+    const cards = [
+      {
+        type: "MCQ_SINGLE",
+        prompt_md: "Qual? <iframe src=//evil></iframe>",
+        hint: "vê [isto](data:text/html,x)",
+        data_json: {
+          options: [
+            { text: "<b>Sim</b>", correct: true },
+            { text: "Não", correct: false },
+          ],
+        },
+      },
+    ];
+
+    const check = await request(app).post("/decks/validate").set(ana.headers).send(deckBody(cards));
+    assert.strictEqual(check.body.ok, true);
+    assert.deepStrictEqual(
+      check.body.warnings.map((w) => w.path),
+      ["cards.0.prompt_md", "cards.0.hint", "cards.0.data_json.options.0.text"]
+    );
+    const { cards: _cards, ...noCards } = deckBody(cards);
+    const bare = await request(app).post("/decks/validate").set(ana.headers).send(noCards);
+    assert.strictEqual(bare.status, 200);
+    assert.deepStrictEqual(bare.body.warnings, []);
+
+    const created = await request(app).post("/decks/upsert").set(ana.headers).send(deckBody(cards));
+    assert.strictEqual(created.status, 201, JSON.stringify(created.body));
+    const card = created.body.deck.cards[0];
+    assert.deepStrictEqual(
+      { prompt: card.prompt_md, hint: card.hint, option: card.data_json.options[0].text },
+      { prompt: "Qual? ", hint: "vê isto", option: "Sim" }
+    );
+
+    const empty = await request(app).post("/decks/upsert").set(ana.headers).send(deckBody([{ ...cards[0], prompt_md: "<script>x</script>" }]));
+    assert.strictEqual(empty.status, 400);
+  });
+
+  it("should return prompt_html with html=1 and sanitize decks stored before", async () => {
+    const ana = await login();
+    const deck = await store.upsertDeck(ana.user.id, deckBody([{ type: "TRUE_FALSE", prompt_md: "**Sim?**", data_json: { correct: true } }]));
+    // deck gravado por um build antigo (sem sanitização)
+    await store.updateUser(ana.user.id, (u) => {
+      u.decks[0].cards[0].hint = "<script>alert(1)</script>pista";
+    });
+
+    const plain = await request(app).get(`/decks/${deck.id}`);
+    assert.strictEqual(plain.body.deck.cards[0].prompt_html, undefined);
+    assert.strictEqual(plain.body.deck.cards[0].hint, "pista");
+
+    const html = await request(app).get(`/decks/${deck.id}?html=1`);
+    assert.strictEqual(html.body.deck.cards[0].prompt_html, "<p><strong>Sim?</strong></p>");
+    assert.strictEqual(html.body.deck.cards[0].hint_html, "<p>pista</p>");
+
+    const queue = await request(app).get(`/solo/queue?deckId=${deck.id}&html=1`).set(ana.headers);
+    assert.strictEqual(queue.status, 200);
+    assert.strictEqual(queue.body.items[0].card.prompt_html, "<p><strong>Sim?</strong></p>");
+    assert.strictEqual(queue.body.items[0].card.hint, "pista");
+  });
+});
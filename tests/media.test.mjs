@@ -0,0 +1,182 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import express from "express";
+
+process.env.NODE_ENV = "test";
+process.env.STORAGE_DRIVER = "memory"; // não toca no data/ real
+
+let app;
+let store;
+let config;
+
+const PNG_SIG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const png = (seed) => Buffer.concat([Buffer.from(PNG_SIG), Buffer.from(`IHDR-${seed}-${Math.random()}`)]);
+const mp3 = () => Buffer.concat([Buffer.from("ID3"), Buffer.from([4, 0, 0, 0, 0, 0, 0, 0, 0, 0]), Buffer.from(String(Math.random()))]);
+
+before(async () => {
+  store = await import("../src/lib/store.ts");
+  config = (await import("../src/config.ts")).default;
+  const { decksRouter } = await import("../src/routes/decks.ts");
+  const { mediaRouter } = await import("../src/routes/media.ts");
+  app = express();
+  app.use(express.json());
+  app.use("/decks", decksRouter);
+  app.use("/media", mediaRouter);
+});
+
+async function login() {
+  const user = await store.createUser(`media_${Math.random().toString(36).slice(2, 8)}`);
+  const secret = await store.addDeviceSecret(user.id);
+  return { user, headers: { "x-user-id": user.id, "x-device-secret": secret } };
+}
+
+const upload = (u, data, type = "image/png", qs = "") =>
+  request(app).post(`/media${qs}`).set(u.headers).set("content-type", type).send(data);
+
+const mcq = (media) => ({
+  type: "MCQ_SINGLE",
+  prompt_md: "Que bandeira é esta?",
+  media: { image: media.image },
+  data_json: {
+    options: [
+      { text: "Portugal", correct: true, media: { audio: media.audio } },
+      { text: "Espanha", correct: false },
+    ],
+  },
+});
+
+describe("media uploads", () => {
+  it("should detect the type from the bytes and dedup by content hash", async () => {
+    const ana = await login();
+    const data = png("a");
+    const first = await upload(ana, data, "image/png", "?name=bandeira.png");
+    assert.strictEqual(first.status, 201, JSON.stringify(first.body));
+    assert.match(first.body.media.id, /^[a-f0-9]{64}$/);
+    assert.deepStrictEqual(
+      { mime: first.body.media.mime, size: first.body.media.size, name: first.body.media.name },
+      { mime: "image/png", size: data.length, name: "bandeira.png" }
+    );
+
+    const again = await upload(ana, data, "application/octet-stream");
+    assert.strictEqual(again.status, 200);
+    assert.strictEqual(again.body.media.id, first.body.media.id);
+
+    assert.strictEqual((await upload(ana, Buffer.from("<svg onload=alert(1)></svg> padding"), "image/svg+xml")).status, 415);
+    assert.strictEqual((await upload(ana, png("b"), "image/gif")).body.error, "MEDIA_TYPE_MISMATCH");
+    const big = Buffer.concat([Buffer.from(PNG_SIG), Buffer.alloc(config.media.maxBytes)]);
+    assert.strictEqual((await upload(ana, big)).status, 413);
+    assert.strictEqual((await request(app).post("/media").set("content-type", "image/png").send(data)).status, 401);
+
+    const list = await request(app).get("/media").set(ana.headers);
+    assert.deepStrictEqual(list.body.media.map((m) => m.id), [first.body.media.id]);
+    assert.strictEqual(list.body.usedBytes, data.length);
+  });
+
+  it("should only accept media of the deck owner on cards and serve it with the deck's visibility", async () => {
+    const ana = await login();
+    const rui = await login();
+    const image = (await upload(ana, png("c"))).body.media.id;
+    const audio = (await upload(ana, mp3(), "audio/mpeg")).body.media.id;
+    const ruiImage = (await upload(rui, png("d"))).body.media.id;
+
+    const mk = (u, visibility, card) =>
+      request(app).post("/decks/upsert").set(u.headers).send({ title: "Bandeiras", topic: { theme: "IT" }, visibility, cards: [card] });
+    const foreign = await mk(ana, "PRIVATE", mcq({ image: ruiImage, audio }));
+    assert.strictEqual(foreign.status, 400);
+    assert.strictEqual(foreign.body.error, "UNKNOWN_MEDIA");
+
+    const created = await mk(ana, "PRIVATE", mcq({ image, audio }));
+    assert.strictEqual(created.status, 201, JSON.stringify(created.body));
+    const deck = created.body.deck;
+    assert.strictEqual(deck.cards[0].media.image, image);
+
+    const url = (id) => `/decks/${deck.id}/media/${id}`;
+    assert.strictEqual((await request(app).get(url(image))).status, 403);
+    assert.strictEqual((await request(app).get(url(image)).set(rui.headers)).status, 403);
+    const own = await request(app).get(url(audio)).set(ana.headers);
+    assert.strictEqual(own.status, 200);
+    assert.match(own.headers["content-type"], /^audio\/mpeg/);
+    assert.match(own.headers["cache-control"], /^private/);
+
+    const { token } = (await request(app).post(`/decks/${deck.id}/shares`).set(ana.headers).send({})).body;
+    const shared = await request(app).get(`${url(image)}?share=${token}`).buffer(true).parse((res, cb) => {
+      const chunks = [];
+      res.on("data", (c) => chunks.push(c));
+      res.on("end", () => cb(null, Buffer.concat(chunks)));
+    });
+    assert.strictEqual(shared.status, 200);
+    assert.strictEqual(shared.headers["content-type"], "image/png");
+    assert.deepStrictEqual((await store.readMedia(ana.user.id, image)).data, shared.body);
+    const cached = await request(app).get(`${url(image)}?share=${token}`).set("if-none-match", `"${image}"`);
+    assert.strictEqual(cached.status, 304);
+
+    // media do dono que este deck não usa não sai por este deck
+    const other = (await upload(ana, png("e"))).body.media.id;
+    assert.strictEqual((await request(app).get(url(other)).set(ana.headers)).status, 404);
+  });
+
+  it("should copy media into forks", async () => {
+    const ana = await login();
+    const rui = await login();
+    const image = (await upload(ana, png("f"))).body.media.id;
+    const deck = await store.upsertDeck(ana.user.id, {
+      title: "Público",
+      topic: { theme: "IT" },
+      visibility: "PUBLIC",
+      cards: [{ type: "TRUE_FALSE", prompt_md: "Logo?", media: { image }, data_json: { correct: true } }],
+    });
+    const fork = await request(app).post(`/decks/${deck.id}/fork`).set(rui.headers).send({});
+    assert.strictEqual(fork.status, 201);
+    assert.ok((await store.listMedia(rui.user.id)).media.some((m) => m.id === image));
+    const res = await request(app).get(`/decks/${fork.body.deck.id}/media/${image}`).set(rui.headers);
+    assert.strictEqual(res.status, 200);
+  });
+
+  it("should refuse to delete media in use and garbage-collect unreferenced media", async () => {
+    const ana = await login();
+    const used = (await upload(ana, png("g"))).body.media.id;
+    const unused = (await upload(ana, png("h"))).body.media.id;
+    const dropped = (await upload(ana, png("i"))).body.media.id;
+    const deck = await store.upsertDeck(ana.user.id, {
+      title: "GC",
+      topic: { theme: "IT" },
+      visibility: "PRIVATE",
+      cards: [
+        { type: "TRUE_FALSE", prompt_md: "A", media: { image: used }, data_json: { correct: true } },
+        { type: "TRUE_FALSE", prompt_md: "B", media: { image: dropped }, data_json: { correct: true } },
+      ],
+    });
+    const del = await request(app).delete(`/media/${used}`).set(ana.headers);
+    assert.strictEqual(del.status, 409);
+    assert.strictEqual(del.body.error, "MEDIA_IN_USE");
+
+    // `dropped` deixa de estar no deck mas continua no histórico de revisões
+    await store.upsertDeck(ana.user.id, {
+      id: deck.id,
+      title: "GC",
+      topic: { theme: "IT" },
+      visibility: "PRIVATE",
+      cards: [{ id: deck.cards[0].id, type: "TRUE_FALSE", prompt_md: "A", media: { image: used }, data_json: { correct: true } }],
+    });
+
+    const grace = config.media.gcGraceMin;
+    assert.deepStrictEqual((await store.collectMediaGarbage({ userId: ana.user.id })).removed, []); // período de graça
+    config.media.gcGraceMin = 0;
+    try {
+      const dry = await store.collectMediaGarbage({ userId: ana.user.id, dryRun: true });
+      assert.deepStrictEqual(dry.removed.map((r) => r.id), [unused]);
+      assert.strictEqual((await store.listMedia(ana.user.id)).media.length, 3);
+
+      await store.updateUser(ana.user.id, (u) => {
+        u.deckRevisions[deck.id] = u.deckRevisions[deck.id].filter((r) => r.rev === 2);
+      });
+      const report = await store.collectMediaGarbage({ userId: ana.user.id });
+      assert.deepStrictEqual(report.removed.map((r) => r.id).sort(), [unused, dropped].sort());
+    } finally {
+      config.media.gcGraceMin = grace;
+    }
+    assert.deepStrictEqual((await store.listMedia(ana.user.id)).media.map((m) => m.id), [used]);
+    assert.strictEqual(await store.readMedia(ana.user.id, unused), null);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+
+process.env.NODE_ENV = "test";
+process.env.STORAGE_DRIVER = "memory";
+
+let migrations;
+let store;
+let storage;
+
+before(async () => {
+  migrations = await import("../src/lib/migrations.ts");
+  store = await import("../src/lib/store.ts");
+  storage = await import("../src/lib/storage.ts");
+});
+
+// ficheiro escrito por um build antigo: sem schemaVersion, prefs.solo nem campos de email
+function legacyDoc(id) {
+  return {
+    id,
+    username: `legacy_${id}`,
+    createdAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-01-01T00:00:00.000Z",
+    profile: { privacy: "PUBLIC" },
+    prefs: { language: "pt-PT", theme: "system" },
+    wallet: { balance: 3, transactions: [] },
+    decks: [{ id: "d1", title: "Old", topic: { theme: "IT" }, visibility: "PUBLIC", cards: [{ type: "TEXT", prompt_md: "?" }] }],
+    progress: {},
+    auth: { deviceSecrets: ["s1"], verifyToken: null },
+  };
+}
+
+describe("user schema migrations", () => {
+  it("should upgrade a legacy document to the current version", () => {
+    const { user, fromVersion, changed } = migrations.migrateUserDoc(legacyDoc("a1"), "a1");
+    assert.strictEqual(fromVersion, 0);
+    assert.strictEqual(changed, true);
+    assert.strictEqual(user.schemaVersion, migrations.CURRENT_SCHEMA_VERSION);
+    assert.strictEqual(user.prefs.solo.intervals.EASY, 86400);
+    assert.ok(!("emailVerified" in user.auth));
+    assert.ok(!("verifyToken" in user.auth));
+    assert.strictEqual(user.auth.legacyCredentials, undefined);
+    assert.deepStrictEqual(user.friends, { accepted: [], pending: [] });
+    assert.strictEqual(typeof user.decks[0].cards[0].id, "string");
+  });
+
+  it("should move legacy credentials out of auth", () => {
+    const raw = legacyDoc("c1");
+    raw.auth = { deviceSecrets: [], email: "c1@example.com", passwordHash: "$2b$10$x", emailVerified: true };
+    const { user } = migrations.migrateUserDoc(raw, "c1");
+    assert.deepStrictEqual(Object.keys(user.auth).sort(), ["deviceSecrets", "legacyCredentials"]);
+    assert.deepStrictEqual(user.auth.legacyCredentials, {
+      email: "c1@example.com",
+      passwordHash: "$2b$10$x",
+      emailVerified: true,
+    });
+  });
+
+  it("should give duplicated card ids a fresh id", () => {
+    const raw = legacyDoc("dup1");
+    raw.decks.push({ id: "d2", title: "Copy", topic: { theme: "IT" }, visibility: "PRIVATE", cards: [{ id: "c1", type: "TEXT", prompt_md: "?" }] });
+    raw.decks[0].cards[0].id = "c1";
+    const { user } = migrations.migrateUserDoc(raw, "dup1");
+    assert.strictEqual(user.decks[0].cards[0].id, "c1");
+    assert.notStrictEqual(user.decks[1].cards[0].id, "c1");
+    assert.deepStrictEqual(user.progressArchive, {});
+  });
+
+  it("should not mutate the input document", () => {
+    const raw = legacyDoc("a2");
+    migrations.migrateUserDoc(raw, "a2");
+    assert.strictEqual(raw.prefs.solo, undefined);
+  });
+
+  it("should reject documents it cannot repair", () => {
+    const raw = legacyDoc("a3");
+    raw.decks[0].visibility = "SOMETIMES";
+    assert.throws(() => migrations.migrateUserDoc(raw, "a3"), (e) => {
+      assert.ok(e instanceof migrations.UserMigrationError);
+      assert.ok(e.issues.some(i => i.startsWith("decks.0.visibility")));
+      return true;
+    });
+  });
+
+  it("should migrate lazily on load and in bulk with a failure report", async () => {
+    const s = storage.getStorage();
+    await s.writeDoc("users", "lazy1", JSON.stringify(legacyDoc("lazy1")));
+    const broken = legacyDoc("bad1");
+    broken.username = 42;
+    await s.writeDoc("users", "bad1", JSON.stringify(broken));
+
+    const loaded = await store.loadUser("lazy1");
+    assert.strictEqual(loaded.prefs.solo.intervals.HARD, 180);
+    // lazy: ainda não gravado
+    assert.strictEqual(JSON.parse(await s.readDoc("users", "lazy1")).schemaVersion, undefined);
+
+    const dry = await store.migrateAllUsers({ dryRun: true });
+    assert.ok(dry.upgraded.some(u => u.userId === "lazy1"));
+    assert.ok(dry.failed.some(f => f.userId === "bad1"));
+    assert.strictEqual(JSON.parse(await s.readDoc("users", "lazy1")).schemaVersion, undefined);
+
+    const real = await store.migrateAllUsers();
+    assert.ok(real.upgraded.some(u => u.userId === "lazy1"));
+    assert.strictEqual(JSON.parse(await s.readDoc("users", "lazy1")).schemaVersion, migrations.CURRENT_SCHEMA_VERSION);
+    assert.strictEqual(await store.loadUser("bad1"), null);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import express from "express";
+
+process.env.NODE_ENV = "test";
+process.env.BCRYPT_COST = process.env.BCRYPT_COST || "10";
+process.env.STORAGE_DRIVER = "memory"; // não toca no data/ real
+
+let app;
+const origLog = console.log;
+
+before(async () => {
+  console.log = () => undefined; // [DEV-MAIL]
+  const { accountsRouter } = await import("../src/routes/accounts.ts");
+  app = express();
+  app.use("/accounts", accountsRouter);
+});
+
+after(() => {
+  console.log = origLog;
+});
+
+describe("Accounts register races", () => {
+  it("should not leave user files behind when concurrent registrations collide", async () => {
+    const { findUserByUsername, listUserIds, loadUser } = await import("../src/lib/store.ts");
+    const rnd = Math.random().toString(36).slice(2, 8);
+    const password = "p@ssword1";
+    const register = (email, username) => request(app).post("/accounts/register").send({ email, username, password });
+
+    // mesmo username, emails diferentes: um deles falha no createUser
+    const sameName = await Promise.all([
+      register(`a.${rnd}@example.com`, `race_${rnd}`),
+      register(`b.${rnd}@example.com`, `race_${rnd}`),
+    ]);
+    assert.deepStrictEqual(sameName.map((r) => r.status).sort(), [201, 409]);
+    assert.strictEqual(sameName.find((r) => r.status === 409).body.error, "USERNAME_TAKEN");
+    const users = await Promise.all((await listUserIds()).map(loadUser));
+    assert.strictEqual(users.filter((u) => u?.username === `race_${rnd}`).length, 1);
+
+    // mesmo email, usernames diferentes: o perdedor chega a criar o user.json, que é apagado
+    const sameEmail = await Promise.all([
+      register(`same.${rnd}@example.com`, `first_${rnd}`),
+      register(`same.${rnd}@example.com`, `second_${rnd}`),
+    ]);
+    assert.deepStrictEqual(sameEmail.map((r) => r.status).sort(), [201, 409]);
+    const loser = sameEmail.find((r) => r.status === 409);
+    assert.ok(["EMAIL_TAKEN", "ACCOUNT_CONFLICT"].includes(loser.body.error));
+    const created = await Promise.all([findUserByUsername(`first_${rnd}`), findUserByUsername(`second_${rnd}`)]);
+    assert.strictEqual(created.filter(Boolean).length, 1);
+  });
+});
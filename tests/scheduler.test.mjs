@@ -0,0 +1,115 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import express from "express";
+
+process.env.NODE_ENV = "test";
+process.env.STORAGE_DRIVER = "memory"; // não toca no data/ real
+
+let app;
+let store;
+let scheduler;
+
+before(async () => {
+  store = await import("../src/lib/store.ts");
+  scheduler = await import("../src/lib/scheduler.ts");
+  const { soloRouter } = await import("../src/routes/solo.ts");
+  app = express();
+  app.use(express.json());
+  app.use("/solo", soloRouter);
+});
+
+const intervals = { VERY_HARD: 30, HARD: 180, MEDIUM: 3600, EASY: 86400 };
+const DAY = 86400;
+
+/** Responde em sequência, cada resposta no dia em que o card fica vencido. */
+function run(kind, steps) {
+  const prefs = { scheduler: kind, intervals };
+  let progress;
+  let now = new Date("2026-01-01T09:00:00Z");
+  return steps.map(([rating, correct = true]) => {
+    const r = scheduler.scheduleReview(prefs, progress, { rating, correct, now });
+    progress = { lastAnswerAt: now.toISOString(), srs: r.srs, timesAnswered: 0, timesCorrect: 0 };
+    now = new Date(r.nextReviewAt);
+    return r;
+  });
+}
+
+describe("solo scheduler", () => {
+  it("should keep the manual presets", () => {
+    const [r] = run("manual", [["HARD", false]]);
+    assert.strictEqual(r.intervalSec, 180);
+    assert.strictEqual(r.srs, undefined);
+  });
+
+  it("should grow SM-2 intervals and reset them on a lapse", () => {
+    const rs = run("sm2", [["MEDIUM"], ["MEDIUM"], ["MEDIUM"], ["EASY"], ["MEDIUM", false], ["MEDIUM"]]);
+    assert.deepStrictEqual(rs.map((r) => r.srs.intervalDays), [1, 6, 15, 39, 0, 1]);
+    assert.strictEqual(rs[4].intervalSec, 3600); // reaprendizagem: intervalo manual do rating
+    assert.strictEqual(rs[4].srs.lapses, 1);
+    assert.ok(rs[4].srs.ease < rs[3].srs.ease);
+    assert.ok(rs.every((r) => r.srs.ease >= 1.3));
+  });
+
+  it("should treat a correct VERY_HARD as a failure", () => {
+    assert.strictEqual(scheduler.schedulerGrade("VERY_HARD", true), 1);
+    assert.strictEqual(scheduler.schedulerGrade("EASY", false), 1);
+    assert.strictEqual(scheduler.schedulerGrade("EASY", true), 4);
+  });
+
+  it("should grow FSRS stability with successful reviews and cut it on a lapse", () => {
+    const rs = run("fsrs", [["MEDIUM"], ["MEDIUM"], ["MEDIUM"], ["MEDIUM", false]]);
+    const stability = rs.map((r) => r.srs.stability);
+    assert.ok(stability[0] < stability[1] && stability[1] < stability[2]);
+    assert.ok(stability[3] < stability[2]);
+    assert.strictEqual(rs[2].intervalSec, rs[2].srs.intervalDays * DAY);
+    assert.strictEqual(rs[3].srs.intervalDays, 0);
+
+    const easy = run("fsrs", [["MEDIUM"], ["EASY"]])[1];
+    const hard = run("fsrs", [["MEDIUM"], ["HARD"]])[1];
+    assert.ok(easy.intervalSec > hard.intervalSec);
+    assert.ok(easy.srs.difficulty < hard.srs.difficulty);
+  });
+
+  it("should let the user pick a scheduler, preview each rating and store the state", async () => {
+    const user = await store.createUser(`srs_${Math.random().toString(36).slice(2, 8)}`);
+    const secret = await store.addDeviceSecret(user.id);
+    const headers = { "x-user-id": user.id, "x-device-secret": secret };
+    const deck = await store.upsertDeck(user.id, {
+      title: "SRS",
+      topic: { theme: "IT" },
+      visibility: "PRIVATE",
+      cards: [{ type: "TRUE_FALSE", prompt_md: "2+2=4?", data_json: { correct: true } }],
+    });
+    const cardId = deck.cards[0].id;
+
+    assert.strictEqual((await request(app).get("/solo/prefs").set(headers)).body.solo.scheduler, "manual");
+    assert.strictEqual((await request(app).put("/solo/prefs").set(headers).send({ scheduler: "bogus" })).status, 400);
+    const put = await request(app).put("/solo/prefs").set(headers).send({ scheduler: "sm2", intervals: { MEDIUM: 600 } });
+    assert.strictEqual(put.status, 200);
+    assert.deepStrictEqual(put.body.solo, {
+      scheduler: "sm2",
+      intervals: { ...intervals, MEDIUM: 600 },
+      daily: { newCards: 20, reviews: 200 },
+    });
+
+    const preview = await request(app).get(`/solo/preview?deckId=${deck.id}&cardId=${cardId}`).set(headers);
+    assert.strictEqual(preview.status, 200);
+    assert.strictEqual(preview.body.scheduler, "sm2");
+    assert.strictEqual(preview.body.ratings.MEDIUM.correct.intervalSec, DAY);
+    assert.strictEqual(preview.body.ratings.MEDIUM.incorrect.intervalSec, 600);
+    assert.strictEqual((await request(app).get(`/solo/preview?deckId=${deck.id}&cardId=nope`).set(headers)).status, 404);
+
+    const answer = await request(app)
+      .post("/solo/answer")
+      .set(headers)
+      .send({ deckId: deck.id, cardId, rating: "MEDIUM", answer: { answer: true } });
+    assert.strictEqual(answer.status, 200);
+    assert.deepStrictEqual(answer.body.progress.srs, { reps: 1, lapses: 0, intervalDays: 1, ease: 2.5 });
+    assert.strictEqual(
+      Date.parse(answer.body.nextReviewAt) - Date.parse(answer.body.progress.lastAnswerAt),
+      DAY * 1000
+    );
+    assert.strictEqual((await store.loadUser(user.id)).progress[cardId].srs.reps, 1);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import express from "express";
+
+process.env.NODE_ENV = "test";
+process.env.STORAGE_DRIVER = "memory"; // não toca no data/ real
+
+let app;
+let store;
+const decks = {};
+const users = {};
+
+const tf = (prompt) => ({ type: "TRUE_FALSE", prompt_md: prompt, data_json: { correct: true } });
+const text = (prompt) => ({ type: "TEXT", prompt_md: prompt, data_json: { accepted: ["x"] } });
+
+async function login(name) {
+  const user = await store.createUser(`${name}_${Math.random().toString(36).slice(2, 6)}`);
+  const secret = await store.addDeviceSecret(user.id);
+  return { user, headers: { "x-user-id": user.id, "x-device-secret": secret } };
+}
+
+before(async () => {
+  store = await import("../src/lib/store.ts");
+  const { decksRouter } = await import("../src/routes/decks.ts");
+  app = express();
+  app.use(express.json());
+  app.use("/decks", decksRouter);
+
+  users.ana = await login("ana");
+  users.rui = await login("rui");
+  users.eva = await login("eva");
+  const mk = (u, title, topic, cards, extra = {}) =>
+    store.upsertDeck(u.user.id, { title, topic, visibility: "PUBLIC", tags: [], cards, ...extra });
+
+  decks.tcp = await mk(users.ana, "Protocolos TCP", { theme: "IT", subtheme: "Redes" }, [tf("Handshake em três vias?"), text("Porta HTTP")], { tags: ["redes"] });
+  decks.crypto = await mk(users.ana, "Criptografia", { theme: "IT", subtheme: "Cibersegurança" }, [text("Algoritmo simétrico?")]);
+  decks.hist = await mk(users.rui, "Descobrimentos", { theme: "História" }, [tf("1498: Índia?"), tf("Cabral 1500?")]);
+  decks.priv = await store.upsertDeck(users.rui.user.id, { title: "Privado TCP", topic: { theme: "IT" }, visibility: "PRIVATE", cards: [tf("x")] });
+});
+
+async function search(qs) {
+  const res = await request(app).get(`/decks/search?${qs}`);
+  assert.strictEqual(res.status, 200, JSON.stringify(res.body));
+  return res.body;
+}
+
+describe("GET /decks/search", () => {
+  it("should match title, tags and prompts without accents and return summaries", async () => {
+    const byPrompt = await search("q=tres%20vias");
+    assert.deepStrictEqual(byPrompt.items.map(d => d.id), [decks.tcp.id]);
+    const s = byPrompt.items[0];
+    assert.strictEqual(s.cards, undefined);
+    assert.deepStrictEqual(
+      { cardCount: s.cardCount, types: s.types, battleCardCount: s.battleCardCount, battleEligible: s.battleEligible },
+      { cardCount: 2, types: { TRUE_FALSE: 1, TEXT: 1 }, battleCardCount: 1, battleEligible: true }
+    );
+    assert.deepStrictEqual((await search("q=REDES")).items.map(d => d.id), [decks.tcp.id]);
+    assert.deepStrictEqual((await search("q=tcp")).items.map(d => d.id), [decks.tcp.id]); // sem o privado
+  });
+
+  it("should filter by topic, owner, card types and battle eligibility", async () => {
+    const ids = async (qs) => (await search(qs)).items.map(d => d.id).sort();
+    assert.deepStrictEqual(await ids("theme=it&subtheme=ciberseguranca"), [decks.crypto.id]);
+    assert.deepStrictEqual(await ids("theme=historia"), [decks.hist.id]);
+    assert.deepStrictEqual(await ids(`owner=${users.ana.user.username.toUpperCase()}`), [decks.tcp.id, decks.crypto.id].sort());
+    assert.deepStrictEqual(await ids(`owner=${users.rui.user.id}`), [decks.hist.id]);
+    assert.deepStrictEqual(await ids("types=text"), [decks.tcp.id, decks.crypto.id].sort());
+    assert.deepStrictEqual(await ids("battle=0"), [decks.crypto.id]);
+    assert.strictEqual((await request(app).get("/decks/search?types=PDF")).status, 400);
+  });
+
+  it("should sort by plays and rating", async () => {
+    await store.updateUser(users.eva.user.id, (u) => {
+      u.progress[decks.hist.cards[0].id] = { timesAnswered: 4, timesCorrect: 2 };
+      u.progress[decks.crypto.cards[0].id] = { timesAnswered: 1, timesCorrect: 1 };
+    });
+    await store.updateUser(users.ana.user.id, (u) => {
+      u.progress[decks.hist.cards[1].id] = { timesAnswered: 1, timesCorrect: 0 };
+    });
+
+    const plays = await search("sort=plays");
+    assert.deepStrictEqual(plays.items.map(d => d.id).slice(0, 2), [decks.hist.id, decks.crypto.id]);
+    assert.deepStrictEqual(plays.items[0].stats, { answers: 5, players: 2, ratingAvg: null, ratingCount: 0 });
+
+    const rate = (u, deck, stars) => request(app).put(`/decks/${deck.id}/rating`).set(u.headers).send({ stars });
+    assert.strictEqual((await rate(users.eva, decks.tcp, 5)).status, 200);
+    const second = await rate(users.rui, decks.tcp, 4);
+    assert.deepStrictEqual(second.body.stats, { answers: 0, players: 0, ratingAvg: 4.5, ratingCount: 2 });
+    assert.strictEqual((await rate(users.eva, decks.crypto, 3)).status, 200);
+    assert.strictEqual((await rate(users.ana, decks.tcp, 5)).status, 403); // o próprio
+    assert.strictEqual((await rate(users.ana, decks.priv, 5)).status, 403);
+    assert.strictEqual((await rate(users.ana, decks.hist, 9)).status, 400);
+
+    assert.deepStrictEqual((await search("sort=rating")).items.map(d => d.id).slice(0, 2), [decks.tcp.id, decks.crypto.id]);
+
+    const del = await request(app).delete(`/decks/${decks.crypto.id}/rating`).set(users.eva.headers);
+    assert.strictEqual(del.status, 200);
+    const after = (await search("sort=rating")).items.find(d => d.id === decks.crypto.id);
+    assert.strictEqual(after.stats.ratingCount, 0);
+  });
+
+  it("should paginate with a cursor without repeating items", async () => {
+    const seen = [];
+    let cursor = null;
+    do {
+      const page = await search(`sort=newest&limit=2${cursor ? `&cursor=${cursor}` : ""}`);
+      assert.strictEqual(page.total, 3);
+      seen.push(...page.items.map(d => d.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+    // criados no mesmo ms desempatam pelo id: comparar com a lista completa
+    assert.deepStrictEqual(seen, (await search("sort=newest&limit=100")).items.map(d => d.id));
+    assert.strictEqual(new Set(seen).size, 3);
+
+    const first = await search("sort=newest&limit=1");
+    const wrong = await request(app).get(`/decks/search?sort=plays&cursor=${first.nextCursor}`);
+    assert.strictEqual(wrong.status, 400);
+    assert.strictEqual(wrong.body.error, "INVALID_CURSOR");
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import express from "express";
+
+process.env.NODE_ENV = "test";
+process.env.STORAGE_DRIVER = "memory"; // não toca no data/ real
+
+let app;
+let store;
+
+before(async () => {
+  store = await import("../src/lib/store.ts");
+  const { decksRouter } = await import("../src/routes/decks.ts");
+  const { soloRouter } = await import("../src/routes/solo.ts");
+  app = express();
+  app.use(express.json());
+  app.use("/decks", decksRouter);
+  app.use("/solo", soloRouter);
+});
+
+const tf = (prompt) => ({ type: "TRUE_FALSE", prompt_md: prompt, data_json: { correct: true } });
+
+async function login(visibility = "PRIVATE") {
+  const user = await store.createUser(`share_${Math.random().toString(36).slice(2, 8)}`);
+  const secret = await store.addDeviceSecret(user.id);
+  const headers = { "x-user-id": user.id, "x-device-secret": secret };
+  const deck = await store.upsertDeck(user.id, { title: "Segredo", topic: { theme: "IT" }, visibility, cards: [tf("A")] });
+  return { user, headers, deck };
+}
+
+describe("deck access", () => {
+  it("should require real credentials to read a private deck", async () => {
+    const { user, headers, deck } = await login();
+    assert.strictEqual((await request(app).get(`/decks/${deck.id}`)).status, 403);
+    assert.strictEqual((await request(app).get(`/decks/${deck.id}`).set("x-user-id", user.id)).status, 403);
+    const bad = await request(app).get(`/decks/${deck.id}`).set({ ...headers, "x-device-secret": "nope" });
+    assert.strictEqual(bad.status, 401);
+    const own = await request(app).get(`/decks/${deck.id}`).set(headers);
+    assert.strictEqual(own.status, 200);
+    assert.strictEqual(own.body.access, "owner");
+  });
+
+  it("should serve unlisted decks by id but keep them out of the catalog", async () => {
+    const { deck } = await login("UNLISTED");
+    const res = await request(app).get(`/decks/${deck.id}`);
+    assert.strictEqual(res.status, 200);
+    assert.strictEqual(res.body.access, "read");
+    const pub = await request(app).get("/decks/public");
+    assert.ok(!pub.body.decks.some((d) => d.deck.id === deck.id));
+    const search = await request(app).get("/decks/search?q=segredo");
+    assert.ok(!search.body.items.some((d) => d.id === deck.id));
+  });
+
+  it("should grant read/study access through revocable share links", async () => {
+    const owner = await login();
+    const friend = await login();
+    const { deck } = owner;
+
+    const created = await request(app).post(`/decks/${deck.id}/shares`).set(owner.headers).send({ label: "turma" });
+    assert.strictEqual(created.status, 201);
+    const { token, share } = created.body;
+    assert.strictEqual(created.body.path, `/decks/${deck.id}?share=${token}`);
+    assert.strictEqual((await request(app).post(`/decks/${deck.id}/shares`).set(friend.headers).send({})).status, 404);
+
+    const viaLink = await request(app).get(`/decks/${deck.id}?share=${token}`);
+    assert.strictEqual(viaLink.status, 200);
+    assert.strictEqual(viaLink.body.deck.shares, undefined);
+    assert.strictEqual((await request(app).get(`/decks/${deck.id}?share=wrong`)).status, 403);
+    assert.strictEqual((await request(app).get(`/decks/${deck.id}/export?format=csv&share=${token}`)).status, 200);
+
+    assert.strictEqual((await request(app).get(`/solo/queue?deckId=${deck.id}`).set(friend.headers)).status, 403);
+    const queue = await request(app).get(`/solo/queue?deckId=${deck.id}&share=${token}`).set(friend.headers);
+    assert.strictEqual(queue.status, 200);
+    assert.strictEqual(queue.body.items.length, 1);
+
+    const hidden = await request(app).get(`/solo/progress?deckId=${deck.id}`).set(friend.headers);
+    assert.strictEqual(hidden.status, 404);
+    assert.strictEqual(hidden.body.items, undefined);
+    const progress = await request(app).get(`/solo/progress?deckId=${deck.id}&share=${token}`).set(friend.headers);
+    assert.strictEqual(progress.status, 200);
+    assert.strictEqual(progress.body.items[0].title, "A");
+
+    const list = await request(app).get(`/decks/${deck.id}/shares`).set(owner.headers);
+    assert.deepStrictEqual(list.body.shares, [share]);
+    assert.strictEqual(list.body.shares[0].tokenHash, undefined);
+    const raw = JSON.stringify(await store.loadUser(owner.user.id));
+    assert.ok(!raw.includes(token)); // só o hash fica no ficheiro
+
+    assert.strictEqual((await request(app).delete(`/decks/${deck.id}/shares/${share.id}`).set(owner.headers)).status, 200);
+    assert.strictEqual((await request(app).get(`/decks/${deck.id}?share=${token}`)).status, 403);
+    assert.strictEqual((await request(app).delete(`/decks/${deck.id}/shares/${share.id}`).set(owner.headers)).status, 404);
+  });
+
+  it("should not let share links fork a private deck", async () => {
+    const owner = await login();
+    const friend = await login();
+    const { token } = (await request(app).post(`/decks/${owner.deck.id}/shares`).set(owner.headers).send({})).body;
+    const fork = await request(app).post(`/decks/${owner.deck.id}/fork?share=${token}`).set(friend.headers).send({});
+    assert.strictEqual(fork.status, 403);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import os from "os";
+import fs from "fs";
+
+process.env.NODE_ENV = "test";
+
+let JsonDirStorage;
+let MemoryStorage;
+
+before(async () => {
+  ({ JsonDirStorage, MemoryStorage } = await import("../src/lib/storage.ts"));
+});
+
+function adapters() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mindzapp-storage-"));
+  return [
+    ["json", new JsonDirStorage(dir), dir],
+    ["memory", new MemoryStorage(), null],
+  ];
+}
+
+describe("StorageAdapter implementations", () => {
+  it("should read, write, list and delete documents", async () => {
+    for (const [name, s] of adapters()) {
+      assert.strictEqual(await s.readDoc("users", "u1"), null, name);
+      assert.deepStrictEqual(await s.listDocs("users"), [], name);
+
+      await s.writeDoc("users", "u1", JSON.stringify({ id: "u1" }));
+      await s.writeDoc("", "accounts", JSON.stringify({ version: 1, accounts: [] }));
+
+      assert.deepStrictEqual(JSON.parse(await s.readDoc("users", "u1")), { id: "u1" }, name);
+      assert.deepStrictEqual(await s.listDocs("users"), ["u1"], name);
+      assert.ok(await s.readDoc("", "accounts"), name);
+
+      assert.strictEqual(await s.deleteDoc("users", "u1"), true, name);
+      assert.strictEqual(await s.deleteDoc("users", "u1"), false, name);
+      assert.strictEqual(await s.readDoc("users", "u1"), null, name);
+    }
+  });
+
+  it("should quarantine documents out of the collection", async () => {
+    for (const [name, s, dir] of adapters()) {
+      await s.writeDoc("", "accounts", "{not json");
+      await s.quarantineDoc("", "accounts");
+      assert.strictEqual(await s.readDoc("", "accounts"), null, name);
+      if (dir) {
+        assert.ok(fs.readdirSync(dir).some(f => f.startsWith("accounts.json.corrupt-")), name);
+      }
+    }
+  });
+
+  it("should keep the JSON layout of data/", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mindzapp-storage-"));
+    const s = new JsonDirStorage(dir);
+    await s.writeDoc("users", "abc", "{}");
+    await s.writeDoc("", "accounts", "{}");
+    assert.ok(fs.existsSync(path.join(dir, "users", "abc.json")));
+    assert.ok(fs.existsSync(path.join(dir, "accounts.json")));
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+
+process.env.NODE_ENV = "test";
+process.env.STORAGE_DRIVER = "memory"; // não toca no data/ real
+
+let store;
+let storage;
+
+before(async () => {
+  store = await import("../src/lib/store.ts");
+  storage = await import("../src/lib/storage.ts");
+});
+
+function trx(amount) {
+  return { id: Math.random().toString(36).slice(2), ts: new Date().toISOString(), type: "EARN", amount };
+}
+
+describe("store.updateUser", () => {
+  it("should not lose concurrent wallet transactions", async () => {
+    const user = await store.createUser(`conc_${Date.now()}`);
+    await Promise.all(Array.from({ length: 20 }, () => store.appendTransaction(user.id, trx(5))));
+
+    const fresh = await store.loadUser(user.id);
+    assert.strictEqual(fresh.wallet.transactions.length, 20);
+    assert.strictEqual(fresh.wallet.balance, 100);
+  });
+
+  it("should serialize mixed mutations on the same user", async () => {
+    const user = await store.createUser(`mix_${Date.now()}`);
+    await Promise.all([
+      store.appendTransaction(user.id, trx(10)),
+      store.upsertDeck(user.id, { title: "A", topic: { theme: "IT" }, visibility: "PRIVATE", cards: [] }),
+      store.addDeviceSecret(user.id),
+      store.upsertDeck(user.id, { title: "B", topic: { theme: "IT" }, visibility: "PUBLIC", cards: [] }),
+    ]);
+
+    const fresh = await store.loadUser(user.id);
+    assert.strictEqual(fresh.wallet.balance, 10);
+    assert.strictEqual(fresh.decks.length, 2);
+    assert.strictEqual(fresh.auth.deviceSecrets.length, 1);
+  });
+
+  it("should reject a stale saveUser with USER_CONFLICT", async () => {
+    const user = await store.createUser(`stale_${Date.now()}`);
+    const stale = await store.loadUser(user.id);
+    await store.appendTransaction(user.id, trx(7));
+
+    stale.profile.bio = "stale write";
+    await assert.rejects(() => store.saveUser(stale), /USER_CONFLICT/);
+
+    const fresh = await store.loadUser(user.id);
+    assert.strictEqual(fresh.wallet.balance, 7);
+  });
+
+  it("should throw USER_NOT_FOUND for unknown users", async () => {
+    await assert.rejects(() => store.updateUser("nope", () => {}), /USER_NOT_FOUND/);
+  });
+});
+
+describe("store indexes", () => {
+  it("should find users by username and decks by id after writes", async () => {
+    const rnd = Math.random().toString(36).slice(2, 8);
+    const user = await store.createUser(`Idx_${rnd}`);
+    const deck = await store.upsertDeck(user.id, {
+      title: "Indexed",
+      topic: { theme: "IT" },
+      visibility: "PRIVATE",
+      cards: [],
+    });
+
+    assert.strictEqual((await store.findUserByUsername(`idx_${rnd}`))?.id, user.id);
+    assert.strictEqual((await store.findDeck(deck.id))?.owner.id, user.id);
+
+    const publicBefore = await store.listPublicDecks();
+    assert.ok(!publicBefore.some(r => r.deck.id === deck.id));
+
+    await store.upsertDeck(user.id, { ...deck, visibility: "PUBLIC" });
+    const publicAfter = await store.listPublicDecks();
+    assert.ok(publicAfter.some(r => r.deck.id === deck.id && r.owner.userId === user.id));
+
+    await store.deleteDeck(user.id, deck.id);
+    assert.strictEqual(await store.findDeck(deck.id), null);
+    assert.ok(!(await store.listPublicDecks()).some(r => r.deck.id === deck.id));
+  });
+
+  it("should pick up files written before the index was rebuilt", async () => {
+    const rnd = Math.random().toString(36).slice(2, 8);
+    const user = store.defaultUser(`ext_${rnd}`);
+    await storage.getStorage().writeDoc("users", user.id, JSON.stringify(user));
+    assert.strictEqual(await store.findUserByUsername(`ext_${rnd}`), null);
+
+    await store.rebuildIndex();
+    assert.strictEqual((await store.findUserByUsername(`ext_${rnd}`))?.id, user.id);
+  });
+});
+
+describe("store deck upserts", () => {
+  const tf = (prompt) => ({ type: "TRUE_FALSE", prompt_md: prompt, data_json: { answer: true } });
+
+  it("should keep card ids and report a diff", async () => {
+    const user = await store.createUser(`ids_${Date.now()}`);
+    const { deck } = await store.upsertDeckWithDiff(user.id, {
+      title: "Stable",
+      topic: { theme: "IT" },
+      visibility: "PRIVATE",
+      cards: [tf("A"), tf("B"), tf("C")],
+    });
+    const [a, b, c] = deck.cards;
+
+    const { deck: next, diff } = await store.upsertDeckWithDiff(user.id, {
+      ...deck,
+      cards: [{ ...c }, { ...a, prompt_md: "A2" }, tf("D")],
+    });
+
+    assert.deepStrictEqual(next.cards.slice(0, 2).map(x => x.id), [c.id, a.id]);
+    assert.deepStrictEqual(diff.added, [next.cards[2].id]);
+    assert.deepStrictEqual(diff.changed, [a.id]);
+    assert.deepStrictEqual(diff.removed, [b.id]);
+    assert.strictEqual(diff.unchanged, 1);
+  });
+
+  it("should not reuse ids that belong to another deck", async () => {
+    const user = await store.createUser(`steal_${Date.now()}`);
+    const base = { topic: { theme: "IT" }, visibility: "PRIVATE" };
+    const d1 = await store.upsertDeck(user.id, { ...base, title: "One", cards: [tf("A")] });
+    const d2 = await store.upsertDeck(user.id, { ...base, title: "Two", cards: [] });
+
+    const { deck, diff } = await store.upsertDeckWithDiff(user.id, {
+      ...d2,
+      cards: [{ ...d1.cards[0] }, { ...d1.cards[0] }],
+    });
+    assert.ok(deck.cards.every(c => c.id !== d1.cards[0].id));
+    assert.notStrictEqual(deck.cards[0].id, deck.cards[1].id);
+    assert.strictEqual(diff.added.length, 2);
+  });
+
+  it("should archive progress of removed cards only", async () => {
+    const user = await store.createUser(`arch_${Date.now()}`);
+    const deck = await store.upsertDeck(user.id, {
+      title: "Progress",
+      topic: { theme: "IT" },
+      visibility: "PRIVATE",
+      cards: [tf("A"), tf("B")],
+    });
+    const [a, b] = deck.cards;
+    await store.updateUser(user.id, (u) => {
+      u.progress[a.id] = { timesAnswered: 2, timesCorrect: 1 };
+      u.progress[b.id] = { timesAnswered: 3, timesCorrect: 3 };
+    });
+
+    await store.upsertDeck(user.id, { ...deck, title: "Renamed", cards: [{ ...a }] });
+    let fresh = await store.loadUser(user.id);
+    assert.deepStrictEqual(fresh.progress[a.id], { timesAnswered: 2, timesCorrect: 1 });
+    assert.strictEqual(fresh.progress[b.id], undefined);
+    assert.strictEqual(fresh.progressArchive[b.id].deckId, deck.id);
+    assert.strictEqual(fresh.progressArchive[b.id].timesCorrect, 3);
+
+    await store.deleteDeck(user.id, deck.id);
+    fresh = await store.loadUser(user.id);
+    assert.deepStrictEqual(Object.keys(fresh.progress), []);
+    assert.ok(fresh.progressArchive[a.id]);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import express from "express";
+
+process.env.NODE_ENV = "test";
+process.env.STORAGE_DRIVER = "memory"; // não toca no data/ real
+
+let app;
+let store;
+let studyPlan;
+
+before(async () => {
+  store = await import("../src/lib/store.ts");
+  studyPlan = await import("../src/lib/studyPlan.ts");
+  const { soloRouter } = await import("../src/routes/solo.ts");
+  app = express();
+  app.use(express.json());
+  app.use("/solo", soloRouter);
+});
+
+const HOUR = 3600 * 1000;
+const DAY = 24 * HOUR;
+const tf = (prompt_md) => ({ type: "TRUE_FALSE", prompt_md, data_json: { correct: true } });
+
+async function newUser(prefix) {
+  const user = await store.createUser(`${prefix}_${Math.random().toString(36).slice(2, 8)}`);
+  const secret = await store.addDeviceSecret(user.id);
+  return { user, headers: { "x-user-id": user.id, "x-device-secret": secret } };
+}
+
+/** Progress fabricado: última resposta há `intervalMs + overdueMs`, vencido há `overdueMs`. */
+function progressAt(now, intervalMs, overdueMs) {
+  return {
+    timesAnswered: 1,
+    timesCorrect: 1,
+    lastAnswerAt: new Date(now - overdueMs - intervalMs).toISOString(),
+    nextReviewAt: new Date(now - overdueMs).toISOString(),
+  };
+}
+
+describe("solo study plan", () => {
+  it("should order reviews by relative lateness and count today's answers", () => {
+    const now = new Date("2026-03-10T12:00:00Z");
+    const deck = (id, cards) => ({ deck: { id, title: id, topic: { theme: "IT" }, cards }, owner: { userId: "u", username: "u" } });
+    const user = {
+      prefs: { solo: { daily: { newCards: 1, reviews: 5 } } },
+      stats: { today: { day: "2026-03-10", newCards: 0, reviews: 4 } },
+      progress: {
+        a1: progressAt(now.getTime(), 30 * DAY, DAY),  // 1 dia atrasado num intervalo de 30
+        b1: progressAt(now.getTime(), DAY, DAY),       // 1 dia atrasado num intervalo de 1
+        b2: progressAt(now.getTime(), DAY, -HOUR),     // ainda não venceu
+      },
+    };
+    const decks = [deck("A", [{ id: "a1" }, { id: "a2" }]), deck("B", [{ id: "b1" }, { id: "b2" }, { id: "b3" }])];
+
+    const r = studyPlan.buildStudyPlan(user, decks, now);
+    assert.deepStrictEqual(r.plan.reviews, { limit: 5, done: 4, remaining: 1, due: 2 });
+    assert.deepStrictEqual(r.plan.newCards, { limit: 1, done: 0, remaining: 1, available: 2 });
+    assert.deepStrictEqual(r.reviews.map((it) => it.card.id), ["b1"]);
+    assert.strictEqual(r.reviews[0].overdueSec, 86400);
+    assert.deepStrictEqual(r.fresh.map((it) => it.card.id), ["a2"]);
+    assert.deepStrictEqual(r.plan.decks.map((d) => [d.deckId, d.due, d.new]), [["A", 1, 1], ["B", 1, 1]]);
+
+    // num dia novo a contagem recomeça
+    studyPlan.countStudyAnswer(user, false, new Date("2026-03-11T00:00:01Z"));
+    assert.deepStrictEqual(user.stats.today, { day: "2026-03-11", newCards: 0, reviews: 1 });
+  });
+
+  it("should interleave decks round-robin", () => {
+    const items = ["A", "A", "A", "B", "C", "C"].map((deckId, i) => ({ deckId, card: { id: String(i) } }));
+    assert.deepStrictEqual(studyPlan.interleaveByDeck(items).map((it) => it.deckId), ["A", "B", "C", "A", "C", "A"]);
+  });
+
+  it("should serve a global queue across own and public decks within the daily limits", async () => {
+    const { user, headers } = await newUser("plan");
+    const other = await newUser("author");
+    const own = await store.upsertDeck(user.id, {
+      title: "Redes",
+      topic: { theme: "IT" },
+      visibility: "PRIVATE",
+      tags: ["Protocolos"],
+      cards: [tf("TCP?"), tf("UDP?"), tf("IP?")],
+    });
+    const pub = await store.upsertDeck(other.user.id, {
+      title: "Público",
+      topic: { theme: "IT" },
+      visibility: "PUBLIC",
+      cards: [tf("DNS?"), tf("HTTP?")],
+    });
+    const untouched = await store.upsertDeck(other.user.id, {
+      title: "Nunca estudado",
+      topic: { theme: "IT" },
+      visibility: "PUBLIC",
+      cards: [tf("SMTP?")],
+    });
+
+    const now = Date.now();
+    await store.updateUser(user.id, (u) => {
+      u.progress[own.cards[0].id] = progressAt(now, 10 * DAY, DAY);
+      u.progress[pub.cards[0].id] = progressAt(now, DAY, DAY);
+    });
+
+    const put = await request(app).put("/solo/prefs").set(headers).send({ daily: { newCards: 2 } });
+    assert.strictEqual(put.status, 200);
+    assert.deepStrictEqual(put.body.solo.daily, { newCards: 2, reviews: 200 });
+    assert.strictEqual((await request(app).put("/solo/prefs").set(headers).send({ daily: { newCards: -1 } })).status, 400);
+
+    const queue = await request(app).get("/solo/queue?html=1").set(headers);
+    assert.strictEqual(queue.status, 200, JSON.stringify(queue.body));
+    assert.deepStrictEqual(
+      queue.body.items.map((it) => [it.kind, it.card.id]),
+      [["review", pub.cards[0].id], ["review", own.cards[0].id], ["new", own.cards[1].id], ["new", own.cards[2].id]]
+    );
+    assert.ok(queue.body.items[0].card.prompt_html);
+    assert.strictEqual(queue.body.items[0].deckTitle, "Público");
+    assert.ok(!queue.body.plan.decks.some((d) => d.deckId === untouched.id));
+    assert.deepStrictEqual(queue.body.plan.newCards, { limit: 2, done: 0, remaining: 2, available: 3 });
+
+    const interleaved = await request(app).get("/solo/queue?interleave=1").set(headers);
+    assert.deepStrictEqual(
+      interleaved.body.items.filter((it) => it.kind === "new").map((it) => it.deckId),
+      [own.id, pub.id]
+    );
+
+    const tagged = await request(app).get("/solo/queue?tags=protocolos").set(headers);
+    assert.ok(tagged.body.items.every((it) => it.deckId === own.id));
+    assert.strictEqual((await request(app).get("/solo/queue?theme=Biologia").set(headers)).body.items.length, 0);
+    assert.strictEqual((await request(app).get("/solo/queue?limit=0").set(headers)).status, 400);
+
+    // responder a um card novo gasta o limite de novos do dia
+    const answer = await request(app)
+      .post("/solo/answer")
+      .set(headers)
+      .send({ deckId: own.id, cardId: own.cards[1].id, rating: "EASY", answer: { answer: true } });
+    assert.strictEqual(answer.status, 200);
+    assert.strictEqual(answer.body.stats.today.newCards, 1);
+
+    const plan = await request(app).get("/solo/plan").set(headers);
+    assert.strictEqual(plan.status, 200);
+    assert.deepStrictEqual(plan.body.plan.newCards, { limit: 2, done: 1, remaining: 1, available: 2 });
+    assert.deepStrictEqual(plan.body.plan.reviews, { limit: 200, done: 0, remaining: 2, due: 2 });
+  });
+});
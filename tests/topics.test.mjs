@@ -0,0 +1,165 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import express from "express";
+
+process.env.NODE_ENV = "test";
+process.env.STORAGE_DRIVER = "memory"; // não toca no data/ real
+
+let app;
+let store;
+let topics;
+let admin;
+let ana;
+
+const tf = (prompt) => ({ type: "TRUE_FALSE", prompt_md: prompt, data_json: { correct: true } });
+
+async function login(name) {
+  const user = await store.createUser(`${name}_${Math.random().toString(36).slice(2, 6)}`);
+  const secret = await store.addDeviceSecret(user.id);
+  return { user, headers: { "x-user-id": user.id, "x-device-secret": secret } };
+}
+
+before(async () => {
+  store = await import("../src/lib/store.ts");
+  topics = await import("../src/lib/topics.ts");
+  const { default: config } = await import("../src/config.ts");
+  const { decksRouter } = await import("../src/routes/decks.ts");
+  const { topicsRouter } = await import("../src/routes/topics.ts");
+  const { adminRouter } = await import("../src/routes/admin.ts");
+  app = express();
+  app.use(express.json());
+  app.use("/decks", decksRouter);
+  app.use("/topics", topicsRouter);
+  app.use("/admin", adminRouter);
+
+  admin = await login("admin");
+  ana = await login("ana");
+  config.admin.userIds.push(admin.user.id);
+});
+
+const upsert = (topic, extra = {}) =>
+  request(app)
+    .post("/decks/upsert")
+    .set(ana.headers)
+    .send({ title: "Deck", topic, visibility: "PUBLIC", cards: [tf("x")], ...extra });
+
+describe("topic registry", () => {
+  it("should normalize aliases, case and accents on upsert and reject unknown topics", async () => {
+    const res = await upsert({ theme: "informatica", subtheme: "ciberseguranca", subsubtheme: "Cryptography" });
+    assert.strictEqual(res.status, 201, JSON.stringify(res.body));
+    assert.deepStrictEqual(res.body.deck.topic, { theme: "IT", subtheme: "Cibersegurança", subsubtheme: "Criptografia" });
+
+    const bad = await upsert({ theme: "IT", subtheme: "Rede" });
+    assert.strictEqual(bad.status, 400);
+    assert.strictEqual(bad.body.error, "UNKNOWN_TOPIC");
+    assert.strictEqual(bad.body.level, "subtheme");
+    assert.deepStrictEqual(bad.body.suggestions, ["Redes"]);
+
+    const check = await request(app).post("/decks/validate").set(ana.headers)
+      .send({ title: "D", topic: { theme: "Culinária" }, visibility: "PRIVATE", cards: [tf("x")] });
+    assert.strictEqual(check.body.ok, false);
+    assert.strictEqual(check.body.issues[0].path, "topic.theme");
+  });
+
+  it("should normalize the topic of imports", async () => {
+    const text = "#topic:it > redes > tcp\nprompt_md,correct\nSYN primeiro?,true\n";
+    const res = await request(app).post("/decks/import").set(ana.headers).send({ text, dryRun: true });
+    assert.strictEqual(res.status, 200, JSON.stringify(res.body));
+    assert.deepStrictEqual(res.body.preview.deck.topic, { theme: "IT", subtheme: "Redes", subsubtheme: "TCP/IP" });
+
+    const bad = await request(app).post("/decks/import").set(ana.headers)
+      .send({ text: "prompt_md,correct\nx,true\n", topic: { theme: "Nope" } });
+    assert.strictEqual(bad.status, 400);
+    assert.strictEqual(bad.body.error, "UNKNOWN_TOPIC");
+  });
+
+  it("should list the tree with public deck counts", async () => {
+    await upsert({ theme: "TI", subtheme: "Redes", subsubtheme: "VLAN" });
+    await upsert({ theme: "IT", subtheme: "Redes" }, { visibility: "PRIVATE" });
+
+    const res = await request(app).get("/topics");
+    assert.strictEqual(res.status, 200);
+    const it = res.body.themes.find((t) => t.slug === "it");
+    const redes = it.children.find((t) => t.slug === "redes");
+    assert.strictEqual(it.deckCount, 2); // criptografia e vlans (o privado e o import em dry-run não contam)
+    assert.strictEqual(redes.deckCount, 1);
+    assert.strictEqual(redes.children.find((t) => t.slug === "vlans").path, "it/redes/vlans");
+  });
+
+  it("should let admins curate the registry", async () => {
+    assert.strictEqual((await request(app).post("/admin/topics").set(ana.headers).send({ name: "X" })).status, 403);
+
+    const add = (body) => request(app).post("/admin/topics").set(admin.headers).send(body);
+    const created = await add({ name: "História", aliases: ["History"] });
+    assert.strictEqual(created.status, 201);
+    assert.strictEqual(created.body.topic.slug, "historia");
+    assert.strictEqual((await add({ name: "history" })).status, 409);
+    assert.strictEqual((await add({ parent: "historia", name: "Descobrimentos" })).status, 201);
+    assert.strictEqual((await add({ parent: "it/redes/vlans", name: "Trunks" })).status, 400);
+    assert.strictEqual((await add({ parent: "nada", name: "X" })).status, 404);
+
+    const renamed = await request(app).patch("/admin/topics/historia/descobrimentos").set(admin.headers)
+      .send({ name: "Expansão Marítima" });
+    assert.deepStrictEqual(renamed.body.topic.aliases, ["Descobrimentos"]);
+    assert.strictEqual(renamed.body.topic.slug, "descobrimentos"); // o slug não muda
+    const deck = await upsert({ theme: "history", subtheme: "Descobrimentos" });
+    assert.deepStrictEqual(deck.body.deck.topic, { theme: "História", subtheme: "Expansão Marítima" });
+
+    const del = (path, qs = "") => request(app).delete(`/admin/topics/${path}${qs}`).set(admin.headers);
+    assert.strictEqual((await del("historia/descobrimentos")).status, 409);
+    assert.strictEqual((await del("historia/descobrimentos", "?mergeInto=historia/descobrimentos")).status, 400);
+    assert.strictEqual((await add({ parent: "historia", name: "Portugal" })).status, 201);
+    assert.strictEqual((await del("historia/descobrimentos", "?mergeInto=historia/portugal")).status, 200);
+    assert.deepStrictEqual(
+      await topics.normalizeTopic({ theme: "História", subtheme: "Descobrimentos" }),
+      { theme: "História", subtheme: "Portugal" }
+    );
+  });
+
+  it("should serialize concurrent edits and publish topic events", async () => {
+    const { storeEvents } = await import("../src/lib/events.ts");
+    const seen = [];
+    const off = storeEvents.on("*", (e) => {
+      if (e.type.startsWith("topic.")) seen.push([e.type, e.path, e.userId]);
+    });
+    const add = (name) => request(app).post("/admin/topics").set(admin.headers).send({ parent: "it", name });
+    const names = ["Cloud", "DevOps", "Bases de Dados", "Sistemas Operativos"];
+    const res = await Promise.all(names.map(add));
+    assert.deepStrictEqual(res.map((r) => r.status), [201, 201, 201, 201]);
+    const it = (await topics.getTopicTree()).find((t) => t.slug === "it");
+    for (const name of names) assert.ok(it.children.some((c) => c.name === name), name);
+
+    await request(app).patch("/admin/topics/it/cloud").set(admin.headers).send({ aliases: ["Nuvem"] });
+    await request(app).delete("/admin/topics/it/devops").set(admin.headers);
+    off();
+    assert.deepStrictEqual(seen.filter(([type]) => type !== "topic.created"), [
+      ["topic.updated", "it/cloud", admin.user.id],
+      ["topic.deleted", "it/devops", admin.user.id],
+    ]);
+    assert.strictEqual(seen.filter(([type]) => type === "topic.created").length, 4);
+  });
+
+  it("should migrate existing decks onto the registry", async () => {
+    const bob = await login("bob");
+    const a = await store.upsertDeck(bob.user.id, { title: "A", topic: { theme: "informática", subtheme: "networking" }, visibility: "PUBLIC", cards: [tf("x")] });
+    const b = await store.upsertDeck(bob.user.id, { title: "B", topic: { theme: "Geografia", subtheme: "Rios" }, visibility: "PRIVATE", cards: [tf("x")] });
+
+    const migrate = (body) => request(app).post("/admin/topics/migrate").set(admin.headers).send(body);
+    const dry = await migrate({});
+    assert.strictEqual(dry.body.dryRun, true);
+    assert.ok(dry.body.remapped.some((r) => r.deckId === a.id && r.to.subtheme === "Redes"));
+    assert.ok(dry.body.unmapped.some((u) => u.deckId === b.id && u.level === "theme"));
+    assert.strictEqual((await store.findDeck(a.id)).deck.topic.theme, "informática");
+
+    const run = await migrate({ dryRun: false, addMissing: true });
+    assert.strictEqual(run.status, 200);
+    assert.deepStrictEqual(run.body.added, ["geografia", "geografia/rios"]);
+    assert.deepStrictEqual(run.body.unmapped, []);
+    const after = (await store.findDeck(a.id)).deck;
+    assert.deepStrictEqual(after.topic, { theme: "IT", subtheme: "Redes" });
+    assert.strictEqual(after.rev, a.rev + 1);
+
+    assert.deepStrictEqual((await migrate({ dryRun: false })).body.remapped, []);
+  });
+});